@@ -0,0 +1,78 @@
+import { auditSecurity } from '../../../lib/audit';
+import {
+  isDeliveryTier,
+  listDeliveryPipelineTemplates,
+  saveDeliveryPipelineTemplate,
+  validateDeliveryStages,
+} from '../../../lib/delivery-pipeline';
+import { errorResponse } from '../../../lib/errors';
+import { checkRateLimit } from '../../../lib/redis';
+import { parseJsonBody } from '../../../lib/request';
+import { jsonResponse } from '../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_TEMPLATE_BODY_BYTES = 32 * 1024;
+
+export async function GET(request: Request) {
+  const role = request.headers.get('x-lucien-role');
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  return jsonResponse({ items: listDeliveryPipelineTemplates() });
+}
+
+export async function PUT(request: Request) {
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+  if (rate.count > RATE_LIMIT) {
+    return errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+  }
+
+  const { data, error } = await parseJsonBody<{ tier?: unknown; stages?: unknown }>(request, {
+    maxBytes: MAX_TEMPLATE_BODY_BYTES,
+  });
+  if (error) return error;
+
+  if (!isDeliveryTier(data?.tier)) {
+    return errorResponse(400, 'invalid_payload', 'tier must be INTEL_ONLY, BLUEPRINT or CUSTOM.');
+  }
+
+  const { stages, errors } = validateDeliveryStages(data?.stages);
+  if (!stages) {
+    return jsonResponse(
+      {
+        error: 'gateway_error',
+        code: 'invalid_template',
+        reason: 'Pipeline stages failed validation.',
+        errors,
+      },
+      { status: 400 },
+    );
+  }
+
+  const template = saveDeliveryPipelineTemplate(data.tier, stages, uid);
+
+  auditSecurity({
+    event: 'delivery_template_update',
+    uid,
+    tier: template.tier,
+    stages: template.stages.map((stage) => stage.key),
+  });
+
+  return jsonResponse(template);
+}
@@ -0,0 +1,238 @@
+import { auditSecurity } from '../../../../../../../lib/audit';
+import {
+  completeContractSignature,
+  createContractSigningRequest,
+  failContractSignature,
+  getContractSigningProvider,
+  hashContractDocument,
+  MAX_TYPED_NAME_LENGTH,
+  recordContractSignature,
+  storeSignedContractCopy,
+  toContractSignatureUpdate,
+} from '../../../../../../../lib/contract-signing';
+import {
+  isContractType,
+  isSignableContractType,
+  latestContractsByType,
+  loadContractItems,
+  mapContractStatus,
+} from '../../../../../../../lib/contracts';
+import { erpClient, isERPClientError } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_SIGN_BODY_BYTES = 4 * 1024;
+const MAX_USER_AGENT_LENGTH = 512;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const getClientIp = (headers: Headers): string | null => {
+  const forwardedFor = headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const firstIp = forwardedFor.split(',')[0]?.trim();
+    if (firstIp) return firstIp;
+  }
+  return headers.get('x-real-ip')?.trim() || null;
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; type: string }> },
+) {
+  const { id: engagementId, type } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role !== 'CLIENT') {
+    const response = errorResponse(403, 'forbidden', 'Client role required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!isContractType(type) || !isSignableContractType(type)) {
+    const response = errorResponse(400, 'invalid_contract_type', 'Contract type cannot be signed.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{
+    typedName?: unknown;
+    consent?: unknown;
+  }>(request, { maxBytes: MAX_SIGN_BODY_BYTES });
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  const typedName =
+    typeof data?.typedName === 'string' ? data.typedName.trim().replace(/\s+/g, ' ') : '';
+  if (typedName.length < 2 || typedName.length > MAX_TYPED_NAME_LENGTH) {
+    const response = errorResponse(
+      400,
+      'invalid_payload',
+      `typedName must be 2-${MAX_TYPED_NAME_LENGTH} characters.`,
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (data?.consent !== true) {
+    const response = errorResponse(400, 'invalid_payload', 'consent must be true.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const provider = getContractSigningProvider();
+  if (!provider) {
+    const response = errorResponse(501, 'signing_unavailable', 'Signing provider not configured.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const records = await erpClient.fetchContractsByProject(engagementId);
+    const contract = records ? latestContractsByType(records).get(type) : undefined;
+    if (!records || !contract) {
+      const response = errorResponse(404, 'contract_not_found', 'Contract not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (mapContractStatus(contract.status) === 'signed') {
+      const response = errorResponse(409, 'invalid_transition', 'Contract is already signed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const signingRequest = createContractSigningRequest({
+      engagementId,
+      contractId: contract.name,
+      contractType: type,
+      signerUid: uid,
+      typedName,
+      ip: getClientIp(headers),
+      userAgent: headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      documentHash: await hashContractDocument(contract),
+    });
+
+    const pending = recordContractSignature({ request: signingRequest, provider: provider.id });
+    if (!pending) {
+      const response = errorResponse(
+        409,
+        'signature_in_progress',
+        'Contract already has an open or completed signature.',
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    let evidence = pending;
+    let update;
+    try {
+      const result = await provider.sign(pending);
+
+      if (result.status === 'pending') {
+        auditSecurity({
+          event: 'contract_signature_started',
+          uid,
+          engagementId,
+          contractId: contract.name,
+          provider: provider.id,
+          signatureId: pending.id,
+        });
+
+        const response = jsonResponse(
+          {
+            engagementId,
+            status: 'pending',
+            signatureId: pending.id,
+            redirectUrl: result.redirectUrl,
+          },
+          { status: 202 },
+        );
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+
+      evidence = await storeSignedContractCopy(contract, pending);
+      update = toContractSignatureUpdate(evidence);
+      await erpClient.updateContract(contract.name, update);
+    } catch (error) {
+      failContractSignature(pending.id);
+      throw error;
+    }
+    evidence = completeContractSignature(evidence.id) ?? evidence;
+
+    auditSecurity({
+      event: 'contract_signed',
+      uid,
+      engagementId,
+      contractId: contract.name,
+      contractType: type,
+      provider: provider.id,
+      signatureId: evidence.id,
+      documentHash: evidence.documentHash,
+      ip: evidence.ip,
+    });
+
+    const items = await loadContractItems(
+      engagementId,
+      records.map((record) =>
+        record.name === contract.name
+          ? { ...record, ...update, modified: update.lucien_signed_at }
+          : record,
+      ),
+    );
+
+    const response = jsonResponse({
+      engagementId,
+      status: 'completed',
+      signatureId: evidence.id,
+      documentHash: evidence.documentHash,
+      contract: items.find((item) => item.type === type),
+    });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+
+import { auditSecurity } from '../../../../../../lib/audit';
+import { erpClient, isERPClientError, type FileRecord } from '../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../lib/errors';
+import { verifyFileLink } from '../../../../../../lib/file-links';
+import { isOutputReleasedToClient, mapOutputStatus } from '../../../../../../lib/outputs';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { mergeSecurityHeaders } from '../../../../../../lib/response';
+
+const RATE_LIMIT = 120;
+const RATE_WINDOW_SECONDS = 60;
+const FILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,140}$/;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const resolveAttachmentAccess = async (file: FileRecord, engagementId: string) => {
+  const docname = file.attached_to_name ?? '';
+
+  switch (file.attached_to_doctype) {
+    case 'Client Request': {
+      const clientRequest = await erpClient.fetchClientRequestById(docname);
+      if (!clientRequest || clientRequest.project !== engagementId) return null;
+      return { clientVisible: clientRequest.visibility === 'client_visible' };
+    }
+    case 'Contract': {
+      const contracts = await erpClient.fetchContractsByProject(engagementId);
+      if (!contracts?.some((contract) => contract.name === docname)) return null;
+      return { clientVisible: true };
+    }
+    case 'Deliverable': {
+      const outputs = await erpClient.fetchOutputsByProject(engagementId);
+      const output = outputs?.find((entry) => entry.name === docname);
+      if (!output) return null;
+      return { clientVisible: isOutputReleasedToClient(mapOutputStatus(output.status)) };
+    }
+    case 'Deliverable Revision': {
+      const revision = await erpClient.fetchDeliverableRevisionById(docname);
+      if (!revision || revision.project !== engagementId) return null;
+      const output = await erpClient.fetchOutputById(revision.deliverable);
+      if (!output || output.project !== engagementId) return null;
+      return { clientVisible: isOutputReleasedToClient(mapOutputStatus(output.status)) };
+    }
+    default:
+      return null;
+  }
+};
+
+const contentDisposition = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; fileId: string }> },
+) {
+  const { id: engagementId, fileId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+  const searchParams = new URL(request.url).searchParams;
+  const signature = searchParams.get('sig');
+
+  if (!uid) {
+    if (!signature) {
+      return errorResponse(403, 'forbidden', 'Missing session context.');
+    }
+
+    const link = verifyFileLink(engagementId, fileId, searchParams.get('expires'), signature);
+    if (link === 'expired') {
+      return errorResponse(403, 'link_expired', 'Download link expired.');
+    }
+    if (link !== 'valid') {
+      return errorResponse(403, 'invalid_signature', 'Invalid download link.');
+    }
+  }
+
+  const rateKey = uid ? `lucien:rl:downloads:uid:${uid}` : `lucien:rl:downloads:file:${fileId}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many downloads.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (uid && role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!FILE_ID_PATTERN.test(fileId)) {
+    const response = errorResponse(400, 'invalid_file_id', 'Invalid fileId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const file = await erpClient.fetchFileById(fileId);
+    const access = file ? await resolveAttachmentAccess(file, engagementId) : null;
+    if (!file || !access) {
+      const response = errorResponse(404, 'file_not_found', 'File not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (uid && role === 'CLIENT' && !access.clientVisible) {
+      const response = errorResponse(403, 'forbidden', 'File not visible.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const upstream = await erpClient.downloadFile(file);
+
+    auditSecurity({
+      event: 'file_download',
+      uid,
+      engagementId,
+      fileId: file.name,
+      via: uid ? 'session' : 'signed_link',
+    });
+
+    const responseHeaders = mergeSecurityHeaders({
+      'Content-Type': upstream.headers.get('content-type') ?? 'application/octet-stream',
+      'Content-Disposition': contentDisposition(file.file_name),
+    });
+    const contentLength = upstream.headers.get('content-length');
+    if (contentLength) {
+      responseHeaders.set('Content-Length', contentLength);
+    }
+
+    const response = new NextResponse(upstream.body, { headers: responseHeaders });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
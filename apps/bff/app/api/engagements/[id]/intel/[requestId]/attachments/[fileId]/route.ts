@@ -0,0 +1,139 @@
+import { isIntelAttachmentDeleteResponseDTO } from '@lucien/contracts';
+
+import { auditSecurity } from '../../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../../lib/errors';
+import { canClientChangeIntelAttachments } from '../../../../../../../../lib/intel-workflow';
+import { checkRateLimit } from '../../../../../../../../lib/redis';
+import { contractResponse } from '../../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const FILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,140}$/;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string; fileId: string }> },
+) {
+  const { id: engagementId, requestId, fileId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!/^REQ-[0-9A-Z-]+$/.test(requestId)) {
+    const response = errorResponse(400, 'invalid_request_id', 'Invalid requestId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!FILE_ID_PATTERN.test(fileId)) {
+    const response = errorResponse(400, 'invalid_file_id', 'Invalid fileId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const clientRequest = await erpClient.fetchClientRequestById(requestId);
+    if (!clientRequest) {
+      const response = errorResponse(403, 'request_not_found', 'Request not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (clientRequest.project !== engagementId) {
+      const response = errorResponse(403, 'forbidden', 'Engagement mismatch.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (role === 'CLIENT') {
+      if (clientRequest.visibility !== 'client_visible') {
+        const response = errorResponse(403, 'forbidden', 'Request not visible.');
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+
+      if (!canClientChangeIntelAttachments(clientRequest.status)) {
+        const response = errorResponse(
+          403,
+          'request_locked',
+          `Attachments cannot be changed while the request is ${clientRequest.status}.`,
+        );
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+    }
+
+    const file = await erpClient.fetchFileById(fileId);
+    if (
+      !file ||
+      file.attached_to_doctype !== 'Client Request' ||
+      file.attached_to_name !== clientRequest.name
+    ) {
+      const response = errorResponse(404, 'file_not_found', 'Attachment not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    await erpClient.deleteFile(file.name);
+
+    auditSecurity({
+      event: 'intel_attachment_deleted',
+      uid,
+      role,
+      engagementId,
+      requestId: clientRequest.name,
+      fileId: file.name,
+      fileName: file.file_name,
+      requestStatus: clientRequest.status,
+    });
+
+    const response = contractResponse(
+      { requestId: clientRequest.name, fileId: file.name, deletedAt: new Date().toISOString() },
+      isIntelAttachmentDeleteResponseDTO,
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
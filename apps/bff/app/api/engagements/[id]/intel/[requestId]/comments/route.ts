@@ -0,0 +1,215 @@
+import { isIntelCommentDTO, isIntelCommentListDTO } from '@lucien/contracts';
+
+import { auditSecurity } from '../../../../../../../lib/audit';
+import {
+  erpClient,
+  isERPClientError,
+  type ClientRequestRecord,
+} from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import { filterFieldsByRole } from '../../../../../../../lib/intel-answers';
+import {
+  MAX_COMMENT_LENGTH,
+  createIntelComment,
+  getIntelCommentsReadAt,
+  listIntelComments,
+  markIntelCommentsRead,
+} from '../../../../../../../lib/intel-comments';
+import { getIntelTemplate } from '../../../../../../../lib/intel-template-store';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { contractResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_COMMENT_BODY_BYTES = 16 * 1024;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const loadRequest = async (
+  engagementId: string,
+  requestId: string,
+  role: string | null,
+): Promise<
+  | { error: ReturnType<typeof errorResponse>; record: null }
+  | { error: null; record: ClientRequestRecord }
+> => {
+  if (!/^REQ-[0-9A-Z-]+$/.test(requestId)) {
+    return {
+      error: errorResponse(400, 'invalid_request_id', 'Invalid requestId.'),
+      record: null,
+    };
+  }
+
+  const record = await erpClient.fetchClientRequestById(requestId);
+  if (!record) {
+    return { error: errorResponse(403, 'request_not_found', 'Request not found.'), record: null };
+  }
+
+  if (record.project !== engagementId) {
+    return { error: errorResponse(403, 'forbidden', 'Engagement mismatch.'), record: null };
+  }
+
+  if (role === 'CLIENT' && record.visibility !== 'client_visible') {
+    return { error: errorResponse(403, 'forbidden', 'Request not visible.'), record: null };
+  }
+
+  return { error: null, record };
+};
+
+const visibleFieldKeys = (record: ClientRequestRecord, role: string | null) => {
+  const template = getIntelTemplate(record.template_key, record.template_version);
+  return new Set(
+    template ? filterFieldsByRole(template.fields, role).map((field) => field.key) : [],
+  );
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> },
+) {
+  const { id: engagementId, requestId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    return errorResponse(403, 'forbidden', 'Engagement access denied.');
+  }
+
+  try {
+    const { error, record } = await loadRequest(engagementId, requestId, role);
+    if (error) return error;
+
+    const items = listIntelComments(record.name, visibleFieldKeys(record, role));
+    const lastReadAt = getIntelCommentsReadAt(uid, record.name);
+    markIntelCommentsRead(uid, record.name);
+
+    return contractResponse({ requestId: record.name, items, lastReadAt }, isIntelCommentListDTO);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> },
+) {
+  const { id: engagementId, requestId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{ fieldKey?: unknown; body?: unknown }>(
+    request,
+    { maxBytes: MAX_COMMENT_BODY_BYTES },
+  );
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  const body = typeof data?.body === 'string' ? data.body.trim() : '';
+  if (!body) {
+    const response = errorResponse(400, 'invalid_payload', 'body required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (body.length > MAX_COMMENT_LENGTH) {
+    const response = errorResponse(413, 'payload_too_large', 'Comment too long.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const fieldKey = data?.fieldKey ?? null;
+  if (fieldKey !== null && typeof fieldKey !== 'string') {
+    const response = errorResponse(400, 'invalid_payload', 'fieldKey must be a string.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const { error, record } = await loadRequest(engagementId, requestId, role);
+    if (error) {
+      return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+    }
+
+    if (fieldKey && !visibleFieldKeys(record, role).has(fieldKey)) {
+      const response = errorResponse(400, 'invalid_field', `Unknown field ${fieldKey}.`);
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const comment = createIntelComment({
+      engagementId,
+      requestId: record.name,
+      fieldKey: fieldKey || null,
+      body,
+      authorId: uid,
+      authorRole: role === 'OPERATOR' ? 'OPERATOR' : 'CLIENT',
+    });
+
+    auditSecurity({
+      event: 'intel_comment_created',
+      uid,
+      engagementId,
+      requestId: record.name,
+      fieldKey: comment.fieldKey,
+      commentId: comment.id,
+    });
+
+    const response = contractResponse(comment, isIntelCommentDTO, { status: 201 });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
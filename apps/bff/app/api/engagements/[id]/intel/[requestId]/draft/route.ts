@@ -0,0 +1,215 @@
+import { isIntelDraftDTO } from '@lucien/contracts';
+
+import {
+  erpClient,
+  isERPClientError,
+  type ClientRequestRecord,
+} from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import { filterFieldsByRole, pickAnswersForFields } from '../../../../../../../lib/intel-answers';
+import {
+  DRAFTABLE_STATUSES,
+  deleteIntelDraftsForRequest,
+  getIntelDraft,
+  saveIntelDraft,
+} from '../../../../../../../lib/intel-drafts';
+import { getIntelTemplate } from '../../../../../../../lib/intel-template-store';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { contractResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 60;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_DRAFT_BODY_BYTES = 256 * 1024;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const loadRequest = async (
+  engagementId: string,
+  requestId: string,
+  role: string | null,
+): Promise<
+  | { error: ReturnType<typeof errorResponse>; record: null }
+  | { error: null; record: ClientRequestRecord }
+> => {
+  if (!/^REQ-[0-9A-Z-]+$/.test(requestId)) {
+    return {
+      error: errorResponse(400, 'invalid_request_id', 'Invalid requestId.'),
+      record: null,
+    };
+  }
+
+  const record = await erpClient.fetchClientRequestById(requestId);
+  if (!record) {
+    return { error: errorResponse(403, 'request_not_found', 'Request not found.'), record: null };
+  }
+
+  if (record.project !== engagementId) {
+    return { error: errorResponse(403, 'forbidden', 'Engagement mismatch.'), record: null };
+  }
+
+  if (role === 'CLIENT' && record.visibility !== 'client_visible') {
+    return { error: errorResponse(403, 'forbidden', 'Request not visible.'), record: null };
+  }
+
+  return { error: null, record };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> },
+) {
+  const { id: engagementId, requestId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    return errorResponse(403, 'forbidden', 'Engagement access denied.');
+  }
+
+  try {
+    const { error, record } = await loadRequest(engagementId, requestId, role);
+    if (error) return error;
+
+    if (!DRAFTABLE_STATUSES.has(record.status)) {
+      deleteIntelDraftsForRequest(record.name);
+      return contractResponse(
+        { requestId: record.name, answers: {}, updatedAt: null },
+        isIntelDraftDTO,
+      );
+    }
+
+    const draft = getIntelDraft(uid, record.name);
+    const template = getIntelTemplate(record.template_key, record.template_version);
+    const fields = template ? filterFieldsByRole(template.fields, role) : [];
+
+    return contractResponse(
+      {
+        requestId: record.name,
+        answers: draft ? pickAnswersForFields(fields, draft.answers) : {},
+        updatedAt: draft?.updatedAt ?? null,
+      },
+      isIntelDraftDTO,
+    );
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> },
+) {
+  const { id: engagementId, requestId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:drafts:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many draft saves.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{ answers?: unknown }>(request, {
+    maxBytes: MAX_DRAFT_BODY_BYTES,
+  });
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  const answers = data?.answers;
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+    const response = errorResponse(400, 'invalid_payload', 'answers object required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const { error, record } = await loadRequest(engagementId, requestId, role);
+    if (error) {
+      return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+    }
+
+    if (!DRAFTABLE_STATUSES.has(record.status)) {
+      const response = errorResponse(403, 'request_locked', 'Drafts closed for this request.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const template = getIntelTemplate(record.template_key, record.template_version);
+    if (!template) {
+      const response = errorResponse(400, 'template_not_found', 'Request template unknown.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const fields = filterFieldsByRole(template.fields, role).filter(
+      (field) => field.type !== 'file',
+    );
+    const draft = saveIntelDraft({
+      userId: uid,
+      requestId: record.name,
+      engagementId,
+      answers: pickAnswersForFields(fields, answers as Record<string, unknown>),
+    });
+
+    const response = contractResponse(
+      {
+        requestId: draft.requestId,
+        answers: draft.answers,
+        updatedAt: draft.updatedAt,
+      },
+      isIntelDraftDTO,
+    );
+
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
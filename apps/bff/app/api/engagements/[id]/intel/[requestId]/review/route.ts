@@ -0,0 +1,151 @@
+import { isIntelReviewResponseDTO } from '@lucien/contracts';
+
+import { auditSecurity } from '../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import { deleteIntelDraftsForRequest } from '../../../../../../../lib/intel-drafts';
+import {
+  REVIEW_DECISION_STATUS,
+  canTransitionIntelRequest,
+  isIntelReviewDecision,
+} from '../../../../../../../lib/intel-workflow';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { contractResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_REVIEW_BODY_BYTES = 16 * 1024;
+const MAX_COMMENT_LENGTH = 4000;
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> },
+) {
+  const { id: engagementId, requestId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!/^REQ-[0-9A-Z-]+$/.test(requestId)) {
+    const response = errorResponse(400, 'invalid_request_id', 'Invalid requestId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error } = await parseJsonBody<{ decision?: unknown; comment?: unknown }>(request, {
+    maxBytes: MAX_REVIEW_BODY_BYTES,
+  });
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  const decision = data?.decision;
+  if (!isIntelReviewDecision(decision)) {
+    const response = errorResponse(
+      400,
+      'invalid_payload',
+      'decision must be accept or request_revision.',
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const comment = typeof data?.comment === 'string' ? data.comment.trim() : '';
+  if (decision === 'request_revision' && !comment) {
+    const response = errorResponse(400, 'invalid_payload', 'comment required for revisions.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    const response = errorResponse(413, 'payload_too_large', 'comment too long.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const clientRequest = await erpClient.fetchClientRequestById(requestId);
+    if (!clientRequest) {
+      const response = errorResponse(403, 'request_not_found', 'Request not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (clientRequest.project !== engagementId) {
+      const response = errorResponse(403, 'forbidden', 'Engagement mismatch.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const nextStatus = REVIEW_DECISION_STATUS[decision];
+    if (!canTransitionIntelRequest(clientRequest.status, nextStatus)) {
+      const response = errorResponse(
+        409,
+        'invalid_transition',
+        `Cannot move request from ${clientRequest.status} to ${nextStatus}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const reviewedAt = new Date().toISOString();
+    await erpClient.updateClientRequestReview(clientRequest.name, {
+      status: nextStatus,
+      review_comment: comment || null,
+      reviewed_by: uid,
+      reviewed_at: reviewedAt,
+    });
+
+    if (nextStatus === 'accepted') {
+      deleteIntelDraftsForRequest(clientRequest.name);
+    }
+
+    auditSecurity({
+      event: 'intel_review',
+      uid,
+      engagementId,
+      requestId: clientRequest.name,
+      from: clientRequest.status,
+      to: nextStatus,
+    });
+
+    const response = contractResponse(
+      {
+        requestId: clientRequest.name,
+        status: nextStatus,
+        decision,
+        comment: comment || null,
+        reviewedAt,
+      },
+      isIntelReviewResponseDTO,
+    );
+
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,192 @@
+import { isIntelSubmitResponseDTO, resolveIntelFieldStates } from '@lucien/contracts';
+
+import { erpClient, isERPClientError } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import {
+  filterFieldsByRole,
+  parseStoredAnswers,
+  pickAnswersForFields,
+  toAnswerObject,
+  validateIntelAnswers,
+} from '../../../../../../../lib/intel-answers';
+import { deleteIntelDraftsForRequest } from '../../../../../../../lib/intel-drafts';
+import { getIntelTemplate } from '../../../../../../../lib/intel-template-store';
+import { canTransitionIntelRequest } from '../../../../../../../lib/intel-workflow';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { contractResponse, jsonResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_SUBMIT_BODY_BYTES = 256 * 1024;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> },
+) {
+  const { id: engagementId, requestId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!/^REQ-[0-9A-Z-]+$/.test(requestId)) {
+    const response = errorResponse(400, 'invalid_request_id', 'Invalid requestId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error } = await parseJsonBody<{ answers?: unknown }>(request, {
+    maxBytes: MAX_SUBMIT_BODY_BYTES,
+  });
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const clientRequest = await erpClient.fetchClientRequestById(requestId);
+    if (!clientRequest) {
+      const response = errorResponse(403, 'request_not_found', 'Request not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (clientRequest.project !== engagementId) {
+      const response = errorResponse(403, 'forbidden', 'Engagement mismatch.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (role === 'CLIENT') {
+      if (clientRequest.visibility !== 'client_visible') {
+        const response = errorResponse(403, 'forbidden', 'Request not visible.');
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+
+      if (clientRequest.status === 'accepted') {
+        const response = errorResponse(403, 'forbidden', 'Request already accepted.');
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+    }
+
+    if (!canTransitionIntelRequest(clientRequest.status, 'submitted')) {
+      const response = errorResponse(
+        409,
+        'invalid_transition',
+        `Cannot submit a ${clientRequest.status} request.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const template = getIntelTemplate(clientRequest.template_key, clientRequest.template_version);
+    if (!template) {
+      const response = errorResponse(400, 'template_not_found', 'Request template unknown.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const fields = filterFieldsByRole(template.fields, role);
+    const hiddenFields = template.fields.filter((field) => !fields.includes(field));
+    const attachments = await erpClient.fetchFileAttachments('Client Request', [
+      clientRequest.name,
+    ]);
+    // Conditions may read answers the caller cannot see, so visibility is
+    // resolved once over the whole template and reused when storing.
+    const storedHidden = pickAnswersForFields(
+      hiddenFields,
+      parseStoredAnswers(clientRequest.answers),
+    );
+    const states = resolveIntelFieldStates(template.fields, {
+      ...storedHidden,
+      ...pickAnswersForFields(fields, toAnswerObject(data?.answers)),
+    });
+    const { answers, errors } = validateIntelAnswers(fields, data?.answers, {
+      attachmentCount: attachments.length,
+      states,
+    });
+
+    if (errors.length) {
+      const response = jsonResponse(
+        {
+          error: 'gateway_error',
+          code: 'invalid_answers',
+          reason: 'Answers failed template validation.',
+          fields: errors,
+        },
+        { status: 400 },
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const merged = { ...storedHidden, ...answers };
+    const submittedAt = new Date().toISOString();
+    await erpClient.updateClientRequestAnswers(clientRequest.name, {
+      answers: pickAnswersForFields(
+        template.fields.filter((field) => states[field.key].visible),
+        merged,
+      ),
+      template_version: template.version,
+      submitted_by: uid,
+      submitted_at: submittedAt,
+    });
+    await erpClient.updateClientRequestStatus(clientRequest.name, 'submitted');
+    deleteIntelDraftsForRequest(clientRequest.name);
+
+    const response = contractResponse(
+      {
+        requestId: clientRequest.name,
+        status: 'submitted',
+        submittedAt,
+        templateVersion: template.version,
+        answers,
+      },
+      isIntelSubmitResponseDTO,
+    );
+
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
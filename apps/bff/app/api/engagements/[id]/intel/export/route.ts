@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+
+import { auditSecurity } from '../../../../../../lib/audit';
+import { isERPClientError } from '../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../lib/errors';
+import {
+  buildIntelExportEntries,
+  loadIntelExportRequests,
+} from '../../../../../../lib/intel-export';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { mergeSecurityHeaders } from '../../../../../../lib/response';
+import { createZipStream } from '../../../../../../lib/zip';
+
+const RATE_LIMIT = 10;
+const RATE_WINDOW_SECONDS = 60;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:exports:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many exports.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const requests = await loadIntelExportRequests(engagementId, role);
+    const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+    auditSecurity({
+      event: 'intel_export',
+      uid,
+      role,
+      engagementId,
+      requests: requests.length,
+      attachments: requests.reduce((total, entry) => total + entry.files.length, 0),
+    });
+
+    const stream = createZipStream(buildIntelExportEntries({ engagementId, role, uid, requests }));
+    const response = new NextResponse(stream, {
+      headers: mergeSecurityHeaders({
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="intel-${engagementId.replace(/[^A-Za-z0-9_-]/g, '_')}-${stamp}.zip"`,
+      }),
+    });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
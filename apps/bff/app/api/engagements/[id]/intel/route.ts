@@ -1,12 +1,16 @@
+import { isArrayOf, isIntelRequestDTO } from '@lucien/contracts';
+
 import { erpClient, isERPClientError } from '../../../../../lib/erp-client';
 import { errorResponse } from '../../../../../lib/errors';
-import { INTEL_TEMPLATES, type IntelField } from '../../../../../lib/intel-templates';
-import { jsonResponse } from '../../../../../lib/response';
-
-const filterFieldsByRole = (fields: IntelField[], role: string | null): IntelField[] => {
-  if (role !== 'CLIENT') return fields;
-  return fields.filter((field) => !field.visibility || field.visibility === 'client_visible');
-};
+import { buildFileUrl } from '../../../../../lib/file-links';
+import {
+  filterFieldsByRole,
+  parseStoredAnswers,
+  pickAnswersForFields,
+} from '../../../../../lib/intel-answers';
+import { countUnreadIntelComments } from '../../../../../lib/intel-comments';
+import { getIntelTemplate } from '../../../../../lib/intel-template-store';
+import { contractResponse } from '../../../../../lib/response';
 
 const parseScope = (scopeHeader: string | null) => {
   if (!scopeHeader) return { all: false, ids: [] as string[] };
@@ -27,6 +31,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
   const { id: engagementId } = await params;
   const headers = request.headers;
   const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
   const scope = parseScope(headers.get('x-lucien-scope'));
 
   if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
@@ -50,9 +55,9 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
           return null;
         }
 
-        const template = INTEL_TEMPLATES[record.template_key];
+        const template = getIntelTemplate(record.template_key, record.template_version);
         const fields = template ? filterFieldsByRole(template.fields, role) : [];
-        const attachments = await erpClient.fetchFileAttachmentsForRequest(record.name);
+        const attachments = await erpClient.fetchFileAttachments('Client Request', [record.name]);
 
         return {
           id: record.name,
@@ -62,19 +67,28 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
           status: record.status,
           required: record.required,
           templateKey: record.template_key,
+          templateVersion: template?.version ?? null,
           visibility: record.visibility ?? null,
+          dueDate: record.due_date ?? null,
           fields,
+          answers: pickAnswersForFields(fields, parseStoredAnswers(record.answers)),
+          submittedAt: record.submitted_at ?? null,
+          reviewComment: record.review_comment ?? null,
+          reviewedAt: record.reviewed_at ?? null,
           attachments: attachments.map((file) => ({
             id: file.name,
             fileName: file.file_name,
-            fileUrl: file.file_url,
+            fileUrl: buildFileUrl(engagementId, file.name),
             isPrivate: file.is_private,
           })),
+          unreadComments: uid
+            ? countUnreadIntelComments(uid, record.name, new Set(fields.map((field) => field.key)))
+            : 0,
         };
       }),
     );
 
-    return jsonResponse(responses.filter(Boolean));
+    return contractResponse(responses.filter(Boolean), isArrayOf(isIntelRequestDTO));
   } catch (error) {
     if (isERPClientError(error)) {
       return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
@@ -1,7 +1,20 @@
+import { isIntelUploadResponseDTO } from '@lucien/contracts';
+
+import { auditSecurity } from '../../../../../../lib/audit';
 import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
 import { errorResponse } from '../../../../../../lib/errors';
+import { getIntelTemplate } from '../../../../../../lib/intel-template-store';
+import { canAttachToIntelRequest } from '../../../../../../lib/intel-workflow';
+import { isScanAccepted } from '../../../../../../lib/malware-scanner';
 import { checkRateLimit } from '../../../../../../lib/redis';
-import { jsonResponse } from '../../../../../../lib/response';
+import { contractResponse } from '../../../../../../lib/response';
+import {
+  describeScanFailure,
+  inspectIntelUpload,
+  quarantineIntelUpload,
+  recordIntelUploadInspection,
+  resolveUploadAccept,
+} from '../../../../../../lib/upload-inspection';
 
 const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
 const RATE_LIMIT = 10;
@@ -76,6 +89,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
   const formData = await request.formData();
   const file = formData.get('file');
   const requestId = formData.get('requestId');
+  const fieldKey = formData.get('fieldKey');
 
   if (!(file instanceof File)) {
     const response = errorResponse(400, 'invalid_file', 'File is required.');
@@ -109,11 +123,81 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
         const response = errorResponse(403, 'forbidden', 'Request not visible.');
         return withRateHeaders(response, RATE_LIMIT, rate.remaining);
       }
+    }
 
-      if (clientRequest.status === 'accepted') {
-        const response = errorResponse(403, 'forbidden', 'Request already accepted.');
-        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
-      }
+    if (!canAttachToIntelRequest(clientRequest.status, role)) {
+      const response = errorResponse(
+        403,
+        'request_locked',
+        `Files cannot be added while the request is ${clientRequest.status}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const template = getIntelTemplate(clientRequest.template_key, clientRequest.template_version);
+    const { accept, error: fieldError } = resolveUploadAccept(
+      template,
+      typeof fieldKey === 'string' ? fieldKey : null,
+    );
+    if (fieldError) {
+      const response = errorResponse(400, 'invalid_field', fieldError);
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const inspection = await inspectIntelUpload(file, file.name, accept);
+    if (inspection.rejection) {
+      auditSecurity({
+        event: 'intel_upload_rejected',
+        uid,
+        engagementId,
+        requestId: clientRequest.name,
+        fileName: file.name,
+        code: inspection.rejection.code,
+      });
+      const response = errorResponse(415, inspection.rejection.code, inspection.rejection.reason);
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const { detectedType, scan, sha256 } = inspection;
+
+    if (!isScanAccepted(scan)) {
+      const inspectionId = recordIntelUploadInspection({
+        userId: uid,
+        engagementId,
+        requestId: clientRequest.name,
+        fileId: null,
+        fileName: file.name,
+        size: file.size,
+        sha256,
+        detectedType,
+        scan,
+        quarantinePath: await quarantineIntelUpload(file, sha256),
+      });
+      auditSecurity({
+        event: 'intel_upload_quarantined',
+        uid,
+        engagementId,
+        requestId: clientRequest.name,
+        inspectionId,
+        sha256,
+        engine: scan.engine,
+        status: scan.status,
+        signature: scan.signature ?? null,
+      });
+
+      const response = contractResponse(
+        {
+          requestId: clientRequest.name,
+          uploadId: inspectionId,
+          status: 'failed',
+          receivedAt: new Date().toISOString(),
+          message: describeScanFailure(scan),
+          sha256,
+          detectedType,
+        },
+        isIntelUploadResponseDTO,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
     }
 
     const uploadResponse = await erpClient.uploadFile({
@@ -122,15 +206,31 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
       docname: clientRequest.name,
     });
 
-    await erpClient.updateClientRequestStatus(clientRequest.name, 'submitted');
-
-    const response = jsonResponse({
+    recordIntelUploadInspection({
+      userId: uid,
+      engagementId,
       requestId: clientRequest.name,
-      uploadId: uploadResponse.file.name,
-      status: 'accepted',
-      receivedAt: new Date().toISOString(),
+      fileId: uploadResponse.file.name,
+      fileName: file.name,
+      size: file.size,
+      sha256,
+      detectedType,
+      scan,
+      quarantinePath: null,
     });
 
+    const response = contractResponse(
+      {
+        requestId: clientRequest.name,
+        uploadId: uploadResponse.file.name,
+        status: 'accepted',
+        receivedAt: new Date().toISOString(),
+        sha256,
+        detectedType,
+      },
+      isIntelUploadResponseDTO,
+    );
+
     return withRateHeaders(response, RATE_LIMIT, rate.remaining);
   } catch (error) {
     if (isERPClientError(error)) {
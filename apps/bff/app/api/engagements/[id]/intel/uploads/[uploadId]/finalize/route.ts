@@ -0,0 +1,245 @@
+import { isIntelUploadResponseDTO } from '@lucien/contracts';
+
+import { auditSecurity } from '../../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../../lib/errors';
+import { buildFileUrl } from '../../../../../../../../lib/file-links';
+import { getIntelTemplate } from '../../../../../../../../lib/intel-template-store';
+import {
+  deleteIntelUploadSession,
+  getIntelUploadSession,
+  markIntelUploadFinalized,
+  readIntelUploadFile,
+  reopenIntelUpload,
+} from '../../../../../../../../lib/intel-uploads';
+import { canAttachToIntelRequest } from '../../../../../../../../lib/intel-workflow';
+import { isScanAccepted } from '../../../../../../../../lib/malware-scanner';
+import { checkRateLimit } from '../../../../../../../../lib/redis';
+import { contractResponse } from '../../../../../../../../lib/response';
+import {
+  describeScanFailure,
+  inspectIntelUpload,
+  quarantineIntelUpload,
+  recordIntelUploadInspection,
+  resolveUploadAccept,
+} from '../../../../../../../../lib/upload-inspection';
+
+const RATE_LIMIT = 60;
+const RATE_WINDOW_SECONDS = 60;
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; uploadId: string }> },
+) {
+  const { id: engagementId, uploadId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:uploads:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many uploads.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    const response = errorResponse(400, 'invalid_upload_id', 'Invalid uploadId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const session = getIntelUploadSession(uploadId);
+  if (!session || session.userId !== uid || session.engagementId !== engagementId) {
+    const response = errorResponse(404, 'upload_not_found', 'Upload not found.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (session.receivedBytes !== session.size) {
+    const response = errorResponse(409, 'upload_incomplete', 'Upload has missing chunks.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const clientRequest = await erpClient.fetchClientRequestById(session.requestId);
+    if (!clientRequest || clientRequest.project !== engagementId) {
+      const response = errorResponse(403, 'request_not_found', 'Request not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (role === 'CLIENT') {
+      if (clientRequest.visibility !== 'client_visible') {
+        const response = errorResponse(403, 'forbidden', 'Request not visible.');
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+    }
+
+    if (!canAttachToIntelRequest(clientRequest.status, role)) {
+      const response = errorResponse(
+        403,
+        'request_locked',
+        `Files cannot be added while the request is ${clientRequest.status}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (!markIntelUploadFinalized(session.id)) {
+      const response = errorResponse(409, 'upload_finalizing', 'Upload is being finalized.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    let inspection;
+    let uploadResponse;
+    const file = await readIntelUploadFile(session);
+    try {
+      const template = getIntelTemplate(clientRequest.template_key, clientRequest.template_version);
+      const { accept } = resolveUploadAccept(template, session.fieldKey);
+      inspection = await inspectIntelUpload(file, session.fileName, accept);
+
+      if (!inspection.rejection && isScanAccepted(inspection.scan)) {
+        uploadResponse = await erpClient.uploadFile({
+          file,
+          doctype: 'Client Request',
+          docname: clientRequest.name,
+        });
+      }
+    } catch (error) {
+      reopenIntelUpload(session.id);
+      throw error;
+    }
+
+    if (inspection.rejection) {
+      await deleteIntelUploadSession(session.id);
+      auditSecurity({
+        event: 'intel_upload_rejected',
+        uid,
+        engagementId,
+        requestId: clientRequest.name,
+        fileName: session.fileName,
+        code: inspection.rejection.code,
+      });
+      const response = errorResponse(415, inspection.rejection.code, inspection.rejection.reason);
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const { detectedType, scan, sha256 } = inspection;
+
+    if (!uploadResponse) {
+      const quarantinePath = await quarantineIntelUpload(file, sha256);
+      await deleteIntelUploadSession(session.id);
+      const inspectionId = recordIntelUploadInspection({
+        userId: uid,
+        engagementId,
+        requestId: clientRequest.name,
+        fileId: null,
+        fileName: session.fileName,
+        size: session.size,
+        sha256,
+        detectedType,
+        scan,
+        quarantinePath,
+      });
+      auditSecurity({
+        event: 'intel_upload_quarantined',
+        uid,
+        engagementId,
+        requestId: clientRequest.name,
+        inspectionId,
+        sha256,
+        engine: scan.engine,
+        status: scan.status,
+        signature: scan.signature ?? null,
+      });
+
+      const response = contractResponse(
+        {
+          requestId: clientRequest.name,
+          uploadId: inspectionId,
+          status: 'failed',
+          receivedAt: new Date().toISOString(),
+          message: describeScanFailure(scan),
+          sha256,
+          detectedType,
+        },
+        isIntelUploadResponseDTO,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    await deleteIntelUploadSession(session.id);
+    recordIntelUploadInspection({
+      userId: uid,
+      engagementId,
+      requestId: clientRequest.name,
+      fileId: uploadResponse.file.name,
+      fileName: session.fileName,
+      size: session.size,
+      sha256,
+      detectedType,
+      scan,
+      quarantinePath: null,
+    });
+
+    const response = contractResponse(
+      {
+        requestId: clientRequest.name,
+        uploadId: uploadResponse.file.name,
+        status: 'accepted',
+        receivedAt: new Date().toISOString(),
+        sha256,
+        detectedType,
+        attachment: {
+          id: uploadResponse.file.name,
+          fileName: uploadResponse.file.file_name,
+          fileUrl: buildFileUrl(engagementId, uploadResponse.file.name),
+          isPrivate: uploadResponse.file.is_private,
+        },
+      },
+      isIntelUploadResponseDTO,
+    );
+
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
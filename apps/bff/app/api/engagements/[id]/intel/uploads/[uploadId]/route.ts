@@ -0,0 +1,209 @@
+import { isIntelUploadSessionDTO } from '@lucien/contracts';
+
+import { errorResponse } from '../../../../../../../lib/errors';
+import {
+  deleteIntelUploadSession,
+  getIntelUploadSession,
+  sha256Hex,
+  toIntelUploadSessionDTO,
+  writeIntelUploadChunk,
+  type IntelUploadSession,
+} from '../../../../../../../lib/intel-uploads';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { contractResponse, jsonResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 600;
+const RATE_WINDOW_SECONDS = 60;
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const loadSession = (
+  headers: Headers,
+  engagementId: string,
+  uploadId: string,
+):
+  | { error: ReturnType<typeof errorResponse>; session: null }
+  | { error: null; session: IntelUploadSession } => {
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    return { error: errorResponse(403, 'forbidden', 'Engagement access denied.'), session: null };
+  }
+
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    return { error: errorResponse(400, 'invalid_upload_id', 'Invalid uploadId.'), session: null };
+  }
+
+  const session = getIntelUploadSession(uploadId);
+  if (!session || session.userId !== uid || session.engagementId !== engagementId) {
+    return { error: errorResponse(404, 'upload_not_found', 'Upload not found.'), session: null };
+  }
+
+  return { error: null, session };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; uploadId: string }> },
+) {
+  const { id: engagementId, uploadId } = await params;
+  const uid = request.headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const { error, session } = loadSession(request.headers, engagementId, uploadId);
+  if (error) return error;
+
+  return contractResponse(toIntelUploadSessionDTO(session), isIntelUploadSessionDTO);
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; uploadId: string }> },
+) {
+  const { id: engagementId, uploadId } = await params;
+  const headers = request.headers;
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:chunks:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many upload chunks.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { error, session } = loadSession(headers, engagementId, uploadId);
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  const contentType = headers.get('content-type') ?? '';
+  if (!contentType.toLowerCase().includes('application/octet-stream')) {
+    const response = errorResponse(
+      400,
+      'invalid_content_type',
+      'Expected application/octet-stream.',
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const contentLength = Number(headers.get('content-length') ?? '0');
+  if (!Number.isFinite(contentLength) || contentLength <= 0) {
+    const response = errorResponse(411, 'length_required', 'Content-Length required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (contentLength > session.chunkSize) {
+    const response = errorResponse(413, 'payload_too_large', 'Chunk exceeds chunkSize.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const offset = Number(headers.get('x-upload-offset'));
+  const checksum = (headers.get('x-upload-sha256') ?? '').toLowerCase();
+  if (!Number.isInteger(offset) || offset < 0 || !SHA256_PATTERN.test(checksum)) {
+    const response = errorResponse(
+      400,
+      'invalid_chunk',
+      'x-upload-offset and x-upload-sha256 headers required.',
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (session.status !== 'open' || offset !== session.receivedBytes) {
+    const response = jsonResponse(
+      {
+        error: 'gateway_error',
+        code: 'offset_mismatch',
+        reason: 'Resume from receivedBytes.',
+        receivedBytes: session.receivedBytes,
+      },
+      { status: 409 },
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const chunk = new Uint8Array(await request.arrayBuffer());
+  if (chunk.byteLength !== contentLength || offset + chunk.byteLength > session.size) {
+    const response = errorResponse(400, 'invalid_chunk', 'Chunk length mismatch.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (sha256Hex(chunk) !== checksum) {
+    const response = errorResponse(400, 'checksum_mismatch', 'Chunk checksum mismatch.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const updated = await writeIntelUploadChunk(session, offset, chunk);
+  if (!updated) {
+    const current = getIntelUploadSession(session.id);
+    const response = jsonResponse(
+      {
+        error: 'gateway_error',
+        code: 'offset_mismatch',
+        reason: 'Resume from receivedBytes.',
+        receivedBytes: current?.receivedBytes ?? session.receivedBytes,
+      },
+      { status: 409 },
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const response = contractResponse(toIntelUploadSessionDTO(updated), isIntelUploadSessionDTO);
+  return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; uploadId: string }> },
+) {
+  const { id: engagementId, uploadId } = await params;
+  const uid = request.headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const { error, session } = loadSession(request.headers, engagementId, uploadId);
+  if (error) return error;
+
+  if (session.status !== 'open') {
+    return errorResponse(409, 'upload_finalizing', 'Upload is being finalized.');
+  }
+
+  await deleteIntelUploadSession(session.id);
+  return jsonResponse({ uploadId: session.id, deleted: true });
+}
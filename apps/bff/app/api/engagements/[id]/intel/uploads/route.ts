@@ -0,0 +1,204 @@
+import { isIntelUploadSessionDTO } from '@lucien/contracts';
+
+import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../lib/errors';
+import { getIntelTemplate } from '../../../../../../lib/intel-template-store';
+import {
+  MAX_INTEL_UPLOAD_BYTES,
+  createIntelUploadSession,
+  purgeExpiredIntelUploads,
+  toIntelUploadSessionDTO,
+} from '../../../../../../lib/intel-uploads';
+import { canAttachToIntelRequest } from '../../../../../../lib/intel-workflow';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../lib/request';
+import { contractResponse } from '../../../../../../lib/response';
+import {
+  checkDeclaredUploadType,
+  resolveUploadAccept,
+} from '../../../../../../lib/upload-inspection';
+
+const RATE_LIMIT = 60;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_INIT_BODY_BYTES = 4 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+const CONTENT_TYPE_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/i;
+
+type InitUploadBody = {
+  requestId?: unknown;
+  fieldKey?: unknown;
+  fileName?: unknown;
+  size?: unknown;
+  contentType?: unknown;
+};
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const sanitizeFileName = (value: string) => {
+  return value
+    .replace(/[\\/]/g, '_')
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .trim();
+};
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:uploads:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many uploads.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error } = await parseJsonBody<InitUploadBody>(request, {
+    maxBytes: MAX_INIT_BODY_BYTES,
+  });
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  const requestId = data?.requestId;
+  if (typeof requestId !== 'string' || !/^REQ-[0-9A-Z-]+$/.test(requestId)) {
+    const response = errorResponse(400, 'invalid_request_id', 'Invalid requestId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const fieldKey = data?.fieldKey ?? null;
+  if (fieldKey !== null && typeof fieldKey !== 'string') {
+    const response = errorResponse(400, 'invalid_field', 'fieldKey must be a string.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const fileName = typeof data?.fileName === 'string' ? sanitizeFileName(data.fileName) : '';
+  if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+    const response = errorResponse(400, 'invalid_file', 'fileName required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const size = data?.size;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+    const response = errorResponse(400, 'invalid_file', 'size must be a positive integer.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (size > MAX_INTEL_UPLOAD_BYTES) {
+    const response = errorResponse(413, 'payload_too_large', 'Upload exceeds 1GB.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const contentType =
+    typeof data?.contentType === 'string' && CONTENT_TYPE_PATTERN.test(data.contentType)
+      ? data.contentType.toLowerCase()
+      : 'application/octet-stream';
+
+  try {
+    const clientRequest = await erpClient.fetchClientRequestById(requestId);
+    if (!clientRequest) {
+      const response = errorResponse(403, 'request_not_found', 'Request not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (clientRequest.project !== engagementId) {
+      const response = errorResponse(403, 'forbidden', 'Engagement mismatch.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (role === 'CLIENT') {
+      if (clientRequest.visibility !== 'client_visible') {
+        const response = errorResponse(403, 'forbidden', 'Request not visible.');
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+    }
+
+    if (!canAttachToIntelRequest(clientRequest.status, role)) {
+      const response = errorResponse(
+        403,
+        'request_locked',
+        `Files cannot be added while the request is ${clientRequest.status}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const template = getIntelTemplate(clientRequest.template_key, clientRequest.template_version);
+    const { accept, error: fieldError } = resolveUploadAccept(template, fieldKey);
+    if (fieldError) {
+      const response = errorResponse(400, 'invalid_field', fieldError);
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const rejection = checkDeclaredUploadType(fileName, contentType, accept);
+    if (rejection) {
+      const response = errorResponse(415, rejection.code, rejection.reason);
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    await purgeExpiredIntelUploads();
+    const { session, error: limitError } = await createIntelUploadSession({
+      userId: uid,
+      engagementId,
+      requestId: clientRequest.name,
+      fieldKey,
+      fileName,
+      contentType,
+      size,
+    });
+    if (!session) {
+      const response = errorResponse(
+        429,
+        limitError?.code ?? 'too_many_uploads',
+        limitError?.reason ?? 'Upload limit reached.',
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const response = contractResponse(toIntelUploadSessionDTO(session), isIntelUploadSessionDTO, {
+      status: 201,
+    });
+
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,171 @@
+import { auditSecurity } from '../../../../../../../../lib/audit';
+import {
+  getDeliveryPipelineTemplate,
+  isReleaseRollback,
+  isReleaseStage,
+  resolveDeliveryStage,
+  resolveDeliveryTarget,
+  resolveDeliveryTier,
+  toDeliveryPipelineItem,
+  toOutputStageUpdate,
+  withOutputQa,
+} from '../../../../../../../../lib/delivery-pipeline';
+import { erpClient, isERPClientError } from '../../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../../lib/errors';
+import { loadOutputQaChecklist, resetOutputQa } from '../../../../../../../../lib/output-qa';
+import { checkRateLimit } from '../../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_TRANSITION_BODY_BYTES = 4 * 1024;
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; stageId: string }> },
+) {
+  const { id: engagementId, stageId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{
+    outputId?: unknown;
+    direction?: unknown;
+  }>(request, { maxBytes: MAX_TRANSITION_BODY_BYTES });
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  const outputId = typeof data?.outputId === 'string' ? data.outputId.trim() : '';
+  if (!/^OUT-[0-9A-Z-]+$/.test(outputId)) {
+    const response = errorResponse(400, 'invalid_output_id', 'Invalid outputId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const direction = data?.direction;
+  if (direction !== 'advance' && direction !== 'regress') {
+    const response = errorResponse(400, 'invalid_payload', 'direction must be advance or regress.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const [project, record] = await Promise.all([
+      erpClient.fetchProjectById(engagementId),
+      erpClient.fetchOutputById(outputId),
+    ]);
+    if (!record) {
+      const response = errorResponse(404, 'output_not_found', 'Output not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (record.project !== engagementId) {
+      const response = errorResponse(403, 'forbidden', 'Engagement mismatch.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const tier = resolveDeliveryTier(project as Record<string, unknown> | null);
+    const { stages } = getDeliveryPipelineTemplate(tier);
+    if (!stages.some((stage) => stage.key === stageId)) {
+      const response = errorResponse(404, 'stage_not_found', 'Stage not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const current = resolveDeliveryStage(stages, record.status);
+    if (current.key !== stageId) {
+      const response = errorResponse(
+        409,
+        'invalid_transition',
+        `Output is in ${current.label}, not ${stageId}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const target = resolveDeliveryTarget(stages, current, direction);
+    if (!target) {
+      const response = errorResponse(
+        409,
+        'invalid_transition',
+        `Cannot ${direction} from ${current.label}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (direction === 'advance' && isReleaseStage(target)) {
+      const checklist = loadOutputQaChecklist(record.name, record.category);
+      if (!checklist.complete) {
+        const response = jsonResponse(
+          {
+            error: 'gateway_error',
+            code: 'qa_incomplete',
+            reason: 'Mandatory QA checklist items are not checked.',
+            missing: checklist.items
+              .filter((item) => item.mandatory && !item.checked)
+              .map((item) => item.key),
+          },
+          { status: 409 },
+        );
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+    }
+
+    const update = toOutputStageUpdate(target, direction);
+    await erpClient.updateOutput(record.name, update);
+    const qaReset = isReleaseRollback(stages, current, target) && resetOutputQa(record.name);
+
+    const item = withOutputQa(
+      toDeliveryPipelineItem(stages, {
+        ...record,
+        ...update,
+        modified: new Date().toISOString(),
+      }),
+    );
+
+    auditSecurity({
+      event: 'delivery_stage_transition',
+      uid,
+      engagementId,
+      outputId: record.name,
+      tier,
+      from: current.key,
+      to: target.key,
+      qaReset,
+    });
+
+    const response = jsonResponse({ engagementId, tier, item });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
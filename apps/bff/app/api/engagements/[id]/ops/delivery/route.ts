@@ -1,15 +1,12 @@
-import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
+import {
+  isReleaseStage,
+  loadDeliveryPipeline,
+  withOutputQa,
+} from '../../../../../../lib/delivery-pipeline';
+import { isERPClientError } from '../../../../../../lib/erp-client';
 import { errorResponse } from '../../../../../../lib/errors';
 import { jsonResponse } from '../../../../../../lib/response';
 
-type PipelineStage = {
-  id: string;
-  label: string;
-  status: 'complete' | 'in_progress' | 'pending';
-  owner: 'client' | 'operator';
-  updatedAt: string;
-};
-
 const parseScope = (scopeHeader: string | null) => {
   if (!scopeHeader) return { all: false, ids: [] as string[] };
   const normalized = scopeHeader.trim();
@@ -25,14 +22,6 @@ const parseScope = (scopeHeader: string | null) => {
   };
 };
 
-const mapStatus = (value?: string): PipelineStage['status'] => {
-  if (!value) return 'pending';
-  const normalized = value.toLowerCase();
-  if (normalized.includes('accepted') || normalized.includes('delivered')) return 'complete';
-  if (normalized.includes('in_progress') || normalized.includes('progress')) return 'in_progress';
-  return 'pending';
-};
-
 export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id: engagementId } = await params;
   const headers = request.headers;
@@ -44,37 +33,23 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
   }
 
   try {
-    const outputs = (await erpClient.fetchOutputsByProject(engagementId)) ?? [];
-    const stages: PipelineStage[] =
-      outputs.length > 0
-        ? outputs.map((entry, index) => ({
-            id: entry.name,
-            label: entry.title ?? `Deliverable ${index + 1}`,
-            status: mapStatus(entry.status),
-            owner: index % 2 === 0 ? 'operator' : 'client',
-            updatedAt: entry.modified ?? new Date().toISOString(),
-          }))
-        : [
-            {
-              id: 'planning',
-              label: 'Delivery planning',
-              status: 'in_progress',
-              owner: 'operator',
-              updatedAt: new Date().toISOString(),
-            },
-            {
-              id: 'handover',
-              label: 'Client handover',
-              status: 'pending',
-              owner: 'client',
-              updatedAt: new Date().toISOString(),
-            },
-          ];
+    const { tier, template, items } = await loadDeliveryPipeline(engagementId);
 
     return jsonResponse({
       engagementId,
-      stages,
-      note: 'Statuses reflect deliverables from ERP when wired, otherwise the default pipeline is in flight.',
+      tier,
+      stages: template.stages.map((stage) => ({
+        id: stage.key,
+        label: stage.label,
+        owner: stage.owner,
+        clientDecision: Boolean(stage.clientDecision),
+        requiresQa: isReleaseStage(stage),
+      })),
+      items:
+        role === 'OPERATOR'
+          ? items.map(withOutputQa)
+          : items.map((item) => ({ ...item, canAdvance: false, canRegress: false })),
+      note: `Stages follow the ${tier} delivery template; deliverables are placed by their ERP status.`,
     });
   } catch (error) {
     if (isERPClientError(error)) {
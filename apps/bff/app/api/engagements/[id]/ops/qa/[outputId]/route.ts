@@ -0,0 +1,145 @@
+import { auditSecurity } from '../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import {
+  getQaChecklistDefinition,
+  loadOutputQaChecklist,
+  setOutputQaItem,
+} from '../../../../../../../lib/output-qa';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_QA_BODY_BYTES = 4 * 1024;
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const loadOutputRecord = async (engagementId: string, outputId: string) => {
+  if (!/^OUT-[0-9A-Z-]+$/.test(outputId)) {
+    return { record: null, error: errorResponse(400, 'invalid_output_id', 'Invalid outputId.') };
+  }
+  const record = await erpClient.fetchOutputById(outputId);
+  if (!record) {
+    return { record: null, error: errorResponse(404, 'output_not_found', 'Output not found.') };
+  }
+  if (record.project !== engagementId) {
+    return { record: null, error: errorResponse(403, 'forbidden', 'Engagement mismatch.') };
+  }
+  return { record, error: null };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; outputId: string }> },
+) {
+  const { id: engagementId, outputId } = await params;
+  const role = request.headers.get('x-lucien-role');
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  try {
+    const { record, error } = await loadOutputRecord(engagementId, outputId);
+    if (!record) return error;
+
+    return jsonResponse({
+      engagementId,
+      checklist: loadOutputQaChecklist(record.name, record.category),
+    });
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; outputId: string }> },
+) {
+  const { id: engagementId, outputId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{ item?: unknown; checked?: unknown }>(
+    request,
+    { maxBytes: MAX_QA_BODY_BYTES },
+  );
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  if (typeof data?.item !== 'string' || typeof data.checked !== 'boolean') {
+    const response = errorResponse(400, 'invalid_payload', 'item and checked are required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const { record, error } = await loadOutputRecord(engagementId, outputId);
+    if (!record) return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+
+    const itemKey = data.item;
+    if (!getQaChecklistDefinition(record.category).some((item) => item.key === itemKey)) {
+      const response = errorResponse(400, 'invalid_payload', 'Unknown checklist item.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    setOutputQaItem({
+      engagementId,
+      outputId: record.name,
+      itemKey,
+      checked: data.checked,
+      uid,
+    });
+
+    auditSecurity({
+      event: 'output_qa_check',
+      uid,
+      engagementId,
+      outputId: record.name,
+      item: itemKey,
+      checked: data.checked,
+    });
+
+    const response = jsonResponse({
+      engagementId,
+      checklist: loadOutputQaChecklist(record.name, record.category),
+    });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,182 @@
+import { auditSecurity } from '../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import {
+  toClientRequestCreate,
+  toOpsRequestItem,
+} from '../../../../../../../lib/intel-request-builder';
+import {
+  parseIntelImportManifest,
+  validateIntelImportRows,
+} from '../../../../../../../lib/intel-request-import';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseTextBody } from '../../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../../lib/response';
+
+import type { ClientRequestRecord } from '../../../../../../../lib/erp-client';
+import type { IntelImportFormat } from '../../../../../../../lib/intel-request-import';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_IMPORT_BODY_BYTES = 256 * 1024;
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const resolveFormat = (contentType: string): IntelImportFormat | null => {
+  const normalized = contentType.toLowerCase();
+  if (normalized.includes('application/json')) return 'json';
+  if (normalized.includes('text/csv') || normalized.includes('application/csv')) return 'csv';
+  return null;
+};
+
+const rollbackCreated = async (created: ClientRequestRecord[]) => {
+  const failed: string[] = [];
+  for (const record of [...created].reverse()) {
+    try {
+      await erpClient.deleteClientRequest(record.name);
+    } catch {
+      failed.push(record.name);
+    }
+  }
+  return failed;
+};
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const format = resolveFormat(headers.get('content-type') ?? '');
+  if (!format) {
+    const response = errorResponse(
+      415,
+      'unsupported_media_type',
+      'Expected text/csv or application/json.',
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error } = await parseTextBody(request, { maxBytes: MAX_IMPORT_BODY_BYTES });
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  const manifest = parseIntelImportManifest(data ?? '', format);
+  if (manifest.error) {
+    const response = errorResponse(400, 'invalid_manifest', manifest.error);
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const dryRun = new URL(request.url).searchParams.get('dryRun') === '1';
+  const rows = validateIntelImportRows(manifest.rows);
+  const results = rows.map((row) => row.result);
+  const valid = results.every((row) => !row.errors.length);
+
+  if (dryRun) {
+    const response = jsonResponse({ engagementId, dryRun, valid, rows: results });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!valid) {
+    const response = jsonResponse(
+      {
+        error: 'gateway_error',
+        code: 'invalid_rows',
+        reason: 'Manifest rows failed validation; nothing was created.',
+        rows: results,
+      },
+      { status: 400 },
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const project = await erpClient.fetchProjectById(engagementId);
+    if (!project) {
+      const response = errorResponse(404, 'engagement_not_found', 'Engagement not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+
+  const created: ClientRequestRecord[] = [];
+  for (const row of rows) {
+    if (!row.draft) continue;
+    try {
+      created.push(
+        await erpClient.createClientRequest(toClientRequestCreate(engagementId, row.draft)),
+      );
+    } catch (error) {
+      const rollbackFailed = await rollbackCreated(created);
+
+      auditSecurity({
+        event: 'intel_request_import_rolled_back',
+        uid,
+        engagementId,
+        format,
+        failedRow: row.result.row,
+        rolledBack: created.length - rollbackFailed.length,
+        rollbackFailed,
+      });
+
+      if (!isERPClientError(error)) throw error;
+
+      const response = jsonResponse(
+        {
+          error: 'gateway_error',
+          code: 'import_failed',
+          reason: `ERP rejected row ${row.result.row}; created requests were rolled back.`,
+          row: row.result.row,
+          rollbackFailed,
+        },
+        { status: 502 },
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+  }
+
+  auditSecurity({
+    event: 'intel_requests_imported',
+    uid,
+    engagementId,
+    format,
+    count: created.length,
+    requestIds: created.map((record) => record.name),
+  });
+
+  const response = jsonResponse(
+    { engagementId, dryRun, valid, rows: results, items: created.map(toOpsRequestItem) },
+    { status: 201 },
+  );
+  return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+}
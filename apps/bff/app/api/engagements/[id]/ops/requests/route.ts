@@ -1,7 +1,21 @@
+import { auditSecurity } from '../../../../../../lib/audit';
 import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
 import { errorResponse } from '../../../../../../lib/errors';
+import {
+  toClientRequestCreate,
+  toOpsRequestItem,
+  validateIntelRequestDraft,
+} from '../../../../../../lib/intel-request-builder';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../lib/request';
 import { jsonResponse } from '../../../../../../lib/response';
 
+import type { IntelRequestDraftInput } from '../../../../../../lib/intel-request-builder';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_REQUEST_BODY_BYTES = 16 * 1024;
+
 const parseScope = (scopeHeader: string | null) => {
   if (!scopeHeader) return { all: false, ids: [] as string[] };
   const normalized = scopeHeader.trim();
@@ -17,6 +31,16 @@ const parseScope = (scopeHeader: string | null) => {
   };
 };
 
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
 export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id: engagementId } = await params;
   const headers = request.headers;
@@ -29,14 +53,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
 
   try {
     const requests = await erpClient.fetchClientRequestsByProject(engagementId);
-    const items = requests.map((entry) => ({
-      id: entry.name,
-      title: entry.title,
-      status: entry.status,
-      required: entry.required,
-      visibility: entry.visibility ?? 'operator_only',
-      assignedTo: entry.required ? 'Ops Team' : 'Client',
-    }));
+    const items = requests.map(toOpsRequestItem);
 
     return jsonResponse({
       engagementId,
@@ -49,3 +66,77 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
     throw error;
   }
 }
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error } = await parseJsonBody<IntelRequestDraftInput>(request, {
+    maxBytes: MAX_REQUEST_BODY_BYTES,
+  });
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  const { draft, errors } = validateIntelRequestDraft(data ?? {});
+  if (!draft) {
+    const [first] = errors;
+    const response =
+      first.code === 'template_not_found'
+        ? errorResponse(404, 'template_not_found', 'Template not found.')
+        : first.field === 'description' && first.code === 'too_long'
+          ? errorResponse(413, 'payload_too_large', first.reason)
+          : errorResponse(400, 'invalid_payload', first.reason);
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const project = await erpClient.fetchProjectById(engagementId);
+    if (!project) {
+      const response = errorResponse(404, 'engagement_not_found', 'Engagement not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const created = await erpClient.createClientRequest(toClientRequestCreate(engagementId, draft));
+
+    auditSecurity({
+      event: 'intel_request_created',
+      uid,
+      engagementId,
+      requestId: created.name,
+      templateKey: draft.template.key,
+      templateVersion: draft.template.version,
+      visibility: draft.visibility,
+    });
+
+    const response = jsonResponse(
+      { engagementId, item: toOpsRequestItem(created) },
+      { status: 201 },
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,161 @@
+import { auditSecurity } from '../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import { resetOutputQa } from '../../../../../../../lib/output-qa';
+import {
+  isOutputDecisionKind,
+  MAX_DECISION_REASON_LENGTH,
+  notifyOutputDecision,
+  loadOutputItems,
+  mapOutputStatus,
+  toOutputDecisionUpdate,
+} from '../../../../../../../lib/outputs';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_DECISION_BODY_BYTES = 8 * 1024;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; outputId: string }> },
+) {
+  const { id: engagementId, outputId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role !== 'CLIENT') {
+    const response = errorResponse(403, 'forbidden', 'Client role required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!/^OUT-[0-9A-Z-]+$/.test(outputId)) {
+    const response = errorResponse(400, 'invalid_output_id', 'Invalid outputId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{ decision?: unknown; reason?: unknown }>(
+    request,
+    { maxBytes: MAX_DECISION_BODY_BYTES },
+  );
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  const decision = data?.decision;
+  if (!isOutputDecisionKind(decision)) {
+    const response = errorResponse(400, 'invalid_payload', 'decision must be accept or reject.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const reason = typeof data?.reason === 'string' ? data.reason.trim() : '';
+  if (decision === 'reject' && !reason) {
+    const response = errorResponse(400, 'invalid_payload', 'reason required to reject.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (reason.length > MAX_DECISION_REASON_LENGTH) {
+    const response = errorResponse(413, 'payload_too_large', 'reason too long.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const record = await erpClient.fetchOutputById(outputId);
+    if (!record) {
+      const response = errorResponse(404, 'output_not_found', 'Output not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (record.project !== engagementId) {
+      const response = errorResponse(403, 'forbidden', 'Engagement mismatch.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const status = mapOutputStatus(record.status);
+    if (status !== 'delivered') {
+      const response = errorResponse(
+        409,
+        'invalid_transition',
+        `Cannot decide on an output that is ${status}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const update = toOutputDecisionUpdate(decision, reason || null, uid, new Date());
+    await erpClient.updateOutput(record.name, update);
+    const qaReset = decision === 'reject' && resetOutputQa(record.name);
+
+    const [output] = await loadOutputItems(engagementId, [
+      { ...record, ...update, modified: update.lucien_decided_at },
+    ]);
+
+    auditSecurity({
+      event: 'output_decision',
+      uid,
+      engagementId,
+      outputId: record.name,
+      decision: update.lucien_decision,
+      reason: reason || null,
+      qaReset,
+    });
+
+    if (output.decision) {
+      await notifyOutputDecision({ engagementId, output, decision: output.decision });
+    }
+
+    const response = jsonResponse({ engagementId, output });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
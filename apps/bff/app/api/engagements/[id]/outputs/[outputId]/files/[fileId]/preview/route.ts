@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server';
+
+import { auditSecurity } from '../../../../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../../../lib/errors';
+import {
+  applyPreviewWatermark,
+  findOutputAttachment,
+  MAX_PREVIEW_BYTES,
+  previewWatermark,
+  resolvePreviewType,
+} from '../../../../../../../../../lib/output-preview';
+import { isOutputReleasedToClient, loadOutputItems } from '../../../../../../../../../lib/outputs';
+import { checkRateLimit } from '../../../../../../../../../lib/redis';
+import { mergeSecurityHeaders } from '../../../../../../../../../lib/response';
+
+const RATE_LIMIT = 120;
+const RATE_WINDOW_SECONDS = 60;
+const FILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,140}$/;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const inlineDisposition = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; outputId: string; fileId: string }> },
+) {
+  const { id: engagementId, outputId, fileId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rate = await checkRateLimit(
+    `lucien:rl:downloads:uid:${uid}`,
+    RATE_LIMIT,
+    RATE_WINDOW_SECONDS,
+  );
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many downloads.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (!/^OUT-[0-9A-Z-]+$/.test(outputId) || !FILE_ID_PATTERN.test(fileId)) {
+    const response = errorResponse(400, 'invalid_file_id', 'Invalid outputId or fileId.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const record = await erpClient.fetchOutputById(outputId);
+    if (!record || record.project !== engagementId) {
+      const response = errorResponse(404, 'output_not_found', 'Output not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const [output] = await loadOutputItems(engagementId, [record], role);
+    if (role === 'CLIENT' && !isOutputReleasedToClient(output.status)) {
+      const response = errorResponse(403, 'forbidden', 'Output not released.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const attachment = findOutputAttachment(output, fileId);
+    const file = attachment ? await erpClient.fetchFileById(attachment.id) : null;
+    if (!attachment || !file) {
+      const response = errorResponse(404, 'file_not_found', 'File not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const previewType = resolvePreviewType(file.file_name);
+    if (!previewType) {
+      const response = errorResponse(415, 'preview_unsupported', 'File type cannot be previewed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const upstream = await erpClient.downloadFile(file);
+    const contentLength = upstream.headers.get('content-length');
+    if (Number(contentLength ?? attachment.size ?? 0) > MAX_PREVIEW_BYTES) {
+      await upstream.body?.cancel();
+      const response = errorResponse(413, 'preview_too_large', 'File too large to preview.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const watermark = previewWatermark(output, uid, new Date());
+    let body: BodyInit | null = upstream.body;
+    let contentType = previewType.contentType;
+    let bodyLength = contentLength;
+    if (watermark) {
+      const stamped = await applyPreviewWatermark(
+        previewType,
+        new Uint8Array(await upstream.arrayBuffer()),
+        watermark,
+      );
+      if (!stamped) {
+        const response = errorResponse(
+          415,
+          'watermark_unsupported',
+          'File cannot be watermarked for preview.',
+        );
+        return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+      }
+      body = stamped.body;
+      contentType = stamped.contentType;
+      bodyLength = String(stamped.body.byteLength);
+    }
+
+    auditSecurity({
+      event: 'output_preview',
+      uid,
+      engagementId,
+      outputId: record.name,
+      fileId: file.name,
+      watermarked: Boolean(watermark),
+    });
+
+    const responseHeaders = mergeSecurityHeaders({
+      'Content-Type': contentType,
+      'Content-Disposition': inlineDisposition(file.file_name),
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+      'X-Lucien-Preview-Kind': previewType.kind,
+    });
+    if (bodyLength) {
+      responseHeaders.set('Content-Length', bodyLength);
+    }
+    if (watermark) {
+      responseHeaders.set('X-Lucien-Watermark', watermark);
+    }
+
+    const response = new NextResponse(body, { headers: responseHeaders });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
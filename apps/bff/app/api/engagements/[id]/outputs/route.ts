@@ -1,5 +1,6 @@
 import { erpClient, isERPClientError } from '../../../../../lib/erp-client';
 import { errorResponse } from '../../../../../lib/errors';
+import { loadOutputItems } from '../../../../../lib/outputs';
 import { jsonResponse } from '../../../../../lib/response';
 
 const parseScope = (scopeHeader: string | null) => {
@@ -17,27 +18,6 @@ const parseScope = (scopeHeader: string | null) => {
   };
 };
 
-type OutputStatus = 'pending' | 'in_progress' | 'delivered' | 'accepted';
-
-type OutputItem = {
-  id: string;
-  title: string;
-  category: string;
-  status: OutputStatus;
-  updatedAt: string | null;
-  attachments: Array<{ id: string; name: string; size?: number }>;
-};
-
-const normalize = (value?: string | null) => (value ?? '').trim().toLowerCase();
-
-const mapStatus = (value?: string | null): OutputStatus => {
-  const text = normalize(value);
-  if (text.includes('accepted')) return 'accepted';
-  if (text.includes('delivered') || text.includes('complete')) return 'delivered';
-  if (text.includes('progress') || text.includes('working')) return 'in_progress';
-  return 'pending';
-};
-
 const toTimestamp = (value?: string | null) => {
   if (!value) return 0;
   const date = new Date(value);
@@ -65,14 +45,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
       });
     }
 
-    const items: OutputItem[] = records.map((record) => ({
-      id: record.name,
-      title: record.title ?? record.name,
-      category: record.category ?? 'output',
-      status: mapStatus(record.status),
-      updatedAt: record.modified ?? null,
-      attachments: [],
-    }));
+    const items = await loadOutputItems(engagementId, records, role);
 
     items.sort((a, b) => {
       const dateDiff = toTimestamp(b.updatedAt) - toTimestamp(a.updatedAt);
@@ -0,0 +1,137 @@
+import { auditSecurity } from '../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../lib/errors';
+import {
+  diffProtocolSnapshots,
+  getProtocolBaseline,
+  getProtocolSnapshot,
+  loadCurrentProtocol,
+  setProtocolBaseline,
+} from '../../../../../../lib/protocol-history';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_BODY_BYTES = 1024;
+
+type BaselineRequest = {
+  snapshotId?: unknown;
+};
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    return errorResponse(403, 'forbidden', 'Engagement access denied.');
+  }
+
+  try {
+    const project = await erpClient.fetchProjectById(engagementId);
+    if (!project) {
+      return errorResponse(404, 'project_not_found', 'Engagement not found.');
+    }
+
+    const { current } = await loadCurrentProtocol(engagementId);
+    const snapshotId = new URL(request.url).searchParams.get('snapshotId');
+    const reference = snapshotId
+      ? getProtocolSnapshot(engagementId, snapshotId)
+      : getProtocolBaseline(engagementId);
+    if (snapshotId && !reference) {
+      return errorResponse(404, 'snapshot_not_found', 'Snapshot not found.');
+    }
+
+    return jsonResponse(diffProtocolSnapshots(engagementId, reference, current));
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rate = await checkRateLimit(
+    `lucien:rl:mutation:uid:${uid}`,
+    RATE_LIMIT,
+    RATE_WINDOW_SECONDS,
+  );
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role !== 'OPERATOR') {
+    const response = errorResponse(403, 'forbidden', 'Operator role required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error } = await parseJsonBody<BaselineRequest>(request, {
+    maxBytes: MAX_BODY_BYTES,
+  });
+  if (error) {
+    return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+  }
+
+  const snapshotId = typeof data?.snapshotId === 'string' ? data.snapshotId.trim() : '';
+  if (!snapshotId) {
+    const response = errorResponse(400, 'invalid_payload', 'snapshotId is required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const previous = getProtocolBaseline(engagementId);
+  const baseline = setProtocolBaseline(engagementId, snapshotId, uid);
+  if (!baseline) {
+    const response = errorResponse(404, 'snapshot_not_found', 'Snapshot not found.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  auditSecurity({
+    event: 'protocol_baseline_set',
+    uid,
+    engagementId,
+    snapshotId,
+    previousSnapshotId: previous?.id ?? null,
+  });
+
+  const response = jsonResponse({ engagementId, baseline });
+  return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+}
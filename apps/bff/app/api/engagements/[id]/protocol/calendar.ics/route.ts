@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+
+import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../lib/errors';
+import {
+  buildProtocolCalendar,
+  resolveProtocolCalendarToken,
+} from '../../../../../../lib/protocol-calendar';
+import { loadCurrentProtocol } from '../../../../../../lib/protocol-history';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { mergeSecurityHeaders } from '../../../../../../lib/response';
+
+const RATE_LIMIT = 60;
+const RATE_WINDOW_SECONDS = 60;
+const PORTAL_BASE_URL =
+  process.env.PORTAL_BASE_URL?.trim() || process.env.INVITE_BASE_URL?.trim() || null;
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (!token || !/^[A-Za-z0-9_-]{16,64}$/.test(token)) {
+    return errorResponse(403, 'invalid_token', 'Calendar token required.');
+  }
+
+  const rate = await checkRateLimit(
+    `lucien:rl:calendar:token:${token.slice(0, 12)}`,
+    RATE_LIMIT,
+    RATE_WINDOW_SECONDS,
+  );
+  if (rate.count > RATE_LIMIT) {
+    return errorResponse(429, 'rate_limited', 'Too many requests.');
+  }
+
+  const user = resolveProtocolCalendarToken(token, engagementId);
+  if (!user) {
+    return errorResponse(403, 'invalid_token', 'Calendar token invalid or revoked.');
+  }
+
+  try {
+    const project = await erpClient.fetchProjectById(engagementId);
+    if (!project) {
+      return errorResponse(404, 'project_not_found', 'Engagement not found.');
+    }
+
+    const { protocol } = await loadCurrentProtocol(engagementId);
+    const calendar = buildProtocolCalendar(protocol, {
+      projectName: project.project_name ?? engagementId,
+      portalUrl: PORTAL_BASE_URL,
+    });
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: mergeSecurityHeaders({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${engagementId}-protocol.ics"`,
+      }),
+    });
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
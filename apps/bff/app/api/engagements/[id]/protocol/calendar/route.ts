@@ -0,0 +1,89 @@
+import { auditSecurity } from '../../../../../../lib/audit';
+import { errorResponse } from '../../../../../../lib/errors';
+import {
+  issueProtocolCalendarToken,
+  revokeProtocolCalendarTokens,
+} from '../../../../../../lib/protocol-calendar';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { jsonResponse } from '../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const authorize = async (request: Request, engagementId: string) => {
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return { uid: null, error: errorResponse(403, 'forbidden', 'Missing session context.') };
+  }
+
+  const rate = await checkRateLimit(
+    `lucien:rl:mutation:uid:${uid}`,
+    RATE_LIMIT,
+    RATE_WINDOW_SECONDS,
+  );
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return { uid: null, error: withRateHeaders(response, RATE_LIMIT, rate.remaining) };
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return { uid: null, error: withRateHeaders(response, RATE_LIMIT, rate.remaining) };
+  }
+
+  return { uid, error: null, remaining: rate.remaining };
+};
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const { uid, error, remaining } = await authorize(request, engagementId);
+  if (error) return error;
+
+  const token = issueProtocolCalendarToken(uid, engagementId);
+  auditSecurity({ event: 'protocol_calendar_token_issued', uid, engagementId });
+
+  const feedUrl = `/api/engagements/${encodeURIComponent(engagementId)}/protocol/calendar.ics?${new URLSearchParams({ token })}`;
+  const response = jsonResponse({ engagementId, feedUrl }, { status: 201 });
+  return withRateHeaders(response, RATE_LIMIT, remaining ?? 0);
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const { uid, error, remaining } = await authorize(request, engagementId);
+  if (error) return error;
+
+  revokeProtocolCalendarTokens(uid, engagementId);
+  auditSecurity({ event: 'protocol_calendar_token_revoked', uid, engagementId });
+
+  const response = jsonResponse({ engagementId, revoked: true });
+  return withRateHeaders(response, RATE_LIMIT, remaining ?? 0);
+}
@@ -0,0 +1,126 @@
+import { auditSecurity } from '../../../../../../lib/audit';
+import { erpClient, isERPClientError } from '../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../lib/errors';
+import {
+  listProtocolSnapshots,
+  loadCurrentProtocol,
+  MAX_HISTORY_ITEMS,
+  recordProtocolSnapshot,
+} from '../../../../../../lib/protocol-history';
+import { checkRateLimit } from '../../../../../../lib/redis';
+import { jsonResponse } from '../../../../../../lib/response';
+
+const DEFAULT_LIMIT = 20;
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const parseLimit = (value: string | null) => {
+  if (!value) return DEFAULT_LIMIT;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 1) return DEFAULT_LIMIT;
+  return Math.min(parsed, MAX_HISTORY_ITEMS);
+};
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    return errorResponse(403, 'forbidden', 'Engagement access denied.');
+  }
+
+  try {
+    const project = await erpClient.fetchProjectById(engagementId);
+    if (!project) {
+      return errorResponse(404, 'project_not_found', 'Engagement not found.');
+    }
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+
+  const limit = parseLimit(new URL(request.url).searchParams.get('limit'));
+  return jsonResponse({ engagementId, items: listProtocolSnapshots(engagementId, limit) });
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: engagementId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rate = await checkRateLimit(
+    `lucien:rl:mutation:uid:${uid}`,
+    RATE_LIMIT,
+    RATE_WINDOW_SECONDS,
+  );
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role !== 'OPERATOR') {
+    const response = errorResponse(403, 'forbidden', 'Operator role required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const project = await erpClient.fetchProjectById(engagementId);
+    if (!project) {
+      const response = errorResponse(404, 'project_not_found', 'Engagement not found.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const { protocol } = await loadCurrentProtocol(engagementId);
+    const snapshot = recordProtocolSnapshot(protocol);
+
+    auditSecurity({
+      event: 'protocol_snapshot_recorded',
+      uid,
+      engagementId,
+      snapshotId: snapshot.id,
+    });
+
+    const response = jsonResponse({ engagementId, snapshot });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
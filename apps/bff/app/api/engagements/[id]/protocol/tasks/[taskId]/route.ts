@@ -0,0 +1,248 @@
+import { auditSecurity } from '../../../../../../../lib/audit';
+import { erpClient, isERPClientError, type TaskRecord } from '../../../../../../../lib/erp-client';
+import { errorResponse } from '../../../../../../../lib/errors';
+import { toProtocolTask } from '../../../../../../../lib/protocol';
+import {
+  loadCurrentProtocol,
+  recordProtocolSnapshot,
+} from '../../../../../../../lib/protocol-history';
+import {
+  MAX_BLOCKED_REASON_LENGTH,
+  canActOnProtocolTask,
+  canTransitionProtocolTask,
+  isProtocolTaskOverride,
+  isProtocolTaskTargetStatus,
+  listProtocolTaskTransitions,
+  recordProtocolTaskTransition,
+  toTaskUpdate,
+} from '../../../../../../../lib/protocol-tasks';
+import { checkRateLimit } from '../../../../../../../lib/redis';
+import { parseJsonBody } from '../../../../../../../lib/request';
+import { jsonResponse } from '../../../../../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_TASK_BODY_BYTES = 8 * 1024;
+
+const parseScope = (scopeHeader: string | null) => {
+  if (!scopeHeader) return { all: false, ids: [] as string[] };
+  const normalized = scopeHeader.trim();
+  if (normalized.toUpperCase() === 'ALL') {
+    return { all: true, ids: [] as string[] };
+  }
+  return {
+    all: false,
+    ids: normalized
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+};
+
+const withRateHeaders = (
+  response: import('next/server').NextResponse,
+  limit: number,
+  remaining: number,
+): import('next/server').NextResponse => {
+  response.headers.set('X-RateLimit-Limit', limit.toString());
+  response.headers.set('X-RateLimit-Remaining', remaining.toString());
+  return response;
+};
+
+const loadTask = async (
+  engagementId: string,
+  taskId: string,
+): Promise<
+  { error: ReturnType<typeof errorResponse>; record: null } | { error: null; record: TaskRecord }
+> => {
+  if (!/^TASK-[0-9A-Z-]+$/.test(taskId)) {
+    return { error: errorResponse(400, 'invalid_task_id', 'Invalid taskId.'), record: null };
+  }
+
+  const record = await erpClient.fetchTaskById(taskId);
+  if (!record) {
+    return { error: errorResponse(404, 'task_not_found', 'Task not found.'), record: null };
+  }
+
+  if (record.project !== engagementId) {
+    return { error: errorResponse(403, 'forbidden', 'Engagement mismatch.'), record: null };
+  }
+
+  return { error: null, record };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; taskId: string }> },
+) {
+  const { id: engagementId, taskId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    return errorResponse(403, 'forbidden', 'Engagement access denied.');
+  }
+
+  try {
+    const { error, record } = await loadTask(engagementId, taskId);
+    if (error) return error;
+
+    return jsonResponse({
+      engagementId,
+      task: toProtocolTask(record, new Date()),
+      transitions: listProtocolTaskTransitions(record.name),
+    });
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; taskId: string }> },
+) {
+  const { id: engagementId, taskId } = await params;
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+  const scope = parseScope(headers.get('x-lucien-scope'));
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+
+  if (rate.count > RATE_LIMIT) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (role === 'CLIENT' && !scope.all && !scope.ids.includes(engagementId)) {
+    const response = errorResponse(403, 'forbidden', 'Engagement access denied.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const { data, error: bodyError } = await parseJsonBody<{
+    status?: unknown;
+    reason?: unknown;
+    override?: unknown;
+  }>(request, { maxBytes: MAX_TASK_BODY_BYTES });
+  if (bodyError) {
+    return withRateHeaders(bodyError, RATE_LIMIT, rate.remaining);
+  }
+
+  const status = data?.status;
+  if (!isProtocolTaskTargetStatus(status)) {
+    const response = errorResponse(
+      400,
+      'invalid_payload',
+      'status must be in_progress, blocked or complete.',
+    );
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const reason = typeof data?.reason === 'string' ? data.reason.trim() : '';
+  if (status === 'blocked' && !reason) {
+    const response = errorResponse(400, 'invalid_payload', 'reason required to block a task.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  const override = data?.override === true;
+  if (override && role !== 'OPERATOR') {
+    const response = errorResponse(403, 'forbidden', 'Operator role required.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (override && !reason) {
+    const response = errorResponse(400, 'invalid_payload', 'reason required to override.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  if (reason.length > MAX_BLOCKED_REASON_LENGTH) {
+    const response = errorResponse(413, 'payload_too_large', 'reason too long.');
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  }
+
+  try {
+    const { error, record } = await loadTask(engagementId, taskId);
+    if (error) {
+      return withRateHeaders(error, RATE_LIMIT, rate.remaining);
+    }
+
+    const at = new Date();
+    const task = toProtocolTask(record, at);
+    if (!canActOnProtocolTask(task, role, override)) {
+      const response = errorResponse(403, 'forbidden', 'Task owned by the other party.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    if (!canTransitionProtocolTask(task.status, status, role)) {
+      const response = errorResponse(
+        409,
+        'invalid_transition',
+        `Cannot move task from ${task.status} to ${status}.`,
+      );
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+
+    const overridden = override && isProtocolTaskOverride(task, role);
+    const update = toTaskUpdate(record, status, status === 'blocked' ? reason : null, at);
+    await erpClient.updateTask(record.name, update);
+
+    const transition = recordProtocolTaskTransition({
+      engagementId,
+      taskId: record.name,
+      from: task.status,
+      to: status,
+      reason: reason || null,
+      actorId: uid,
+      actorRole: role === 'OPERATOR' ? 'OPERATOR' : 'CLIENT',
+      override: overridden,
+    });
+
+    auditSecurity({
+      event: 'protocol_task_transition',
+      uid,
+      engagementId,
+      taskId: record.name,
+      from: task.status,
+      to: status,
+      reason: reason || null,
+      override: overridden,
+    });
+
+    if (overridden) {
+      auditSecurity({
+        event: 'protocol_task_override',
+        uid,
+        engagementId,
+        taskId: record.name,
+        owner: task.owner,
+        to: status,
+        reason,
+      });
+    }
+
+    const { protocol } = await loadCurrentProtocol(engagementId);
+    recordProtocolSnapshot(protocol);
+
+    const response = jsonResponse({
+      engagementId,
+      task: toProtocolTask({ ...record, ...update }, at),
+      transition,
+    });
+    return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      const response = errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+      return withRateHeaders(response, RATE_LIMIT, rate.remaining);
+    }
+    throw error;
+  }
+}
@@ -1,3 +1,4 @@
+import { mapContractStatus, mapContractType } from '../../../../../lib/contracts';
 import { erpClient, getDataMode, isERPClientError } from '../../../../../lib/erp-client';
 import { errorResponse } from '../../../../../lib/errors';
 import { jsonResponse } from '../../../../../lib/response';
@@ -133,33 +134,6 @@ const resolveTier = (project: Record<string, unknown>): EngagementTier | null =>
   return null;
 };
 
-const normalize = (value?: string | null) => (value ?? '').trim().toLowerCase();
-
-const mapContractType = (
-  value?: string | null,
-): 'nda' | 'msa' | 'sow' | 'dpa' | 'change_requests' | null => {
-  const text = normalize(value);
-  if (!text) return null;
-  if (text.includes('nda')) return 'nda';
-  if (text.includes('msa')) return 'msa';
-  if (text.includes('sow') || text.includes('annex')) return 'sow';
-  if (text.includes('dpa')) return 'dpa';
-  if (text.includes('change')) return 'change_requests';
-  return null;
-};
-
-const mapContractStatus = (value?: string | null): 'signed' | 'pending' | 'action' => {
-  const text = normalize(value);
-  if (!text) return 'pending';
-  if (text.includes('signed') || text.includes('executed') || text.includes('active')) {
-    return 'signed';
-  }
-  if (text.includes('action') || text.includes('required')) {
-    return 'action';
-  }
-  return 'pending';
-};
-
 const readModuleOverrides = (project: Record<string, unknown>) => {
   const raw = project.lucien_modules;
   if (!raw || typeof raw !== 'object') return {};
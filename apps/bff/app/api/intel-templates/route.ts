@@ -0,0 +1,93 @@
+import { isIntelTemplateListDTO, isIntelTemplateVersionDTO } from '@lucien/contracts';
+
+import { auditSecurity } from '../../../lib/audit';
+import { errorResponse } from '../../../lib/errors';
+import { validateIntelTemplateDefinition } from '../../../lib/intel-template-schema';
+import {
+  createIntelTemplateVersion,
+  getIntelTemplate,
+  isSameIntelTemplate,
+  listIntelTemplateVersions,
+  listLatestIntelTemplates,
+} from '../../../lib/intel-template-store';
+import { checkRateLimit } from '../../../lib/redis';
+import { parseJsonBody } from '../../../lib/request';
+import { contractResponse, jsonResponse } from '../../../lib/response';
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_TEMPLATE_BODY_BYTES = 128 * 1024;
+
+export async function GET(request: Request) {
+  const role = request.headers.get('x-lucien-role');
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const key = new URL(request.url).searchParams.get('key')?.trim();
+  if (!key) {
+    return contractResponse({ items: listLatestIntelTemplates() }, isIntelTemplateListDTO);
+  }
+
+  const items = listIntelTemplateVersions(key);
+  if (!items.length) {
+    return errorResponse(404, 'template_not_found', 'Template not found.');
+  }
+
+  return contractResponse({ items }, isIntelTemplateListDTO);
+}
+
+export async function POST(request: Request) {
+  const headers = request.headers;
+  const role = headers.get('x-lucien-role');
+  const uid = headers.get('x-lucien-uid');
+
+  if (!uid) {
+    return errorResponse(403, 'forbidden', 'Missing session context.');
+  }
+
+  if (role !== 'OPERATOR') {
+    return errorResponse(403, 'forbidden', 'Operator role required.');
+  }
+
+  const rateKey = `lucien:rl:mutation:uid:${uid}`;
+  const rate = await checkRateLimit(rateKey, RATE_LIMIT, RATE_WINDOW_SECONDS);
+  if (rate.count > RATE_LIMIT) {
+    return errorResponse(429, 'rate_limited', 'Too many mutation requests.');
+  }
+
+  const { data, error } = await parseJsonBody<unknown>(request, {
+    maxBytes: MAX_TEMPLATE_BODY_BYTES,
+  });
+  if (error) return error;
+
+  const { definition, errors } = validateIntelTemplateDefinition(data);
+  if (!definition) {
+    return jsonResponse(
+      {
+        error: 'gateway_error',
+        code: 'invalid_template',
+        reason: 'Template definition failed schema validation.',
+        errors,
+      },
+      { status: 400 },
+    );
+  }
+
+  const latest = getIntelTemplate(definition.key);
+  if (latest && isSameIntelTemplate(latest, definition)) {
+    return errorResponse(409, 'template_unchanged', `Matches version ${latest.version}.`);
+  }
+
+  const template = createIntelTemplateVersion(definition, uid);
+
+  auditSecurity({
+    event: 'intel_template_version',
+    uid,
+    key: template.key,
+    version: template.version,
+  });
+
+  return contractResponse(template, isIntelTemplateVersionDTO, { status: 201 });
+}
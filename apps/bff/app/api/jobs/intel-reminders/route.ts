@@ -0,0 +1,47 @@
+import { timingSafeEqual } from 'crypto';
+
+import { auditSecurity } from '../../../../lib/audit';
+import { isERPClientError } from '../../../../lib/erp-client';
+import { errorResponse } from '../../../../lib/errors';
+import { runIntelReminderJob } from '../../../../lib/intel-reminders';
+import { jsonResponse } from '../../../../lib/response';
+
+const requireJobsSecret = (request: Request) => {
+  const secret = process.env.JOBS_API_SECRET?.trim();
+  if (!secret) {
+    return errorResponse(500, 'jobs_secret_missing', 'Jobs secret not configured.');
+  }
+  const expected = Buffer.from(secret);
+  const provided = Buffer.from(request.headers.get('x-jobs-secret') ?? '');
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return errorResponse(403, 'forbidden', 'Invalid jobs secret.');
+  }
+  return null;
+};
+
+export async function POST(request: Request) {
+  const authError = requireJobsSecret(request);
+  if (authError) return authError;
+
+  const dryRun = new URL(request.url).searchParams.get('dryRun') === '1';
+
+  try {
+    const result = await runIntelReminderJob({ dryRun });
+
+    auditSecurity({
+      event: 'intel_reminders_run',
+      dryRun,
+      checked: result.checked,
+      due: result.due,
+      sent: result.digests.filter((digest) => digest.status === 'sent').length,
+      failed: result.digests.filter((digest) => digest.status === 'failed').length,
+    });
+
+    return jsonResponse(result);
+  } catch (error) {
+    if (isERPClientError(error)) {
+      return errorResponse(502, 'erp_unavailable', 'ERP request failed.');
+    }
+    throw error;
+  }
+}
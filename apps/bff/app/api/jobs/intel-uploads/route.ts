@@ -0,0 +1,30 @@
+import { timingSafeEqual } from 'crypto';
+
+import { auditSecurity } from '../../../../lib/audit';
+import { errorResponse } from '../../../../lib/errors';
+import { purgeExpiredIntelUploads } from '../../../../lib/intel-uploads';
+import { jsonResponse } from '../../../../lib/response';
+
+const requireJobsSecret = (request: Request) => {
+  const secret = process.env.JOBS_API_SECRET?.trim();
+  if (!secret) {
+    return errorResponse(500, 'jobs_secret_missing', 'Jobs secret not configured.');
+  }
+  const expected = Buffer.from(secret);
+  const provided = Buffer.from(request.headers.get('x-jobs-secret') ?? '');
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return errorResponse(403, 'forbidden', 'Invalid jobs secret.');
+  }
+  return null;
+};
+
+export async function POST(request: Request) {
+  const authError = requireJobsSecret(request);
+  if (authError) return authError;
+
+  const purged = await purgeExpiredIntelUploads();
+
+  auditSecurity({ event: 'intel_uploads_purged', purged });
+
+  return jsonResponse({ purged });
+}
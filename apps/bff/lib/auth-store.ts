@@ -101,6 +101,13 @@ export const getUserByEmail = (email: string): StoredUser | null => {
   return row ? mapUser(row) : null;
 };
 
+export const listActiveUsers = (): StoredUser[] => {
+  const rows = db
+    .prepare("SELECT * FROM users WHERE status = 'active' ORDER BY email")
+    .all() as Record<string, unknown>[];
+  return rows.map(mapUser);
+};
+
 export const upsertUser = (payload: {
   email: string;
   role: string;
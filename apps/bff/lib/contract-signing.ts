@@ -0,0 +1,269 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+
+import 'server-only';
+
+import { getJwtSecret } from './config';
+import { CONTRACT_LABELS } from './contracts';
+import { getDb } from './db';
+import { erpClient } from './erp-client';
+import { renderTextPdf } from './pdf';
+
+import type { ContractType } from './contracts';
+import type { ContractRecord, ContractSignatureUpdate } from './erp-client';
+
+export type ContractSignatureStatus = 'pending' | 'completed' | 'failed';
+
+export type ContractSigningRequest = {
+  id: string;
+  engagementId: string;
+  contractId: string;
+  contractType: ContractType;
+  signerUid: string;
+  typedName: string;
+  ip: string | null;
+  userAgent: string | null;
+  documentHash: string;
+};
+
+export type ContractSignatureEvidence = ContractSigningRequest & {
+  provider: string;
+  status: ContractSignatureStatus;
+  seal: string;
+  externalRef: string | null;
+  signedCopyFileId: string | null;
+  signedCopyHash: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+export type ContractSigningResult =
+  | { status: 'completed' }
+  | { status: 'pending'; redirectUrl: string };
+
+export interface ContractSigningProvider {
+  id: string;
+  sign(evidence: ContractSignatureEvidence): Promise<ContractSigningResult>;
+}
+
+export const MAX_TYPED_NAME_LENGTH = 120;
+const MAX_HASHED_ATTACHMENTS = 20;
+const SIGNING_SECRET = process.env.LUCIEN_SIGNING_SECRET?.trim();
+const PENDING_SIGNATURE_TTL_MS = 30 * 60 * 1000;
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest('hex');
+
+const mapEvidence = (row: Record<string, unknown>): ContractSignatureEvidence => {
+  return {
+    id: String(row.id),
+    engagementId: String(row.engagement_id),
+    contractId: String(row.contract_id),
+    contractType: String(row.contract_type) as ContractType,
+    provider: String(row.provider),
+    status: String(row.status) as ContractSignatureStatus,
+    signerUid: String(row.signer_uid),
+    typedName: String(row.typed_name),
+    ip: row.ip ? String(row.ip) : null,
+    userAgent: row.user_agent ? String(row.user_agent) : null,
+    documentHash: String(row.document_hash),
+    seal: String(row.seal),
+    externalRef: row.external_ref ? String(row.external_ref) : null,
+    signedCopyFileId: row.signed_copy_file_id ? String(row.signed_copy_file_id) : null,
+    signedCopyHash: row.signed_copy_hash ? String(row.signed_copy_hash) : null,
+    createdAt: String(row.created_at),
+    completedAt: row.completed_at ? String(row.completed_at) : null,
+  };
+};
+
+const sealEvidence = (request: ContractSigningRequest, provider: string, at: string) => {
+  return createHmac('sha256', SIGNING_SECRET || getJwtSecret())
+    .update(
+      [
+        request.id,
+        provider,
+        request.engagementId,
+        request.contractId,
+        request.signerUid,
+        request.typedName,
+        request.ip ?? '',
+        request.userAgent ?? '',
+        request.documentHash,
+        at,
+      ].join('\n'),
+    )
+    .digest('hex');
+};
+
+export const getContractSignature = (signatureId: string) => {
+  const row = db
+    .prepare('SELECT * FROM contract_signatures WHERE id = ? LIMIT 1')
+    .get(signatureId) as Record<string, unknown> | undefined;
+  return row ? mapEvidence(row) : null;
+};
+
+// The partial unique index on contract_id allows one pending or completed
+// signature per contract, so a concurrent attempt inserts nothing and gets null.
+export const recordContractSignature = (payload: {
+  request: ContractSigningRequest;
+  provider: string;
+  externalRef?: string | null;
+}) => {
+  const createdAt = now();
+  const staleBefore = new Date(Date.now() - PENDING_SIGNATURE_TTL_MS).toISOString();
+  const inserted = db.transaction(() => {
+    db.prepare(
+      `UPDATE contract_signatures SET status = 'failed'
+       WHERE contract_id = ? AND status = 'pending' AND created_at < ?`,
+    ).run(payload.request.contractId, staleBefore);
+    return db
+      .prepare(
+        `INSERT OR IGNORE INTO contract_signatures
+           (id, engagement_id, contract_id, contract_type, provider, status, signer_uid,
+            typed_name, ip, user_agent, document_hash, seal, external_ref, created_at)
+         VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        payload.request.id,
+        payload.request.engagementId,
+        payload.request.contractId,
+        payload.request.contractType,
+        payload.provider,
+        payload.request.signerUid,
+        payload.request.typedName,
+        payload.request.ip,
+        payload.request.userAgent,
+        payload.request.documentHash,
+        sealEvidence(payload.request, payload.provider, createdAt),
+        payload.externalRef ?? null,
+        createdAt,
+      ).changes;
+  })();
+  return inserted ? getContractSignature(payload.request.id) : null;
+};
+
+export const completeContractSignature = (signatureId: string) => {
+  db.prepare(
+    `UPDATE contract_signatures SET status = 'completed', completed_at = ?
+     WHERE id = ? AND status = 'pending'`,
+  ).run(now(), signatureId);
+  return getContractSignature(signatureId);
+};
+
+export const failContractSignature = (signatureId: string) => {
+  db.prepare(
+    `UPDATE contract_signatures SET status = 'failed' WHERE id = ? AND status = 'pending'`,
+  ).run(signatureId);
+};
+
+export const attachSignedCopy = (signatureId: string, fileId: string, hash: string) => {
+  db.prepare(
+    'UPDATE contract_signatures SET signed_copy_file_id = ?, signed_copy_hash = ? WHERE id = ?',
+  ).run(fileId, hash, signatureId);
+  return getContractSignature(signatureId);
+};
+
+// Typed name + click-to-sign happens in the portal, so there is nothing left to
+// collect here; the route completes the evidence once ERP has the signature.
+const localSigningProvider: ContractSigningProvider = {
+  id: 'local',
+  async sign() {
+    return { status: 'completed' };
+  },
+};
+
+const SIGNING_PROVIDERS: Record<string, ContractSigningProvider> = {
+  [localSigningProvider.id]: localSigningProvider,
+};
+
+export const getContractSigningProvider = () => {
+  const providerId = process.env.LUCIEN_SIGNING_PROVIDER?.trim() || localSigningProvider.id;
+  return SIGNING_PROVIDERS[providerId] ?? null;
+};
+
+export const hashContractDocument = async (contract: ContractRecord) => {
+  const files = (await erpClient.fetchFileAttachments('Contract', [contract.name])) ?? [];
+  const signable = files
+    .filter((file) => !file.file_name.endsWith('-signed.pdf'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, MAX_HASHED_ATTACHMENTS);
+
+  const hashed = [];
+  for (const file of signable) {
+    const response = await erpClient.downloadFile(file);
+    hashed.push({
+      id: file.name,
+      name: file.file_name,
+      sha256: sha256(new Uint8Array(await response.arrayBuffer())),
+    });
+  }
+
+  return sha256(
+    JSON.stringify({
+      contract: contract.name,
+      project: contract.project ?? null,
+      type: contract.contract_type ?? null,
+      files: hashed,
+    }),
+  );
+};
+
+export const buildSignedContractPdf = (
+  contract: ContractRecord,
+  evidence: ContractSignatureEvidence,
+) => {
+  const label = CONTRACT_LABELS[evidence.contractType];
+  const signedAt = evidence.completedAt ?? evidence.createdAt;
+  return renderTextPdf({
+    title: `${label} - signed copy`,
+    author: evidence.typedName,
+    createdAt: new Date(signedAt),
+    lines: [
+      `Contract: ${contract.name} (${contract.contract_type ?? label})`,
+      `Engagement: ${evidence.engagementId}`,
+      '',
+      `Signed by: ${evidence.typedName}`,
+      `Account: ${evidence.signerUid}`,
+      `Signed at: ${signedAt}`,
+      `Method: typed name + click-to-sign (${evidence.provider})`,
+      '',
+      'Signature evidence',
+      `Signature ID: ${evidence.id}`,
+      `Document SHA-256: ${evidence.documentHash}`,
+      `IP address: ${evidence.ip ?? 'unknown'}`,
+      `User agent: ${evidence.userAgent ?? 'unknown'}`,
+      `Evidence seal: ${evidence.seal}`,
+      '',
+      `By typing their name and confirming, ${evidence.typedName} agreed to be bound by the`,
+      `${label} identified above, including every document covered by the document hash.`,
+    ],
+  });
+};
+
+export const storeSignedContractCopy = async (
+  contract: ContractRecord,
+  evidence: ContractSignatureEvidence,
+) => {
+  const pdf = buildSignedContractPdf(contract, evidence);
+  const { file } = await erpClient.uploadFile({
+    file: new File([pdf], `${contract.name}-signed.pdf`, { type: 'application/pdf' }),
+    doctype: 'Contract',
+    docname: contract.name,
+  });
+  return attachSignedCopy(evidence.id, file.name, sha256(pdf)) ?? evidence;
+};
+
+export const toContractSignatureUpdate = (
+  evidence: ContractSignatureEvidence,
+): ContractSignatureUpdate => ({
+  status: 'Signed',
+  lucien_signed_by: evidence.signerUid,
+  lucien_signed_at: evidence.completedAt ?? evidence.createdAt,
+  lucien_signature_id: evidence.id,
+});
+
+export const createContractSigningRequest = (
+  payload: Omit<ContractSigningRequest, 'id'>,
+): ContractSigningRequest => ({ id: randomUUID(), ...payload });
@@ -0,0 +1,133 @@
+import 'server-only';
+
+import { erpClient } from './erp-client';
+import { buildFileUrl } from './file-links';
+
+import type { ContractRecord } from './erp-client';
+
+export type ContractType = 'nda' | 'msa' | 'sow' | 'dpa' | 'change_requests';
+
+export type ContractStatus = 'signed' | 'pending' | 'action' | 'not_wired';
+
+export type ContractAttachment = {
+  id: string;
+  name: string;
+  url: string;
+};
+
+export type ContractSignatureSummary = {
+  signedBy: string | null;
+  signedAt: string | null;
+  signatureId: string | null;
+};
+
+export type ContractItem = {
+  type: ContractType;
+  label: string;
+  status: ContractStatus;
+  updatedAt: string | null;
+  attachments: ContractAttachment[];
+  signature: ContractSignatureSummary | null;
+  signable: boolean;
+};
+
+export const CONTRACT_ORDER: ContractType[] = ['nda', 'msa', 'sow', 'dpa', 'change_requests'];
+
+export const CONTRACT_LABELS: Record<ContractType, string> = {
+  nda: 'NDA',
+  msa: 'MSA',
+  sow: 'SOW / ANNEX',
+  dpa: 'DPA',
+  change_requests: 'CHANGE REQUESTS',
+};
+
+const SIGNABLE_TYPES = new Set<ContractType>(['nda', 'msa', 'sow']);
+
+const normalize = (value?: string | null) => (value ?? '').trim().toLowerCase();
+
+export const isContractType = (value: unknown): value is ContractType => {
+  return typeof value === 'string' && (CONTRACT_ORDER as string[]).includes(value);
+};
+
+export const isSignableContractType = (type: ContractType) => SIGNABLE_TYPES.has(type);
+
+export const mapContractType = (value?: string | null): ContractType | null => {
+  const text = normalize(value);
+  if (!text) return null;
+  if (text.includes('nda')) return 'nda';
+  if (text.includes('msa')) return 'msa';
+  if (text.includes('sow') || text.includes('annex')) return 'sow';
+  if (text.includes('dpa')) return 'dpa';
+  if (text.includes('change')) return 'change_requests';
+  return null;
+};
+
+export const mapContractStatus = (value?: string | null): ContractStatus => {
+  const text = normalize(value);
+  if (!text) return 'pending';
+  if (text.includes('signed') || text.includes('executed') || text.includes('active')) {
+    return 'signed';
+  }
+  if (text.includes('action') || text.includes('required')) {
+    return 'action';
+  }
+  return 'pending';
+};
+
+const toTimestamp = (value?: string | null) => {
+  if (!value) return 0;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? 0 : date.getTime();
+};
+
+export const latestContractsByType = (records: ContractRecord[]) => {
+  const latestByType = new Map<ContractType, ContractRecord>();
+
+  records.forEach((record) => {
+    const type = mapContractType(record.contract_type ?? record.name);
+    if (!type) return;
+    const existing = latestByType.get(type);
+    if (!existing || toTimestamp(record.modified) > toTimestamp(existing.modified)) {
+      latestByType.set(type, record);
+    }
+  });
+
+  return latestByType;
+};
+
+export const loadContractItems = async (
+  engagementId: string,
+  records: ContractRecord[],
+): Promise<ContractItem[]> => {
+  const latestByType = latestContractsByType(records);
+  const contractNames = Array.from(latestByType.values()).map((record) => record.name);
+  const files = (await erpClient.fetchFileAttachments('Contract', contractNames)) ?? [];
+
+  return CONTRACT_ORDER.map((type) => {
+    const record = latestByType.get(type);
+    const status = record ? mapContractStatus(record.status) : 'pending';
+    return {
+      type,
+      label: CONTRACT_LABELS[type],
+      status,
+      updatedAt: record?.modified ?? null,
+      attachments: record
+        ? files
+            .filter((file) => file.attached_to_name === record.name)
+            .map((file) => ({
+              id: file.name,
+              name: file.file_name,
+              url: buildFileUrl(engagementId, file.name),
+            }))
+        : [],
+      signature: record?.lucien_signed_at
+        ? {
+            signedBy: record.lucien_signed_by ?? null,
+            signedAt: record.lucien_signed_at,
+            signatureId: record.lucien_signature_id ?? null,
+          }
+        : null,
+      signable: Boolean(record) && status !== 'signed' && isSignableContractType(type),
+    };
+  });
+};
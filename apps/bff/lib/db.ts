@@ -49,6 +49,162 @@ db.exec(`
     created_by TEXT,
     metadata TEXT
   );
+
+  CREATE TABLE IF NOT EXISTS intel_drafts (
+    user_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    engagement_id TEXT NOT NULL,
+    answers TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, request_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS intel_templates (
+    template_key TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    fields TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    created_by TEXT,
+    PRIMARY KEY (template_key, version)
+  );
+
+  CREATE TABLE IF NOT EXISTS intel_upload_sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    engagement_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    field_key TEXT,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    chunk_size INTEGER NOT NULL,
+    received_bytes INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS intel_upload_inspections (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    engagement_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    file_id TEXT,
+    file_name TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    sha256 TEXT NOT NULL,
+    detected_type TEXT NOT NULL,
+    scan_engine TEXT NOT NULL,
+    scan_status TEXT NOT NULL,
+    scan_signature TEXT,
+    quarantine_path TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS intel_reminders (
+    request_id TEXT NOT NULL,
+    due_date TEXT NOT NULL,
+    offset_days INTEGER NOT NULL,
+    recipient TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    sent_at TEXT NOT NULL,
+    PRIMARY KEY (request_id, due_date, offset_days, recipient)
+  );
+
+  CREATE TABLE IF NOT EXISTS intel_comments (
+    id TEXT PRIMARY KEY,
+    engagement_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    field_key TEXT,
+    body TEXT NOT NULL,
+    author_id TEXT NOT NULL,
+    author_role TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS intel_comment_reads (
+    user_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    last_read_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, request_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS protocol_task_transitions (
+    id TEXT PRIMARY KEY,
+    engagement_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    actor_id TEXT NOT NULL,
+    actor_role TEXT NOT NULL,
+    override INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS protocol_calendar_tokens (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    engagement_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS protocol_snapshots (
+    id TEXT PRIMARY KEY,
+    engagement_id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    is_baseline INTEGER NOT NULL DEFAULT 0,
+    baseline_set_by TEXT,
+    baseline_set_at TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS delivery_pipeline_templates (
+    tier TEXT PRIMARY KEY,
+    stages TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    updated_by TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS output_qa_checks (
+    output_id TEXT NOT NULL,
+    engagement_id TEXT NOT NULL,
+    item_key TEXT NOT NULL,
+    checked INTEGER NOT NULL DEFAULT 0,
+    checked_by TEXT,
+    checked_at TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (output_id, item_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS contract_signatures (
+    id TEXT PRIMARY KEY,
+    engagement_id TEXT NOT NULL,
+    contract_id TEXT NOT NULL,
+    contract_type TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    status TEXT NOT NULL,
+    signer_uid TEXT NOT NULL,
+    typed_name TEXT NOT NULL,
+    ip TEXT,
+    user_agent TEXT,
+    document_hash TEXT NOT NULL,
+    seal TEXT NOT NULL,
+    external_ref TEXT,
+    signed_copy_file_id TEXT,
+    signed_copy_hash TEXT,
+    created_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS contract_signatures_open
+    ON contract_signatures (contract_id) WHERE status IN ('pending', 'completed');
 `);
 
 export const getDb = () => db;
@@ -0,0 +1,334 @@
+import 'server-only';
+
+import { getDb } from './db';
+import { erpClient } from './erp-client';
+import { loadOutputQaChecklist, summarizeOutputQa } from './output-qa';
+import { mapOutputStatus } from './outputs';
+
+import type { OutputRecord, OutputStageUpdate } from './erp-client';
+import type { OutputQaSummary } from './output-qa';
+
+export type DeliveryTier = 'INTEL_ONLY' | 'BLUEPRINT' | 'CUSTOM';
+
+export type DeliveryStageOwner = 'operator' | 'client';
+
+export type DeliveryStageDefinition = {
+  key: string;
+  label: string;
+  owner: DeliveryStageOwner;
+  erpStatus: string;
+  matches: string[];
+  clientDecision?: boolean;
+  release?: boolean;
+};
+
+export type DeliveryPipelineTemplate = {
+  tier: DeliveryTier;
+  stages: DeliveryStageDefinition[];
+  updatedAt: string;
+  updatedBy: string | null;
+};
+
+export type DeliveryPipelineItem = {
+  id: string;
+  title: string;
+  category: string;
+  stageId: string;
+  owner: DeliveryStageOwner;
+  erpStatus: string | null;
+  updatedAt: string | null;
+  canAdvance: boolean;
+  canRegress: boolean;
+  qa?: OutputQaSummary;
+};
+
+export type DeliveryTransitionDirection = 'advance' | 'regress';
+
+export type DeliveryTemplateSchemaError = {
+  path: string;
+  reason: string;
+};
+
+export const DELIVERY_TIERS: DeliveryTier[] = ['INTEL_ONLY', 'BLUEPRINT', 'CUSTOM'];
+
+const MAX_STAGES = 10;
+const STAGE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+
+const DRAFT_STAGE: DeliveryStageDefinition = {
+  key: 'draft',
+  label: 'Draft',
+  owner: 'operator',
+  erpStatus: 'In Progress',
+  matches: ['open', 'draft', 'pending', 'in progress', 'working', 'rejected'],
+};
+
+const INTERNAL_QA_STAGE: DeliveryStageDefinition = {
+  key: 'internal_qa',
+  label: 'Internal QA',
+  owner: 'operator',
+  erpStatus: 'Internal QA',
+  matches: ['internal qa', 'qa', 'in review'],
+};
+
+const CLIENT_REVIEW_STAGE: DeliveryStageDefinition = {
+  key: 'client_review',
+  label: 'Client review',
+  owner: 'client',
+  erpStatus: 'Delivered',
+  matches: ['delivered', 'complete', 'completed'],
+  release: true,
+};
+
+const ACCEPTED_STAGE: DeliveryStageDefinition = {
+  key: 'accepted',
+  label: 'Accepted',
+  owner: 'client',
+  erpStatus: 'Accepted',
+  matches: ['accepted'],
+  clientDecision: true,
+};
+
+const DEFAULT_TEMPLATES: Record<DeliveryTier, DeliveryStageDefinition[]> = {
+  INTEL_ONLY: [DRAFT_STAGE, CLIENT_REVIEW_STAGE, ACCEPTED_STAGE],
+  BLUEPRINT: [DRAFT_STAGE, INTERNAL_QA_STAGE, CLIENT_REVIEW_STAGE, ACCEPTED_STAGE],
+  CUSTOM: [DRAFT_STAGE, INTERNAL_QA_STAGE, CLIENT_REVIEW_STAGE, ACCEPTED_STAGE],
+};
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const normalize = (value?: string | null) => (value ?? '').trim().toLowerCase();
+
+// Templates saved before stages carried `release` get it on the first stage that
+// hands the output to the client.
+const withReleaseStage = (stages: DeliveryStageDefinition[]) => {
+  if (stages.some((stage) => stage.release)) return stages;
+  const release =
+    stages.find((stage) => mapOutputStatus(stage.erpStatus) === 'delivered') ??
+    stages.find((stage) => stage.owner === 'client' && !stage.clientDecision);
+  return stages.map((stage) => (stage === release ? { ...stage, release: true } : stage));
+};
+
+const mapTemplate = (row: Record<string, unknown>): DeliveryPipelineTemplate => {
+  return {
+    tier: String(row.tier) as DeliveryTier,
+    stages: withReleaseStage(JSON.parse(String(row.stages)) as DeliveryStageDefinition[]),
+    updatedAt: String(row.updated_at),
+    updatedBy: row.updated_by ? String(row.updated_by) : null,
+  };
+};
+
+const seedTemplates = () => {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO delivery_pipeline_templates (tier, stages, updated_at, updated_by)
+     VALUES (?, ?, ?, ?)`,
+  );
+  const timestamp = now();
+
+  db.transaction(() => {
+    DELIVERY_TIERS.forEach((tier) => {
+      insert.run(tier, JSON.stringify(DEFAULT_TEMPLATES[tier]), timestamp, 'system');
+    });
+  })();
+};
+
+seedTemplates();
+
+export const isDeliveryTier = (value: unknown): value is DeliveryTier => {
+  return typeof value === 'string' && (DELIVERY_TIERS as string[]).includes(value);
+};
+
+export const resolveDeliveryTier = (project: Record<string, unknown> | null): DeliveryTier => {
+  const tierField = process.env.LUCIEN_TIER_FIELD?.trim();
+  const raw = project && tierField ? project[tierField] : null;
+  const normalized = typeof raw === 'string' ? normalize(raw) : '';
+  if (normalized.includes('intel')) return 'INTEL_ONLY';
+  if (normalized.includes('custom')) return 'CUSTOM';
+  return 'BLUEPRINT';
+};
+
+export const getDeliveryPipelineTemplate = (tier: DeliveryTier) => {
+  const row = db
+    .prepare('SELECT * FROM delivery_pipeline_templates WHERE tier = ? LIMIT 1')
+    .get(tier) as Record<string, unknown> | undefined;
+  return row
+    ? mapTemplate(row)
+    : { tier, stages: DEFAULT_TEMPLATES[tier], updatedAt: now(), updatedBy: null };
+};
+
+export const listDeliveryPipelineTemplates = () => {
+  return DELIVERY_TIERS.map(getDeliveryPipelineTemplate);
+};
+
+export const saveDeliveryPipelineTemplate = (
+  tier: DeliveryTier,
+  stages: DeliveryStageDefinition[],
+  uid: string,
+) => {
+  db.prepare(
+    `INSERT INTO delivery_pipeline_templates (tier, stages, updated_at, updated_by)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(tier) DO UPDATE SET
+       stages = excluded.stages,
+       updated_at = excluded.updated_at,
+       updated_by = excluded.updated_by`,
+  ).run(tier, JSON.stringify(stages), now(), uid);
+  return getDeliveryPipelineTemplate(tier);
+};
+
+export const validateDeliveryStages = (
+  input: unknown,
+): { stages: DeliveryStageDefinition[] | null; errors: DeliveryTemplateSchemaError[] } => {
+  const errors: DeliveryTemplateSchemaError[] = [];
+  if (!Array.isArray(input) || input.length < 2 || input.length > MAX_STAGES) {
+    return {
+      stages: null,
+      errors: [{ path: 'stages', reason: `Provide between 2 and ${MAX_STAGES} stages.` }],
+    };
+  }
+
+  const keys = new Set<string>();
+  const stages = input.map((entry: unknown, index): DeliveryStageDefinition => {
+    const path = `stages[${index}]`;
+    const stage = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const key = typeof stage.key === 'string' ? stage.key.trim() : '';
+    const label = typeof stage.label === 'string' ? stage.label.trim() : '';
+    const erpStatus = typeof stage.erpStatus === 'string' ? stage.erpStatus.trim() : '';
+    const matches = Array.isArray(stage.matches)
+      ? stage.matches.filter((value): value is string => typeof value === 'string')
+      : [];
+
+    if (!STAGE_KEY_PATTERN.test(key)) {
+      errors.push({ path: `${path}.key`, reason: 'Use 2-40 lowercase letters, digits or _.' });
+    } else if (keys.has(key)) {
+      errors.push({ path: `${path}.key`, reason: 'Stage keys must be unique.' });
+    }
+    keys.add(key);
+
+    if (!label || label.length > 80) {
+      errors.push({ path: `${path}.label`, reason: 'Label is required (max 80 characters).' });
+    }
+    if (stage.owner !== 'operator' && stage.owner !== 'client') {
+      errors.push({ path: `${path}.owner`, reason: 'Owner must be operator or client.' });
+    }
+    if (!erpStatus || erpStatus.length > 60) {
+      errors.push({ path: `${path}.erpStatus`, reason: 'ERP status is required (max 60).' });
+    }
+    if (stage.matches !== undefined && !Array.isArray(stage.matches)) {
+      errors.push({ path: `${path}.matches`, reason: 'Matches must be a list of statuses.' });
+    }
+
+    return {
+      key,
+      label,
+      owner: stage.owner === 'client' ? 'client' : 'operator',
+      erpStatus,
+      matches: Array.from(new Set([normalize(erpStatus), ...matches.map(normalize)])).filter(
+        Boolean,
+      ),
+      ...(stage.clientDecision === true ? { clientDecision: true } : {}),
+      ...(stage.release === true ? { release: true } : {}),
+    };
+  });
+
+  if (stages[0]?.clientDecision) {
+    errors.push({
+      path: 'stages[0].clientDecision',
+      reason: 'The first stage cannot be a decision.',
+    });
+  }
+
+  const releaseIndexes = stages.flatMap((stage, index) => (stage.release ? [index] : []));
+  if (releaseIndexes.length !== 1) {
+    errors.push({ path: 'stages', reason: 'Mark exactly one stage as the release stage.' });
+  } else if (releaseIndexes[0] === 0 || stages[releaseIndexes[0]].clientDecision) {
+    errors.push({
+      path: `stages[${releaseIndexes[0]}].release`,
+      reason: 'The release stage cannot be the first stage or a decision.',
+    });
+  }
+
+  return { stages: errors.length ? null : stages, errors };
+};
+
+export const resolveDeliveryStage = (stages: DeliveryStageDefinition[], status?: string | null) => {
+  const normalized = normalize(status);
+  return stages.find((stage) => stage.matches.includes(normalized)) ?? stages[0];
+};
+
+export const resolveDeliveryTarget = (
+  stages: DeliveryStageDefinition[],
+  current: DeliveryStageDefinition,
+  direction: DeliveryTransitionDirection,
+) => {
+  const index = stages.findIndex((stage) => stage.key === current.key);
+  const target = stages[index + (direction === 'advance' ? 1 : -1)];
+  if (!target || current.clientDecision || target.clientDecision) return null;
+  return target;
+};
+
+export const isReleaseStage = (stage: DeliveryStageDefinition) => stage.release === true;
+
+export const isReleaseRollback = (
+  stages: DeliveryStageDefinition[],
+  current: DeliveryStageDefinition,
+  target: DeliveryStageDefinition,
+) => {
+  const releaseIndex = stages.findIndex(isReleaseStage);
+  const indexOf = (stage: DeliveryStageDefinition) =>
+    stages.findIndex((entry) => entry.key === stage.key);
+  return releaseIndex >= 0 && indexOf(current) >= releaseIndex && indexOf(target) < releaseIndex;
+};
+
+export const withOutputQa = (item: DeliveryPipelineItem): DeliveryPipelineItem => {
+  return { ...item, qa: summarizeOutputQa(loadOutputQaChecklist(item.id, item.category)) };
+};
+
+export const toDeliveryPipelineItem = (
+  stages: DeliveryStageDefinition[],
+  record: OutputRecord,
+): DeliveryPipelineItem => {
+  const stage = resolveDeliveryStage(stages, record.status);
+  return {
+    id: record.name,
+    title: record.title ?? record.name,
+    category: record.category ?? 'output',
+    stageId: stage.key,
+    owner: stage.owner,
+    erpStatus: record.status ?? null,
+    updatedAt: record.modified ?? null,
+    canAdvance: Boolean(resolveDeliveryTarget(stages, stage, 'advance')),
+    canRegress: Boolean(resolveDeliveryTarget(stages, stage, 'regress')),
+  };
+};
+
+export const toOutputStageUpdate = (
+  target: DeliveryStageDefinition,
+  direction: DeliveryTransitionDirection,
+): OutputStageUpdate => {
+  if (direction === 'advance' && target.owner === 'client') {
+    return {
+      status: target.erpStatus,
+      lucien_decision: null,
+      lucien_decision_reason: null,
+      lucien_decided_by: null,
+      lucien_decided_at: null,
+    };
+  }
+  return { status: target.erpStatus };
+};
+
+export const loadDeliveryPipeline = async (engagementId: string) => {
+  const [project, outputs] = await Promise.all([
+    erpClient.fetchProjectById(engagementId),
+    erpClient.fetchOutputsByProject(engagementId),
+  ]);
+  const tier = resolveDeliveryTier(project as Record<string, unknown> | null);
+  const template = getDeliveryPipelineTemplate(tier);
+  return {
+    tier,
+    template,
+    items: (outputs ?? []).map((record) => toDeliveryPipelineItem(template.stages, record)),
+  };
+};
@@ -11,6 +11,32 @@ type InviteEmailPayload = {
   expiresAt: string;
 };
 
+export type IntelReminderDigestItem = {
+  engagementId: string;
+  requestId: string;
+  title: string;
+  dueDate: string;
+  daysPastDue: number;
+};
+
+type IntelReminderDigestPayload = {
+  to: string;
+  kind: 'reminder' | 'escalation';
+  items: IntelReminderDigestItem[];
+  portalUrl?: string | null;
+};
+
+type OutputDecisionEmailPayload = {
+  to: string;
+  engagementId: string;
+  outputId: string;
+  title: string;
+  decision: 'accepted' | 'rejected';
+  reason: string | null;
+  decidedBy: string | null;
+  portalUrl?: string | null;
+};
+
 const smtpHost = process.env.SMTP_HOST?.trim();
 const smtpUser = process.env.SMTP_USER?.trim();
 const smtpPass = process.env.SMTP_PASS?.trim();
@@ -19,13 +45,8 @@ const smtpFrom = process.env.SMTP_FROM?.trim() ?? 'no-reply@lucien.technology';
 
 const canSend = Boolean(smtpHost && smtpUser && smtpPass);
 
-export const sendInviteEmail = async (payload: InviteEmailPayload): Promise<boolean> => {
-  if (!canSend) {
-    console.warn('SMTP not configured; invite email not sent.');
-    return false;
-  }
-
-  const transporter = nodemailer.createTransport({
+const createTransport = () => {
+  return nodemailer.createTransport({
     host: smtpHost,
     port: Number.isFinite(smtpPort) ? smtpPort : 587,
     secure: false,
@@ -34,6 +55,24 @@ export const sendInviteEmail = async (payload: InviteEmailPayload): Promise<bool
       pass: smtpPass,
     },
   });
+};
+
+const describeDueDate = (item: IntelReminderDigestItem) => {
+  if (item.daysPastDue > 0) {
+    return `OVERDUE by ${item.daysPastDue} day${item.daysPastDue === 1 ? '' : 's'} (due ${item.dueDate})`;
+  }
+  if (item.daysPastDue === 0) return `due today (${item.dueDate})`;
+  const daysLeft = -item.daysPastDue;
+  return `due in ${daysLeft} day${daysLeft === 1 ? '' : 's'} (${item.dueDate})`;
+};
+
+export const sendInviteEmail = async (payload: InviteEmailPayload): Promise<boolean> => {
+  if (!canSend) {
+    console.warn('SMTP not configured; invite email not sent.');
+    return false;
+  }
+
+  const transporter = createTransport();
 
   const lines = [
     'You have been invited to the Lucien portal.',
@@ -60,3 +99,75 @@ export const sendInviteEmail = async (payload: InviteEmailPayload): Promise<bool
 
   return true;
 };
+
+export const sendIntelReminderDigest = async (
+  payload: IntelReminderDigestPayload,
+): Promise<boolean> => {
+  if (!canSend) {
+    console.warn('SMTP not configured; intel reminder digest not sent.');
+    return false;
+  }
+
+  const overdue = payload.items.filter((item) => item.daysPastDue > 0).length;
+  const lines =
+    payload.kind === 'escalation'
+      ? ['The following client intel requests are overdue:', '']
+      : ['The following intel requests need your input in the Lucien portal:', ''];
+
+  payload.items.forEach((item) => {
+    lines.push(
+      `- [${item.engagementId}] ${item.title} (${item.requestId}) — ${describeDueDate(item)}`,
+    );
+  });
+
+  if (payload.portalUrl) {
+    lines.push('', `Open the portal: ${payload.portalUrl}`);
+  }
+
+  await createTransport().sendMail({
+    from: smtpFrom,
+    to: payload.to,
+    subject:
+      payload.kind === 'escalation'
+        ? `Lucien Portal — ${payload.items.length} overdue intel request${payload.items.length === 1 ? '' : 's'}`
+        : overdue
+          ? `Lucien Portal — ${overdue} overdue intel request${overdue === 1 ? '' : 's'}`
+          : 'Lucien Portal — intel requests due soon',
+    text: lines.join('\n'),
+  });
+
+  return true;
+};
+
+export const sendOutputDecisionEmail = async (
+  payload: OutputDecisionEmailPayload,
+): Promise<boolean> => {
+  if (!canSend) {
+    console.warn('SMTP not configured; output decision email not sent.');
+    return false;
+  }
+
+  const lines = [
+    `The client ${payload.decision} a deliverable on engagement ${payload.engagementId}.`,
+    '',
+    `Deliverable: ${payload.title} (${payload.outputId})`,
+    `Decided by: ${payload.decidedBy ?? 'N/A'}`,
+  ];
+
+  if (payload.reason) {
+    lines.push('', `Reason: ${payload.reason}`);
+  }
+
+  if (payload.portalUrl) {
+    lines.push('', `Open the portal: ${payload.portalUrl}`);
+  }
+
+  await createTransport().sendMail({
+    from: smtpFrom,
+    to: payload.to,
+    subject: `Lucien Portal — deliverable ${payload.decision}: ${payload.title}`,
+    text: lines.join('\n'),
+  });
+
+  return true;
+};
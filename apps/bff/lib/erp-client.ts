@@ -8,7 +8,41 @@ export interface ClientRequestRecord {
   status: string;
   required: boolean;
   template_key: string;
+  template_version?: number | null;
   visibility?: string;
+  answers?: string | Record<string, unknown> | null;
+  submitted_by?: string | null;
+  submitted_at?: string | null;
+  review_comment?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  due_date?: string | null;
+}
+
+export interface ClientRequestCreate {
+  project: string;
+  title: string;
+  description?: string;
+  status: string;
+  required: boolean;
+  template_key: string;
+  template_version: number;
+  visibility: string;
+  due_date: string | null;
+}
+
+export interface ClientRequestAnswersUpdate {
+  answers: Record<string, unknown>;
+  template_version: number;
+  submitted_by: string;
+  submitted_at: string;
+}
+
+export interface ClientRequestReviewUpdate {
+  status: string;
+  review_comment: string | null;
+  reviewed_by: string;
+  reviewed_at: string;
 }
 
 export interface FileRecord {
@@ -16,7 +50,10 @@ export interface FileRecord {
   file_name: string;
   file_url: string;
   is_private: boolean;
+  attached_to_doctype?: string;
   attached_to_name?: string;
+  file_size?: number | null;
+  creation?: string | null;
 }
 
 export interface UploadFileRequest {
@@ -63,26 +100,106 @@ export interface ContractRecord {
   project?: string;
   contract_type?: string;
   status?: string;
+  lucien_signed_by?: string | null;
+  lucien_signed_at?: string | null;
+  lucien_signature_id?: string | null;
   modified?: string;
 }
 
+export interface ContractSignatureUpdate {
+  status: 'Signed';
+  lucien_signed_by: string;
+  lucien_signed_at: string;
+  lucien_signature_id: string;
+}
+
 export interface OutputRecord {
   name: string;
   project?: string;
   title?: string;
   category?: string;
   status?: string;
+  lucien_decision?: string | null;
+  lucien_decision_reason?: string | null;
+  lucien_decided_by?: string | null;
+  lucien_decided_at?: string | null;
+  modified?: string;
+}
+
+export interface OutputStageUpdate {
+  status: string;
+  lucien_decision?: null;
+  lucien_decision_reason?: null;
+  lucien_decided_by?: null;
+  lucien_decided_at?: null;
+}
+
+export interface OutputDecisionUpdate {
+  status: 'Accepted' | 'Rejected';
+  lucien_decision: 'accepted' | 'rejected';
+  lucien_decision_reason: string | null;
+  lucien_decided_by: string;
+  lucien_decided_at: string;
+}
+
+export interface DeliverableRevisionRecord {
+  name: string;
+  deliverable: string;
+  project: string;
+  version: number;
+  summary?: string | null;
+  created_by?: string | null;
+  creation?: string | null;
+}
+
+export interface ProjectMilestoneRecord {
+  name: string;
+  project: string;
+  title: string;
+  status?: string;
+  start_date?: string | null;
+  milestone_date?: string | null;
+  completed_on?: string | null;
+  lucien_owner?: string | null;
+  idx?: number;
+}
+
+export interface TaskRecord {
+  name: string;
+  project: string;
+  subject: string;
+  status?: string;
+  exp_start_date?: string | null;
+  exp_end_date?: string | null;
+  completed_on?: string | null;
+  lucien_milestone?: string | null;
+  lucien_owner?: string | null;
+  lucien_blocked_reason?: string | null;
+  depends_on_tasks?: string | null;
   modified?: string;
 }
 
+export interface TaskUpdate {
+  status: string;
+  completed_on: string | null;
+  lucien_blocked_reason: string | null;
+}
+
 export interface ERPClient {
   fetchProjectById(projectId: string): Promise<ProjectRecord | null>;
   fetchProjects(): Promise<ProjectRecord[]>;
   fetchClientRequestsByProject(projectId: string): Promise<ClientRequestRecord[]>;
   fetchClientRequestById(requestId: string): Promise<ClientRequestRecord | null>;
-  fetchFileAttachmentsForRequest(requestId: string): Promise<FileRecord[]>;
+  createClientRequest(payload: ClientRequestCreate): Promise<ClientRequestRecord>;
+  deleteClientRequest(requestId: string): Promise<void>;
+  fetchFileAttachments(doctype: string, docnames: string[]): Promise<FileRecord[]>;
+  fetchFileById(fileId: string): Promise<FileRecord | null>;
+  downloadFile(file: FileRecord): Promise<Response>;
   uploadFile(payload: UploadFileRequest): Promise<UploadFileResponse>;
+  deleteFile(fileId: string): Promise<void>;
   updateClientRequestStatus(requestId: string, status: string): Promise<void>;
+  updateClientRequestAnswers(requestId: string, payload: ClientRequestAnswersUpdate): Promise<void>;
+  updateClientRequestReview(requestId: string, payload: ClientRequestReviewUpdate): Promise<void>;
   fetchDirectiveById(directiveId: string): Promise<DirectiveRecord | null>;
   updateDirectiveAck(
     directiveId: string,
@@ -91,7 +208,18 @@ export interface ERPClient {
   fetchLatestInvoice(projectId: string): Promise<SalesInvoiceRecord | null>;
   fetchInvoicesByProject(projectId: string): Promise<SalesInvoiceRecord[] | null>;
   fetchContractsByProject(projectId: string): Promise<ContractRecord[] | null>;
+  updateContract(contractId: string, payload: ContractSignatureUpdate): Promise<void>;
   fetchOutputsByProject(projectId: string): Promise<OutputRecord[] | null>;
+  fetchOutputById(outputId: string): Promise<OutputRecord | null>;
+  updateOutput(outputId: string, payload: OutputDecisionUpdate | OutputStageUpdate): Promise<void>;
+  fetchDeliverableRevisionsByProject(
+    projectId: string,
+  ): Promise<DeliverableRevisionRecord[] | null>;
+  fetchDeliverableRevisionById(revisionId: string): Promise<DeliverableRevisionRecord | null>;
+  fetchMilestonesByProject(projectId: string): Promise<ProjectMilestoneRecord[] | null>;
+  fetchTasksByProject(projectId: string): Promise<TaskRecord[] | null>;
+  fetchTaskById(taskId: string): Promise<TaskRecord | null>;
+  updateTask(taskId: string, payload: TaskUpdate): Promise<void>;
 }
 
 export class ERPClientError extends Error {
@@ -234,7 +362,15 @@ export const realErpClient: ERPClient = {
         'status',
         'required',
         'template_key',
+        'template_version',
         'visibility',
+        'answers',
+        'submitted_by',
+        'submitted_at',
+        'review_comment',
+        'reviewed_by',
+        'reviewed_at',
+        'due_date',
       ]),
     });
 
@@ -247,15 +383,68 @@ export const realErpClient: ERPClient = {
     );
     return parseResourceItem<ClientRequestRecord>(payload);
   },
-  async fetchFileAttachmentsForRequest(requestId: string) {
+  async createClientRequest(payload: ClientRequestCreate) {
+    const response = await erpJson(resourcePath('Client Request'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...payload, required: payload.required ? 1 : 0 }),
+    });
+
+    const record = parseResourceItem<ClientRequestRecord>(response);
+    if (!record?.name) {
+      throw new ERPClientError('ERP response invalid.');
+    }
+
+    return { ...record, required: Boolean(record.required) };
+  },
+  async deleteClientRequest(requestId: string) {
+    await erpFetch(`${resourcePath('Client Request')}/${encodeURIComponent(requestId)}`, {
+      method: 'DELETE',
+    });
+  },
+  async fetchFileAttachments(doctype: string, docnames: string[]) {
+    if (!docnames.length) return [];
+
     const params = new URLSearchParams({
-      filters: JSON.stringify([['attached_to_name', '=', requestId]]),
-      fields: JSON.stringify(['name', 'file_name', 'file_url', 'is_private', 'attached_to_name']),
+      filters: JSON.stringify([
+        ['attached_to_doctype', '=', doctype],
+        ['attached_to_name', 'in', docnames],
+      ]),
+      fields: JSON.stringify([
+        'name',
+        'file_name',
+        'file_url',
+        'is_private',
+        'attached_to_doctype',
+        'attached_to_name',
+        'file_size',
+        'creation',
+      ]),
+      limit_page_length: '500',
     });
 
     const payload = await erpJson(`${resourcePath('File')}?${params}`);
     return parseResourceList<FileRecord>(payload);
   },
+  async fetchFileById(fileId: string) {
+    try {
+      const payload = await erpJson(`${resourcePath('File')}/${encodeURIComponent(fileId)}`);
+      return parseResourceItem<FileRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async downloadFile(file: FileRecord) {
+    if (!file.file_url.startsWith('/')) {
+      throw new ERPClientError('ERP file URL invalid.');
+    }
+    return erpFetch(file.file_url, { headers: { Accept: '*/*' } });
+  },
   async uploadFile(payload: UploadFileRequest) {
     const formData = new FormData();
     formData.append('file', payload.file);
@@ -280,10 +469,16 @@ export const realErpClient: ERPClient = {
         file_name: message.file_name ?? payload.file.name,
         file_url: message.file_url ?? '',
         is_private: Boolean(message.is_private),
+        attached_to_doctype: payload.doctype,
         attached_to_name: payload.docname,
       },
     };
   },
+  async deleteFile(fileId: string) {
+    await erpFetch(`${resourcePath('File')}/${encodeURIComponent(fileId)}`, {
+      method: 'DELETE',
+    });
+  },
   async updateClientRequestStatus(requestId: string, status: string) {
     await erpFetch(`${resourcePath('Client Request')}/${encodeURIComponent(requestId)}`, {
       method: 'PUT',
@@ -293,6 +488,29 @@ export const realErpClient: ERPClient = {
       body: JSON.stringify({ status }),
     });
   },
+  async updateClientRequestAnswers(requestId: string, payload: ClientRequestAnswersUpdate) {
+    await erpFetch(`${resourcePath('Client Request')}/${encodeURIComponent(requestId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        answers: JSON.stringify(payload.answers),
+        template_version: payload.template_version,
+        submitted_by: payload.submitted_by,
+        submitted_at: payload.submitted_at,
+      }),
+    });
+  },
+  async updateClientRequestReview(requestId: string, payload: ClientRequestReviewUpdate) {
+    await erpFetch(`${resourcePath('Client Request')}/${encodeURIComponent(requestId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+  },
   async fetchDirectiveById(directiveId: string) {
     const payload = await erpJson(
       `${resourcePath('Directive')}/${encodeURIComponent(directiveId)}`,
@@ -365,7 +583,16 @@ export const realErpClient: ERPClient = {
     try {
       const params = new URLSearchParams({
         filters: JSON.stringify([['project', '=', projectId]]),
-        fields: JSON.stringify(['name', 'project', 'contract_type', 'status', 'modified']),
+        fields: JSON.stringify([
+          'name',
+          'project',
+          'contract_type',
+          'status',
+          'lucien_signed_by',
+          'lucien_signed_at',
+          'lucien_signature_id',
+          'modified',
+        ]),
       });
       const payload = await erpJson(`${resourcePath('Contract')}?${params}`);
       return parseResourceList<ContractRecord>(payload);
@@ -376,11 +603,31 @@ export const realErpClient: ERPClient = {
       throw error;
     }
   },
+  async updateContract(contractId: string, payload: ContractSignatureUpdate) {
+    await erpFetch(`${resourcePath('Contract')}/${encodeURIComponent(contractId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+  },
   async fetchOutputsByProject(projectId: string) {
     try {
       const params = new URLSearchParams({
         filters: JSON.stringify([['project', '=', projectId]]),
-        fields: JSON.stringify(['name', 'project', 'title', 'category', 'status', 'modified']),
+        fields: JSON.stringify([
+          'name',
+          'project',
+          'title',
+          'category',
+          'status',
+          'lucien_decision',
+          'lucien_decision_reason',
+          'lucien_decided_by',
+          'lucien_decided_at',
+          'modified',
+        ]),
       });
       const payload = await erpJson(`${resourcePath('Deliverable')}?${params}`);
       return parseResourceList<OutputRecord>(payload);
@@ -391,6 +638,143 @@ export const realErpClient: ERPClient = {
       throw error;
     }
   },
+  async fetchOutputById(outputId: string) {
+    try {
+      const payload = await erpJson(
+        `${resourcePath('Deliverable')}/${encodeURIComponent(outputId)}`,
+      );
+      return parseResourceItem<OutputRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async updateOutput(outputId: string, payload: OutputDecisionUpdate | OutputStageUpdate) {
+    await erpFetch(`${resourcePath('Deliverable')}/${encodeURIComponent(outputId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+  },
+  async fetchDeliverableRevisionsByProject(projectId: string) {
+    try {
+      const params = new URLSearchParams({
+        filters: JSON.stringify([['project', '=', projectId]]),
+        fields: JSON.stringify([
+          'name',
+          'deliverable',
+          'project',
+          'version',
+          'summary',
+          'created_by',
+          'creation',
+        ]),
+        order_by: 'version desc',
+        limit_page_length: '500',
+      });
+      const payload = await erpJson(`${resourcePath('Deliverable Revision')}?${params}`);
+      return parseResourceList<DeliverableRevisionRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async fetchDeliverableRevisionById(revisionId: string) {
+    try {
+      const payload = await erpJson(
+        `${resourcePath('Deliverable Revision')}/${encodeURIComponent(revisionId)}`,
+      );
+      return parseResourceItem<DeliverableRevisionRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async fetchMilestonesByProject(projectId: string) {
+    try {
+      const params = new URLSearchParams({
+        filters: JSON.stringify([['project', '=', projectId]]),
+        fields: JSON.stringify([
+          'name',
+          'project',
+          'title',
+          'status',
+          'start_date',
+          'milestone_date',
+          'completed_on',
+          'lucien_owner',
+          'idx',
+        ]),
+        order_by: 'milestone_date asc',
+        limit_page_length: '200',
+      });
+      const payload = await erpJson(`${resourcePath('Project Milestone')}?${params}`);
+      return parseResourceList<ProjectMilestoneRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async fetchTasksByProject(projectId: string) {
+    try {
+      const params = new URLSearchParams({
+        filters: JSON.stringify([['project', '=', projectId]]),
+        fields: JSON.stringify([
+          'name',
+          'project',
+          'subject',
+          'status',
+          'exp_start_date',
+          'exp_end_date',
+          'completed_on',
+          'lucien_milestone',
+          'lucien_owner',
+          'lucien_blocked_reason',
+          'depends_on_tasks',
+          'modified',
+        ]),
+        order_by: 'exp_end_date asc',
+        limit_page_length: '500',
+      });
+      const payload = await erpJson(`${resourcePath('Task')}?${params}`);
+      return parseResourceList<TaskRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async fetchTaskById(taskId: string) {
+    try {
+      const payload = await erpJson(`${resourcePath('Task')}/${encodeURIComponent(taskId)}`);
+      return parseResourceItem<TaskRecord>(payload);
+    } catch (error) {
+      if (error instanceof ERPClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async updateTask(taskId: string, payload: TaskUpdate) {
+    await erpFetch(`${resourcePath('Task')}/${encodeURIComponent(taskId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+  },
 };
 
 const mockClientRequests: ClientRequestRecord[] = [
@@ -403,6 +787,7 @@ const mockClientRequests: ClientRequestRecord[] = [
     required: true,
     template_key: 'diag_intake_core_v1',
     visibility: 'client_visible',
+    due_date: '2026-02-20',
   },
   {
     name: 'REQ-2026-0002',
@@ -413,10 +798,132 @@ const mockClientRequests: ClientRequestRecord[] = [
     required: false,
     template_key: 'diag_evidence_upload_v1',
     visibility: 'client_visible',
+    due_date: '2026-03-06',
+    review_comment: 'Evidence pack is missing the Q4 access logs.',
+    reviewed_by: 'adam@lucien.technology',
+    reviewed_at: '2026-02-03T09:30:00.000Z',
   },
 ];
 
-const mockFiles: FileRecord[] = [];
+const mockFiles: FileRecord[] = [
+  {
+    name: 'FILE-MOCK-0001',
+    file_name: 'access-review-q3.csv',
+    file_url: '/private/files/access-review-q3.csv',
+    is_private: true,
+    attached_to_doctype: 'Client Request',
+    attached_to_name: 'REQ-2026-0002',
+  },
+  {
+    name: 'FILE-MOCK-0101',
+    file_name: 'risk-baseline.pdf',
+    file_url: '/private/files/risk-baseline-v1.pdf',
+    is_private: true,
+    attached_to_doctype: 'Deliverable Revision',
+    attached_to_name: 'REV-2026-0001',
+    file_size: 482113,
+    creation: '2026-01-20T10:12:00.000Z',
+  },
+  {
+    name: 'FILE-MOCK-0102',
+    file_name: 'risk-baseline.pdf',
+    file_url: '/private/files/risk-baseline-v2.pdf',
+    is_private: true,
+    attached_to_doctype: 'Deliverable Revision',
+    attached_to_name: 'REV-2026-0002',
+    file_size: 527904,
+    creation: '2026-01-29T08:40:00.000Z',
+  },
+  {
+    name: 'FILE-MOCK-0103',
+    file_name: 'vendor-risk-register.csv',
+    file_url: '/private/files/vendor-risk-register.csv',
+    is_private: true,
+    attached_to_doctype: 'Deliverable Revision',
+    attached_to_name: 'REV-2026-0002',
+    file_size: 18240,
+    creation: '2026-01-29T08:41:00.000Z',
+  },
+  {
+    name: 'FILE-MOCK-0104',
+    file_name: 'executive-summary.md',
+    file_url: '/private/files/executive-summary.md',
+    is_private: true,
+    attached_to_doctype: 'Deliverable Revision',
+    attached_to_name: 'REV-2026-0002',
+    file_size: 2140,
+    creation: '2026-01-29T08:42:00.000Z',
+  },
+  {
+    name: 'FILE-MOCK-0105',
+    file_name: 'sow-annex-a.md',
+    file_url: '/private/files/sow-annex-a.md',
+    is_private: true,
+    attached_to_doctype: 'Contract',
+    attached_to_name: 'CON-2026-0003',
+    file_size: 412,
+    creation: '2026-02-01T09:00:00.000Z',
+  },
+];
+
+const mockDeliverableRevisions: DeliverableRevisionRecord[] = [
+  {
+    name: 'REV-2026-0001',
+    deliverable: 'OUT-2026-0001',
+    project: 'PRJ-001',
+    version: 1,
+    summary: 'Initial risk baseline for review.',
+    created_by: 'adam@lucien.technology',
+    creation: '2026-01-20T10:12:00.000Z',
+  },
+  {
+    name: 'REV-2026-0002',
+    deliverable: 'OUT-2026-0001',
+    project: 'PRJ-001',
+    version: 2,
+    summary: 'Rescored third-party exposure and added the vendor risk register.',
+    created_by: 'adam@lucien.technology',
+    creation: '2026-01-29T08:40:00.000Z',
+  },
+];
+
+const mockFileContents = new Map<string, Blob>([
+  [
+    'FILE-MOCK-0103',
+    new Blob(
+      [
+        'vendor,tier,exposure,owner\n',
+        'Northwind Hosting,1,high,IT Ops\n',
+        'Contoso Payroll,2,medium,Finance\n',
+        '"Fabrikam, Inc.",3,low,Procurement\n',
+      ],
+      { type: 'text/csv' },
+    ),
+  ],
+  [
+    'FILE-MOCK-0104',
+    new Blob(
+      [
+        '# Executive summary\n\n',
+        'Third-party exposure is **concentrated** in two tier-1 vendors.\n\n',
+        '- Rotate hosting credentials\n- Review payroll data flows\n',
+      ],
+      { type: 'text/markdown' },
+    ),
+  ],
+  [
+    'FILE-MOCK-0105',
+    new Blob(
+      [
+        '# Annex A: Scope of work\n\n',
+        '1. Vendor risk baseline across tier-1 and tier-2 suppliers.\n',
+        '2. Protocol blueprint with milestone plan and owners.\n',
+        '3. Two review cycles per deliverable.\n',
+      ],
+      { type: 'text/markdown' },
+    ),
+  ],
+]);
 
 const mockProjects: ProjectRecord[] = [
   {
@@ -524,6 +1031,125 @@ const mockOutputs: OutputRecord[] = [
   },
 ];
 
+const mockMilestones: ProjectMilestoneRecord[] = [
+  {
+    name: 'MS-2026-0001',
+    project: 'PRJ-001',
+    title: 'Protocol kickoff',
+    status: 'Completed',
+    start_date: '2026-01-20',
+    milestone_date: '2026-01-27',
+    completed_on: '2026-01-27',
+    lucien_owner: 'operator',
+    idx: 1,
+  },
+  {
+    name: 'MS-2026-0002',
+    project: 'PRJ-001',
+    title: 'Strategy design',
+    status: 'Open',
+    start_date: '2026-01-28',
+    milestone_date: '2026-02-20',
+    completed_on: null,
+    lucien_owner: 'operator',
+    idx: 2,
+  },
+  {
+    name: 'MS-2026-0003',
+    project: 'PRJ-001',
+    title: 'Client validation',
+    status: 'Open',
+    start_date: '2026-02-23',
+    milestone_date: '2026-03-13',
+    completed_on: null,
+    lucien_owner: 'client',
+    idx: 3,
+  },
+  {
+    name: 'MS-2026-0004',
+    project: 'PRJ-001',
+    title: 'Operational go-live',
+    status: 'Open',
+    start_date: '2026-03-16',
+    milestone_date: '2026-04-03',
+    completed_on: null,
+    lucien_owner: 'operator',
+    idx: 4,
+  },
+];
+
+const mockTasks: TaskRecord[] = [
+  {
+    name: 'TASK-2026-0001',
+    project: 'PRJ-001',
+    subject: 'Kickoff workshop',
+    status: 'Completed',
+    exp_start_date: '2026-01-20',
+    exp_end_date: '2026-01-27',
+    completed_on: '2026-01-27',
+    lucien_milestone: 'MS-2026-0001',
+    lucien_owner: 'operator',
+    lucien_blocked_reason: null,
+    modified: '2026-01-27',
+  },
+  {
+    name: 'TASK-2026-0002',
+    project: 'PRJ-001',
+    subject: 'Finalize protocol spec',
+    status: 'Working',
+    exp_start_date: '2026-01-28',
+    exp_end_date: '2026-02-13',
+    completed_on: null,
+    lucien_milestone: 'MS-2026-0002',
+    lucien_owner: 'operator',
+    lucien_blocked_reason: null,
+    depends_on_tasks: 'TASK-2026-0001',
+    modified: '2026-02-02',
+  },
+  {
+    name: 'TASK-2026-0003',
+    project: 'PRJ-001',
+    subject: 'Threat model review',
+    status: 'Open',
+    exp_start_date: '2026-02-09',
+    exp_end_date: '2026-02-20',
+    completed_on: null,
+    lucien_milestone: 'MS-2026-0002',
+    lucien_owner: 'operator',
+    lucien_blocked_reason: 'Waiting on diagnostic intake answers.',
+    depends_on_tasks: 'TASK-2026-0002',
+    modified: '2026-02-02',
+  },
+  {
+    name: 'TASK-2026-0004',
+    project: 'PRJ-001',
+    subject: 'Client review & approval',
+    status: 'Open',
+    exp_start_date: '2026-02-23',
+    exp_end_date: '2026-03-13',
+    completed_on: null,
+    lucien_milestone: 'MS-2026-0003',
+    lucien_owner: 'client',
+    lucien_blocked_reason: null,
+    depends_on_tasks: 'TASK-2026-0002,TASK-2026-0003',
+    modified: '2026-02-02',
+  },
+  {
+    name: 'TASK-2026-0005',
+    project: 'PRJ-001',
+    subject: 'Operational go-live',
+    status: 'Open',
+    exp_start_date: '2026-03-16',
+    exp_end_date: '2026-04-03',
+    completed_on: null,
+    lucien_milestone: 'MS-2026-0004',
+    lucien_owner: 'operator',
+    lucien_blocked_reason: null,
+    depends_on_tasks: 'TASK-2026-0004',
+    modified: '2026-02-02',
+  },
+];
+
 const toTimestamp = (value?: string) => {
   if (!value) return 0;
   const date = new Date(value);
@@ -543,8 +1169,44 @@ export const mockErpClient: ERPClient = {
   async fetchClientRequestById(requestId: string) {
     return mockClientRequests.find((request) => request.name === requestId) ?? null;
   },
-  async fetchFileAttachmentsForRequest(requestId: string) {
-    return mockFiles.filter((file) => file.attached_to_name === requestId);
+  async createClientRequest(payload: ClientRequestCreate) {
+    const year = new Date().getFullYear();
+    const sequence =
+      mockClientRequests.reduce((max, request) => {
+        const match = request.name.match(/^REQ-(\d{4})-(\d+)$/);
+        return match && Number(match[1]) === year ? Math.max(max, Number(match[2])) : max;
+      }, 0) + 1;
+    const record: ClientRequestRecord = {
+      ...payload,
+      name: `REQ-${year}-${String(sequence).padStart(4, '0')}`,
+    };
+
+    mockClientRequests.push(record);
+    return record;
+  },
+  async deleteClientRequest(requestId: string) {
+    const index = mockClientRequests.findIndex((request) => request.name === requestId);
+    if (index >= 0) {
+      mockClientRequests.splice(index, 1);
+    }
+  },
+  async fetchFileAttachments(doctype: string, docnames: string[]) {
+    return mockFiles.filter(
+      (file) =>
+        file.attached_to_doctype === doctype && docnames.includes(file.attached_to_name ?? ''),
+    );
+  },
+  async fetchFileById(fileId: string) {
+    return mockFiles.find((file) => file.name === fileId) ?? null;
+  },
+  async downloadFile(file: FileRecord) {
+    const content = mockFileContents.get(file.name) ?? new Blob([`Mock file ${file.file_name}\n`]);
+    return new Response(content, {
+      headers: {
+        'Content-Type': content.type || 'application/octet-stream',
+        'Content-Length': String(content.size),
+      },
+    });
   },
   async uploadFile(payload: UploadFileRequest) {
     const mockFile: FileRecord = {
@@ -552,19 +1214,48 @@ export const mockErpClient: ERPClient = {
       file_name: payload.file.name,
       file_url: `/files/${payload.file.name}`,
       is_private: false,
+      attached_to_doctype: payload.doctype,
       attached_to_name: payload.docname,
+      file_size: payload.file.size,
+      creation: new Date().toISOString(),
     };
 
     mockFiles.push(mockFile);
+    mockFileContents.set(mockFile.name, new Blob([await payload.file.arrayBuffer()]));
 
     return { file: mockFile };
   },
+  async deleteFile(fileId: string) {
+    const index = mockFiles.findIndex((file) => file.name === fileId);
+    if (index >= 0) {
+      mockFiles.splice(index, 1);
+    }
+    mockFileContents.delete(fileId);
+  },
   async updateClientRequestStatus(requestId: string, status: string) {
     const request = mockClientRequests.find((entry) => entry.name === requestId);
     if (request) {
       request.status = status;
     }
   },
+  async updateClientRequestAnswers(requestId: string, payload: ClientRequestAnswersUpdate) {
+    const request = mockClientRequests.find((entry) => entry.name === requestId);
+    if (request) {
+      request.answers = JSON.stringify(payload.answers);
+      request.template_version = payload.template_version;
+      request.submitted_by = payload.submitted_by;
+      request.submitted_at = payload.submitted_at;
+    }
+  },
+  async updateClientRequestReview(requestId: string, payload: ClientRequestReviewUpdate) {
+    const request = mockClientRequests.find((entry) => entry.name === requestId);
+    if (request) {
+      request.status = payload.status;
+      request.review_comment = payload.review_comment;
+      request.reviewed_by = payload.reviewed_by;
+      request.reviewed_at = payload.reviewed_at;
+    }
+  },
   async fetchDirectiveById(directiveId: string) {
     return mockDirectives.find((directive) => directive.name === directiveId) ?? null;
   },
@@ -597,9 +1288,50 @@ export const mockErpClient: ERPClient = {
   async fetchContractsByProject(projectId: string) {
     return mockContracts.filter((contract) => contract.project === projectId);
   },
+  async updateContract(contractId: string, payload: ContractSignatureUpdate) {
+    const contract = mockContracts.find((entry) => entry.name === contractId);
+    if (contract) {
+      Object.assign(contract, payload, { modified: new Date().toISOString() });
+    }
+  },
   async fetchOutputsByProject(projectId: string) {
     return mockOutputs.filter((output) => output.project === projectId);
   },
+  async fetchOutputById(outputId: string) {
+    return mockOutputs.find((output) => output.name === outputId) ?? null;
+  },
+  async updateOutput(outputId: string, payload: OutputDecisionUpdate | OutputStageUpdate) {
+    const output = mockOutputs.find((entry) => entry.name === outputId);
+    if (output) {
+      Object.assign(output, payload, { modified: new Date().toISOString() });
+    }
+  },
+  async fetchDeliverableRevisionsByProject(projectId: string) {
+    return mockDeliverableRevisions
+      .filter((revision) => revision.project === projectId)
+      .sort((a, b) => b.version - a.version);
+  },
+  async fetchDeliverableRevisionById(revisionId: string) {
+    return mockDeliverableRevisions.find((revision) => revision.name === revisionId) ?? null;
+  },
+  async fetchMilestonesByProject(projectId: string) {
+    return mockMilestones.filter((milestone) => milestone.project === projectId);
+  },
+  async fetchTasksByProject(projectId: string) {
+    return mockTasks.filter((task) => task.project === projectId);
+  },
+  async fetchTaskById(taskId: string) {
+    return mockTasks.find((task) => task.name === taskId) ?? null;
+  },
+  async updateTask(taskId: string, payload: TaskUpdate) {
+    const task = mockTasks.find((entry) => entry.name === taskId);
+    if (task) {
+      task.status = payload.status;
+      task.completed_on = payload.completed_on;
+      task.lucien_blocked_reason = payload.lucien_blocked_reason;
+      task.modified = new Date().toISOString();
+    }
+  },
 };
 
 export const erpClient: ERPClient = isErpConfigured() ? realErpClient : mockErpClient;
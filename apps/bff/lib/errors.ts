@@ -2,7 +2,19 @@ import { NextResponse } from 'next/server';
 
 import { mergeSecurityHeaders } from './response';
 
-export type GatewayErrorStatus = 400 | 401 | 403 | 404 | 411 | 413 | 429 | 500 | 501 | 502;
+export type GatewayErrorStatus =
+  | 400
+  | 401
+  | 403
+  | 404
+  | 409
+  | 411
+  | 413
+  | 415
+  | 429
+  | 500
+  | 501
+  | 502;
 
 export const errorResponse = (
   status: GatewayErrorStatus,
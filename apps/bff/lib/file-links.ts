@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import 'server-only';
+
+import { getJwtSecret } from './config';
+
+export type FileLinkCheck = 'valid' | 'expired' | 'invalid';
+
+const FILE_LINK_SECRET = process.env.FILE_LINK_SECRET?.trim();
+const rawTtl = Number.parseInt(process.env.FILE_LINK_TTL_SECONDS ?? '300', 10);
+const FILE_LINK_TTL_SECONDS = Number.isFinite(rawTtl) && rawTtl > 0 ? rawTtl : 300;
+
+const signFileLink = (engagementId: string, fileId: string, expires: number) => {
+  return createHmac('sha256', FILE_LINK_SECRET || getJwtSecret())
+    .update(`${engagementId}\n${fileId}\n${expires}`)
+    .digest('base64url');
+};
+
+export const buildFileUrl = (engagementId: string, fileId: string) => {
+  const expires = Math.floor(Date.now() / 1000) + FILE_LINK_TTL_SECONDS;
+  const params = new URLSearchParams({
+    expires: String(expires),
+    sig: signFileLink(engagementId, fileId, expires),
+  });
+  return `/api/engagements/${encodeURIComponent(engagementId)}/files/${encodeURIComponent(fileId)}?${params}`;
+};
+
+export const verifyFileLink = (
+  engagementId: string,
+  fileId: string,
+  expires: string | null,
+  signature: string,
+): FileLinkCheck => {
+  const expiresAt = Number(expires);
+  if (!expires || !Number.isInteger(expiresAt)) return 'invalid';
+
+  const expected = Buffer.from(signFileLink(engagementId, fileId, expiresAt));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return 'invalid';
+  }
+
+  return expiresAt * 1000 > Date.now() ? 'valid' : 'expired';
+};
@@ -0,0 +1,198 @@
+import { resolveIntelFieldStates } from '@lucien/contracts';
+
+import 'server-only';
+
+import type {
+  IntelAnswerErrorDTO,
+  IntelAnswers,
+  IntelField,
+  IntelFieldState,
+} from '@lucien/contracts';
+
+export type IntelAnswerErrorCode = IntelAnswerErrorDTO['code'];
+
+export type IntelAnswerError = IntelAnswerErrorDTO;
+
+export type IntelAnswerValidation = {
+  answers: IntelAnswers;
+  errors: IntelAnswerError[];
+};
+
+const MAX_TEXT_LENGTH = 20_000;
+const MAX_SHORT_TEXT_LENGTH = 2_048;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const filterFieldsByRole = (fields: IntelField[], role: string | null): IntelField[] => {
+  if (role !== 'CLIENT') return fields;
+  return fields.filter((field) => !field.visibility || field.visibility === 'client_visible');
+};
+
+export const parseStoredAnswers = (raw: unknown): IntelAnswers => {
+  if (!raw) return {};
+  if (typeof raw === 'object' && !Array.isArray(raw)) return raw as IntelAnswers;
+  if (typeof raw !== 'string') return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as IntelAnswers)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+export const toAnswerObject = (input: unknown): IntelAnswers => {
+  return input && typeof input === 'object' && !Array.isArray(input) ? (input as IntelAnswers) : {};
+};
+
+export const pickAnswersForFields = (fields: IntelField[], answers: IntelAnswers) => {
+  return fields.reduce<IntelAnswers>((acc, field) => {
+    if (field.key in answers) {
+      acc[field.key] = answers[field.key];
+    }
+    return acc;
+  }, {});
+};
+
+const isEmpty = (value: unknown) => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+export const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const normalizeValue = (
+  field: IntelField,
+  value: unknown,
+): { value: unknown; error: IntelAnswerError | null } => {
+  const fail = (code: IntelAnswerErrorCode, reason: string) => ({
+    value: null,
+    error: { field: field.key, code, reason },
+  });
+  const optionValues = new Set((field.options ?? []).map((option) => option.value));
+
+  switch (field.type) {
+    case 'boolean':
+      if (typeof value !== 'boolean') return fail('invalid_type', 'Expected a boolean.');
+      return { value, error: null };
+    case 'number': {
+      const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        return fail('invalid_type', 'Expected a number.');
+      }
+      return { value: parsed, error: null };
+    }
+    case 'select':
+      if (typeof value !== 'string') return fail('invalid_type', 'Expected a string.');
+      if (!optionValues.has(value)) return fail('invalid_option', 'Unknown option.');
+      return { value, error: null };
+    case 'multiselect':
+      if (!Array.isArray(value) || !value.every((entry) => typeof entry === 'string')) {
+        return fail('invalid_type', 'Expected a list of strings.');
+      }
+      if (!value.every((entry) => optionValues.has(entry))) {
+        return fail('invalid_option', 'Unknown option.');
+      }
+      return { value: Array.from(new Set(value)), error: null };
+    default:
+      break;
+  }
+
+  if (typeof value !== 'string') return fail('invalid_type', 'Expected a string.');
+  const trimmed = value.trim();
+
+  switch (field.type) {
+    case 'date':
+      if (!isValidDate(trimmed)) return fail('invalid_format', 'Expected a YYYY-MM-DD date.');
+      return { value: trimmed, error: null };
+    case 'email':
+      if (trimmed.length > MAX_SHORT_TEXT_LENGTH || !EMAIL_PATTERN.test(trimmed)) {
+        return fail('invalid_format', 'Expected an email address.');
+      }
+      return { value: trimmed.toLowerCase(), error: null };
+    case 'url':
+      if (trimmed.length > MAX_SHORT_TEXT_LENGTH || !isValidUrl(trimmed)) {
+        return fail('invalid_format', 'Expected an http(s) URL.');
+      }
+      return { value: trimmed, error: null };
+    case 'text':
+      if (trimmed.length > MAX_SHORT_TEXT_LENGTH) return fail('too_long', 'Value too long.');
+      return { value: trimmed, error: null };
+    default:
+      if (trimmed.length > MAX_TEXT_LENGTH) return fail('too_long', 'Value too long.');
+      return { value: trimmed, error: null };
+  }
+};
+
+export const validateIntelAnswers = (
+  fields: IntelField[],
+  input: unknown,
+  options: { attachmentCount: number; states?: Record<string, IntelFieldState> },
+): IntelAnswerValidation => {
+  const errors: IntelAnswerError[] = [];
+  const answers: IntelAnswers = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return {
+      answers,
+      errors: [{ field: '*', code: 'invalid_type', reason: 'Answers must be an object.' }],
+    };
+  }
+
+  const submitted = input as IntelAnswers;
+  const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+
+  Object.keys(submitted).forEach((key) => {
+    if (!fieldsByKey.has(key)) {
+      errors.push({ field: key, code: 'unknown_field', reason: 'Field not in template.' });
+    }
+  });
+
+  const states = options.states ?? resolveIntelFieldStates(fields, submitted);
+
+  fields.forEach((field) => {
+    const { visible, required } = states[field.key];
+    if (!visible) return;
+
+    if (field.type === 'file') {
+      if (required && options.attachmentCount === 0) {
+        errors.push({ field: field.key, code: 'required', reason: 'Attachment required.' });
+      }
+      return;
+    }
+
+    const raw = submitted[field.key];
+    if (isEmpty(raw) || (field.type === 'boolean' && required && raw === false)) {
+      if (required) {
+        errors.push({ field: field.key, code: 'required', reason: 'Required field.' });
+      }
+      return;
+    }
+
+    const { value, error } = normalizeValue(field, raw);
+    if (error) {
+      errors.push(error);
+      return;
+    }
+    answers[field.key] = value;
+  });
+
+  return { answers, errors };
+};
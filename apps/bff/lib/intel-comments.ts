@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+
+import 'server-only';
+
+import { getDb } from './db';
+
+import type { IntelCommentDTO } from '@lucien/contracts';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const mapComment = (row: Record<string, unknown>): IntelCommentDTO => {
+  return {
+    id: String(row.id),
+    requestId: String(row.request_id),
+    fieldKey: row.field_key ? String(row.field_key) : null,
+    body: String(row.body),
+    authorId: String(row.author_id),
+    authorRole: row.author_role === 'OPERATOR' ? 'OPERATOR' : 'CLIENT',
+    createdAt: String(row.created_at),
+  };
+};
+
+const isVisible = (comment: IntelCommentDTO, fieldKeys: Set<string> | null) => {
+  return !comment.fieldKey || !fieldKeys || fieldKeys.has(comment.fieldKey);
+};
+
+export const listIntelComments = (
+  requestId: string,
+  fieldKeys: Set<string> | null,
+): IntelCommentDTO[] => {
+  const rows = db
+    .prepare('SELECT * FROM intel_comments WHERE request_id = ? ORDER BY created_at ASC, id ASC')
+    .all(requestId) as Record<string, unknown>[];
+  return rows.map(mapComment).filter((comment) => isVisible(comment, fieldKeys));
+};
+
+export const createIntelComment = (payload: {
+  engagementId: string;
+  requestId: string;
+  fieldKey: string | null;
+  body: string;
+  authorId: string;
+  authorRole: IntelCommentDTO['authorRole'];
+}): IntelCommentDTO => {
+  const comment: IntelCommentDTO = {
+    id: randomUUID(),
+    requestId: payload.requestId,
+    fieldKey: payload.fieldKey,
+    body: payload.body,
+    authorId: payload.authorId,
+    authorRole: payload.authorRole,
+    createdAt: now(),
+  };
+
+  db.prepare(
+    `INSERT INTO intel_comments
+      (id, engagement_id, request_id, field_key, body, author_id, author_role, created_at)
+     VALUES
+      (?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    comment.id,
+    payload.engagementId,
+    comment.requestId,
+    comment.fieldKey,
+    comment.body,
+    comment.authorId,
+    comment.authorRole,
+    comment.createdAt,
+  );
+
+  return comment;
+};
+
+export const getIntelCommentsReadAt = (userId: string, requestId: string): string | null => {
+  const row = db
+    .prepare('SELECT last_read_at FROM intel_comment_reads WHERE user_id = ? AND request_id = ?')
+    .get(userId, requestId) as { last_read_at: string } | undefined;
+  return row?.last_read_at ?? null;
+};
+
+export const markIntelCommentsRead = (userId: string, requestId: string, readAt = now()) => {
+  db.prepare(
+    `INSERT INTO intel_comment_reads (user_id, request_id, last_read_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT (user_id, request_id)
+     DO UPDATE SET last_read_at = MAX(last_read_at, excluded.last_read_at)`,
+  ).run(userId, requestId, readAt);
+};
+
+export const countUnreadIntelComments = (
+  userId: string,
+  requestId: string,
+  fieldKeys: Set<string> | null,
+) => {
+  const lastReadAt = getIntelCommentsReadAt(userId, requestId);
+  return listIntelComments(requestId, fieldKeys).filter(
+    (comment) => comment.authorId !== userId && (!lastReadAt || comment.createdAt > lastReadAt),
+  ).length;
+};
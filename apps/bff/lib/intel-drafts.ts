@@ -0,0 +1,70 @@
+import 'server-only';
+
+import { getDb } from './db';
+import { parseStoredAnswers } from './intel-answers';
+
+import type { IntelAnswers } from '@lucien/contracts';
+
+export type IntelDraft = {
+  userId: string;
+  requestId: string;
+  engagementId: string;
+  answers: IntelAnswers;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const DRAFTABLE_STATUSES = new Set(['pending', 'needs_revision']);
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const mapDraft = (row: Record<string, unknown>): IntelDraft => {
+  return {
+    userId: String(row.user_id),
+    requestId: String(row.request_id),
+    engagementId: String(row.engagement_id),
+    answers: parseStoredAnswers(row.answers),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+};
+
+export const getIntelDraft = (userId: string, requestId: string): IntelDraft | null => {
+  const row = db
+    .prepare('SELECT * FROM intel_drafts WHERE user_id = ? AND request_id = ? LIMIT 1')
+    .get(userId, requestId) as Record<string, unknown> | undefined;
+  return row ? mapDraft(row) : null;
+};
+
+export const saveIntelDraft = (payload: {
+  userId: string;
+  requestId: string;
+  engagementId: string;
+  answers: IntelAnswers;
+}): IntelDraft => {
+  const timestamp = now();
+
+  db.prepare(
+    `INSERT INTO intel_drafts
+      (user_id, request_id, engagement_id, answers, created_at, updated_at)
+     VALUES
+      (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (user_id, request_id)
+     DO UPDATE SET answers = excluded.answers, updated_at = excluded.updated_at`,
+  ).run(
+    payload.userId,
+    payload.requestId,
+    payload.engagementId,
+    JSON.stringify(payload.answers),
+    timestamp,
+    timestamp,
+  );
+
+  return getIntelDraft(payload.userId, payload.requestId) as IntelDraft;
+};
+
+export const deleteIntelDraftsForRequest = (requestId: string) => {
+  db.prepare('DELETE FROM intel_drafts WHERE request_id = ?').run(requestId);
+};
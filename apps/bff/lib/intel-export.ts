@@ -0,0 +1,256 @@
+import { createHash, createHmac } from 'crypto';
+
+import 'server-only';
+
+import { getJwtSecret } from './config';
+import { erpClient } from './erp-client';
+import { filterFieldsByRole, parseStoredAnswers, pickAnswersForFields } from './intel-answers';
+import { getIntelTemplate } from './intel-template-store';
+
+import type { ClientRequestRecord, FileRecord } from './erp-client';
+import type { ZipEntry } from './zip';
+import type { IntelAnswers, IntelField, IntelTemplate } from '@lucien/contracts';
+
+export type IntelExportRequest = {
+  record: ClientRequestRecord;
+  template: IntelTemplate | null;
+  fields: IntelField[];
+  answers: IntelAnswers;
+  files: FileRecord[];
+};
+
+type ExportedFile = {
+  path: string;
+  size: number;
+  sha256: string;
+  requestId?: string;
+  fileId?: string;
+};
+
+type FailedFile = {
+  requestId: string;
+  fileId: string;
+  name: string;
+};
+
+const EXPORT_SIGNING_SECRET = process.env.INTEL_EXPORT_SIGNING_SECRET?.trim();
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const safeSegment = (value: string) => {
+  const cleaned = value
+    .normalize('NFKC')
+    .replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_')
+    .replace(/^\.+/, '_')
+    .trim();
+  return cleaned.slice(0, 120) || 'file';
+};
+
+const formatAnswer = (field: IntelField, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const optionLabel = (entry: unknown) =>
+    field.options?.find((option) => option.value === entry)?.label ?? String(entry);
+  if (Array.isArray(value)) return value.length ? value.map(optionLabel).join(', ') : '—';
+  return optionLabel(value);
+};
+
+export const loadIntelExportRequests = async (
+  engagementId: string,
+  role: string | null,
+): Promise<IntelExportRequest[]> => {
+  const records = await erpClient.fetchClientRequestsByProject(engagementId);
+  const visible = records
+    .filter((record) => role !== 'CLIENT' || record.visibility === 'client_visible')
+    .sort((a, b) => a.template_key.localeCompare(b.template_key) || a.name.localeCompare(b.name));
+
+  return Promise.all(
+    visible.map(async (record) => {
+      const template = getIntelTemplate(record.template_key, record.template_version);
+      const fields = template ? filterFieldsByRole(template.fields, role) : [];
+      return {
+        record,
+        template,
+        fields,
+        answers: pickAnswersForFields(fields, parseStoredAnswers(record.answers)),
+        files: await erpClient.fetchFileAttachments('Client Request', [record.name]),
+      };
+    }),
+  );
+};
+
+const renderSummary = (
+  engagementId: string,
+  generatedAt: string,
+  requests: IntelExportRequest[],
+  files: ExportedFile[],
+  failed: FailedFile[],
+) => {
+  const groups = new Map<string, IntelExportRequest[]>();
+  requests.forEach((request) => {
+    const group = groups.get(request.record.template_key) ?? [];
+    group.push(request);
+    groups.set(request.record.template_key, group);
+  });
+
+  const sections = Array.from(groups.entries()).map(([templateKey, entries]) => {
+    const templateName = entries[0].template?.name ?? templateKey;
+    const items = entries.map(({ record, template, fields, answers }) => {
+      const rows = fields
+        .filter((field) => field.type !== 'file')
+        .map(
+          (field) =>
+            `<tr><th>${escapeHtml(field.label)}</th><td>${escapeHtml(formatAnswer(field, answers[field.key]))}</td></tr>`,
+        )
+        .join('');
+      const attachments = files
+        .filter((file) => file.requestId === record.name)
+        .map(
+          (file) =>
+            `<li><code>${escapeHtml(file.path)}</code> · ${file.size} bytes · <code>${file.sha256}</code></li>`,
+        )
+        .join('');
+      const missing = failed
+        .filter((file) => file.requestId === record.name)
+        .map((file) => `<li><code>${escapeHtml(file.name)}</code> · not exported</li>`)
+        .join('');
+
+      return `<article>
+<h3>${escapeHtml(record.title)} <small>${escapeHtml(record.name)}</small></h3>
+<p class="meta">Status: ${escapeHtml(record.status)} · Template v${template?.version ?? '—'}${
+        record.submitted_at ? ` · Submitted ${escapeHtml(record.submitted_at)}` : ''
+      }${record.submitted_by ? ` by ${escapeHtml(record.submitted_by)}` : ''}${
+        record.due_date ? ` · Due ${escapeHtml(record.due_date)}` : ''
+      }</p>
+${record.description ? `<p>${escapeHtml(record.description)}</p>` : ''}
+${rows ? `<table>${rows}</table>` : '<p class="meta">No answers.</p>'}
+${attachments || missing ? `<h4>Attachments</h4><ul>${attachments}${missing}</ul>` : ''}
+${record.review_comment ? `<p class="meta">Review comment: ${escapeHtml(record.review_comment)}</p>` : ''}
+</article>`;
+    });
+
+    return `<section>
+<h2>${escapeHtml(templateName)} <small>${escapeHtml(templateKey)}</small></h2>
+${items.join('\n')}
+</section>`;
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Intel submissions — ${escapeHtml(engagementId)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+small, .meta { color: #666; font-weight: normal; }
+.warning { color: #b00020; font-weight: bold; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { width: 35%; background: #f6f6f6; }
+article { border-top: 1px solid #eee; padding-top: 0.75rem; margin-bottom: 1.5rem; }
+code { font-size: 0.8em; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>Intel submissions — ${escapeHtml(engagementId)}</h1>
+<p class="meta">Generated ${escapeHtml(generatedAt)} · ${requests.length} request(s) · ${files.length} attachment(s)</p>
+${failed.length ? `<p class="warning">Incomplete: ${failed.length} attachment(s) could not be downloaded from ERP.</p>` : ''}
+${sections.join('\n') || '<p>No intel requests.</p>'}
+</body>
+</html>
+`;
+};
+
+export async function* buildIntelExportEntries(payload: {
+  engagementId: string;
+  role: string | null;
+  uid: string;
+  requests: IntelExportRequest[];
+}): AsyncGenerator<ZipEntry> {
+  const generatedAt = new Date();
+  const files: ExportedFile[] = [];
+  const failed: FailedFile[] = [];
+  const usedPaths = new Set<string>();
+
+  for (const request of payload.requests) {
+    for (const file of request.files) {
+      // The response is already streaming, so a failed download is recorded in
+      // the manifest rather than cutting the archive off.
+      let data: Uint8Array;
+      try {
+        const response = await erpClient.downloadFile(file);
+        data = new Uint8Array(await response.arrayBuffer());
+      } catch (error) {
+        console.error('Intel export download failed.', file.name, error);
+        failed.push({ requestId: request.record.name, fileId: file.name, name: file.file_name });
+        continue;
+      }
+      const base = `attachments/${safeSegment(request.record.name)}/${safeSegment(file.file_name)}`;
+      let path = base;
+      for (let index = 2; usedPaths.has(path); index += 1) {
+        path = base.replace(/(\.[^./]*)?$/, (extension) => `-${index}${extension}`);
+      }
+      usedPaths.add(path);
+
+      files.push({
+        path,
+        size: data.byteLength,
+        sha256: sha256(data),
+        requestId: request.record.name,
+        fileId: file.name,
+      });
+      yield { name: path, data, modifiedAt: generatedAt };
+    }
+  }
+
+  const summary = new TextEncoder().encode(
+    renderSummary(payload.engagementId, generatedAt.toISOString(), payload.requests, files, failed),
+  );
+  yield { name: 'summary.html', data: summary, modifiedAt: generatedAt };
+
+  const manifest = new TextEncoder().encode(
+    JSON.stringify(
+      {
+        engagementId: payload.engagementId,
+        generatedAt: generatedAt.toISOString(),
+        generatedBy: payload.uid,
+        role: payload.role,
+        complete: failed.length === 0,
+        requests: payload.requests.map(({ record, template }) => ({
+          id: record.name,
+          title: record.title,
+          status: record.status,
+          templateKey: record.template_key,
+          templateVersion: template?.version ?? null,
+          submittedAt: record.submitted_at ?? null,
+        })),
+        files: [
+          ...files,
+          { path: 'summary.html', size: summary.byteLength, sha256: sha256(summary) },
+        ],
+        failedFiles: failed,
+      },
+      null,
+      2,
+    ),
+  );
+  yield { name: 'manifest.json', data: manifest, modifiedAt: generatedAt };
+
+  const signature = createHmac('sha256', EXPORT_SIGNING_SECRET || getJwtSecret())
+    .update(manifest)
+    .digest('hex');
+  yield {
+    name: 'manifest.json.sig',
+    data: new TextEncoder().encode(`hmac-sha256 ${signature}\n`),
+    modifiedAt: generatedAt,
+  };
+}
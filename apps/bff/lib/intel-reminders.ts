@@ -0,0 +1,206 @@
+import { intelDaysPastDue, isIntelRequestOpen } from '@lucien/contracts';
+
+import 'server-only';
+
+import { listActiveUsers } from './auth-store';
+import { getDb } from './db';
+import { sendIntelReminderDigest } from './email';
+import { erpClient } from './erp-client';
+
+import type { StoredUser } from './auth-store';
+import type { IntelReminderDigestItem } from './email';
+
+export type IntelReminderKind = 'reminder' | 'escalation';
+
+export type IntelReminderDigest = {
+  to: string;
+  kind: IntelReminderKind;
+  items: IntelReminderDigestItem[];
+  status: 'sent' | 'skipped' | 'failed' | 'planned';
+};
+
+export type IntelReminderRunResult = {
+  ranAt: string;
+  dryRun: boolean;
+  offsets: number[];
+  escalateAfterDays: number;
+  checked: number;
+  due: number;
+  digests: IntelReminderDigest[];
+};
+
+type DueReminder = IntelReminderDigestItem & { offset: number };
+
+const DEFAULT_OFFSETS = [-3, -1, 0, 1, 3, 7];
+const DEFAULT_ESCALATE_AFTER_DAYS = 3;
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const parseOffsets = (value?: string) => {
+  const offsets = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(Number)
+    .filter(Number.isInteger);
+  return offsets.length ? Array.from(new Set(offsets)).sort((a, b) => a - b) : DEFAULT_OFFSETS;
+};
+
+const rawEscalateAfter = Number.parseInt(process.env.INTEL_ESCALATE_AFTER_DAYS ?? '', 10);
+const ESCALATE_AFTER_DAYS = Number.isInteger(rawEscalateAfter)
+  ? rawEscalateAfter
+  : DEFAULT_ESCALATE_AFTER_DAYS;
+const REMINDER_OFFSETS = parseOffsets(process.env.INTEL_REMINDER_OFFSETS_DAYS);
+const PORTAL_BASE_URL =
+  process.env.PORTAL_BASE_URL?.trim() || process.env.INVITE_BASE_URL?.trim() || null;
+
+const toDigestItem = (reminder: DueReminder): IntelReminderDigestItem => ({
+  engagementId: reminder.engagementId,
+  requestId: reminder.requestId,
+  title: reminder.title,
+  dueDate: reminder.dueDate,
+  daysPastDue: reminder.daysPastDue,
+});
+
+const hasEngagement = (user: StoredUser, engagementId: string) => {
+  return user.engagementIds.includes('ALL') || user.engagementIds.includes(engagementId);
+};
+
+const wasSent = (reminder: DueReminder, recipient: string) => {
+  const row = db
+    .prepare(
+      `SELECT 1 FROM intel_reminders
+       WHERE request_id = ? AND due_date = ? AND offset_days = ? AND recipient = ?
+       LIMIT 1`,
+    )
+    .get(reminder.requestId, reminder.dueDate, reminder.offset, recipient);
+  return Boolean(row);
+};
+
+const recordSent = (reminders: DueReminder[], recipient: string, kind: IntelReminderKind) => {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO intel_reminders
+      (request_id, due_date, offset_days, recipient, kind, sent_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  );
+  const sentAt = now();
+  db.transaction(() => {
+    reminders.forEach((reminder) => {
+      insert.run(reminder.requestId, reminder.dueDate, reminder.offset, recipient, kind, sentAt);
+    });
+  })();
+};
+
+const collectDueReminders = async (runAt: Date) => {
+  const projects = await erpClient.fetchProjects();
+  const reminders: DueReminder[] = [];
+  let checked = 0;
+
+  for (const project of projects) {
+    const requests = await erpClient.fetchClientRequestsByProject(project.name);
+    for (const request of requests) {
+      if (
+        !request.required ||
+        !request.due_date ||
+        request.visibility !== 'client_visible' ||
+        !isIntelRequestOpen(request.status)
+      ) {
+        continue;
+      }
+
+      checked += 1;
+      const daysPastDue = intelDaysPastDue(request.due_date, runAt);
+      if (daysPastDue === null) continue;
+
+      const offset = REMINDER_OFFSETS.filter((entry) => entry <= daysPastDue).pop();
+      if (offset === undefined) continue;
+
+      reminders.push({
+        engagementId: request.project,
+        requestId: request.name,
+        title: request.title,
+        dueDate: request.due_date.slice(0, 10),
+        daysPastDue,
+        offset,
+      });
+    }
+  }
+
+  return { checked, reminders };
+};
+
+const planDigests = (reminders: DueReminder[], users: StoredUser[]) => {
+  const digests = new Map<string, { to: string; kind: IntelReminderKind; items: DueReminder[] }>();
+
+  const add = (to: string, kind: IntelReminderKind, reminder: DueReminder) => {
+    if (wasSent(reminder, to)) return;
+    const key = `${kind}:${to}`;
+    const digest = digests.get(key) ?? { to, kind, items: [] };
+    digest.items.push(reminder);
+    digests.set(key, digest);
+  };
+
+  reminders.forEach((reminder) => {
+    users
+      .filter((user) => user.role === 'CLIENT' && hasEngagement(user, reminder.engagementId))
+      .forEach((user) => add(user.email, 'reminder', reminder));
+
+    if (reminder.daysPastDue >= ESCALATE_AFTER_DAYS) {
+      users
+        .filter((user) => user.role === 'OPERATOR' && hasEngagement(user, reminder.engagementId))
+        .forEach((user) => add(user.email, 'escalation', reminder));
+    }
+  });
+
+  return Array.from(digests.values()).map((digest) => ({
+    ...digest,
+    items: digest.items.sort((a, b) => b.daysPastDue - a.daysPastDue),
+  }));
+};
+
+export const runIntelReminderJob = async (
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<IntelReminderRunResult> => {
+  const runAt = options.now ?? new Date();
+  const dryRun = Boolean(options.dryRun);
+  const { checked, reminders } = await collectDueReminders(runAt);
+  const planned = planDigests(reminders, listActiveUsers());
+  const digests: IntelReminderDigest[] = [];
+
+  for (const digest of planned) {
+    const items = digest.items.map(toDigestItem);
+
+    if (dryRun) {
+      digests.push({ to: digest.to, kind: digest.kind, items, status: 'planned' });
+      continue;
+    }
+
+    try {
+      const sent = await sendIntelReminderDigest({
+        to: digest.to,
+        kind: digest.kind,
+        items,
+        portalUrl: PORTAL_BASE_URL,
+      });
+      if (sent) {
+        recordSent(digest.items, digest.to, digest.kind);
+      }
+      digests.push({ to: digest.to, kind: digest.kind, items, status: sent ? 'sent' : 'skipped' });
+    } catch (error) {
+      console.error('Intel reminder digest failed.', digest.to, error);
+      digests.push({ to: digest.to, kind: digest.kind, items, status: 'failed' });
+    }
+  }
+
+  return {
+    ranAt: runAt.toISOString(),
+    dryRun,
+    offsets: REMINDER_OFFSETS,
+    escalateAfterDays: ESCALATE_AFTER_DAYS,
+    checked,
+    due: reminders.length,
+    digests,
+  };
+};
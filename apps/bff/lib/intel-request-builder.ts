@@ -0,0 +1,133 @@
+import 'server-only';
+
+import { isValidDate } from './intel-answers';
+import { getIntelTemplate } from './intel-template-store';
+
+import type { ClientRequestCreate, ClientRequestRecord } from './erp-client';
+import type { IntelTemplate } from '@lucien/contracts';
+
+export type IntelRequestDraftInput = {
+  templateKey?: unknown;
+  title?: unknown;
+  description?: unknown;
+  dueDate?: unknown;
+  required?: unknown;
+  visibility?: unknown;
+};
+
+export type IntelRequestDraft = {
+  template: IntelTemplate;
+  title: string;
+  description: string;
+  dueDate: string | null;
+  required: boolean;
+  visibility: 'client_visible' | 'operator_only';
+};
+
+export type IntelRequestDraftError = {
+  field: keyof IntelRequestDraftInput;
+  code: 'required' | 'invalid' | 'too_long' | 'template_not_found';
+  reason: string;
+};
+
+export const MAX_REQUEST_TITLE_LENGTH = 140;
+export const MAX_REQUEST_DESCRIPTION_LENGTH = 4000;
+
+const REQUEST_VISIBILITIES = ['client_visible', 'operator_only'] as const;
+
+const isRequestVisibility = (value: unknown): value is IntelRequestDraft['visibility'] => {
+  return (REQUEST_VISIBILITIES as readonly unknown[]).includes(value);
+};
+
+export const validateIntelRequestDraft = (
+  input: IntelRequestDraftInput,
+): { draft: IntelRequestDraft | null; errors: IntelRequestDraftError[] } => {
+  const errors: IntelRequestDraftError[] = [];
+  const fail = (
+    field: IntelRequestDraftError['field'],
+    code: IntelRequestDraftError['code'],
+    reason: string,
+  ) => {
+    errors.push({ field, code, reason });
+  };
+
+  const templateKey = typeof input.templateKey === 'string' ? input.templateKey.trim() : '';
+  const template = templateKey ? getIntelTemplate(templateKey) : null;
+  if (!templateKey) {
+    fail('templateKey', 'required', 'templateKey required.');
+  } else if (!template) {
+    fail('templateKey', 'template_not_found', `Template ${templateKey} not found.`);
+  }
+
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  if (!title) {
+    fail('title', 'required', 'title required.');
+  } else if (title.length > MAX_REQUEST_TITLE_LENGTH) {
+    fail('title', 'too_long', `title exceeds ${MAX_REQUEST_TITLE_LENGTH} characters.`);
+  }
+
+  const description = typeof input.description === 'string' ? input.description.trim() : '';
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    fail('description', 'invalid', 'description must be a string.');
+  } else if (description.length > MAX_REQUEST_DESCRIPTION_LENGTH) {
+    fail('description', 'too_long', 'description too long.');
+  }
+
+  const dueDate = input.dueDate ?? null;
+  if (dueDate !== null && (typeof dueDate !== 'string' || !isValidDate(dueDate))) {
+    fail('dueDate', 'invalid', 'dueDate must be a YYYY-MM-DD date.');
+  }
+
+  const required = input.required ?? false;
+  if (typeof required !== 'boolean') {
+    fail('required', 'invalid', 'required must be a boolean.');
+  }
+
+  const visibility = input.visibility ?? 'client_visible';
+  if (!isRequestVisibility(visibility)) {
+    fail('visibility', 'invalid', 'visibility must be client_visible or operator_only.');
+  }
+
+  if (errors.length || !template) {
+    return { draft: null, errors };
+  }
+
+  return {
+    draft: {
+      template,
+      title,
+      description,
+      dueDate: dueDate as string | null,
+      required: required as boolean,
+      visibility: visibility as IntelRequestDraft['visibility'],
+    },
+    errors,
+  };
+};
+
+export const toClientRequestCreate = (
+  engagementId: string,
+  draft: IntelRequestDraft,
+): ClientRequestCreate => ({
+  project: engagementId,
+  title: draft.title,
+  description: draft.description || undefined,
+  status: 'pending',
+  required: draft.required,
+  template_key: draft.template.key,
+  template_version: draft.template.version,
+  visibility: draft.visibility,
+  due_date: draft.dueDate,
+});
+
+export const toOpsRequestItem = (entry: ClientRequestRecord) => ({
+  id: entry.name,
+  title: entry.title,
+  status: entry.status,
+  required: entry.required,
+  visibility: entry.visibility ?? 'operator_only',
+  assignedTo: entry.required ? 'Ops Team' : 'Client',
+  templateKey: entry.template_key,
+  templateVersion: entry.template_version ?? null,
+  dueDate: entry.due_date ?? null,
+});
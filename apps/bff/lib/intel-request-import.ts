@@ -0,0 +1,195 @@
+import 'server-only';
+
+import { validateIntelRequestDraft } from './intel-request-builder';
+
+import type {
+  IntelRequestDraft,
+  IntelRequestDraftError,
+  IntelRequestDraftInput,
+} from './intel-request-builder';
+
+export type IntelImportFormat = 'csv' | 'json';
+
+export type IntelImportRowResult = {
+  row: number;
+  title: string | null;
+  templateKey: string | null;
+  templateVersion: number | null;
+  errors: IntelRequestDraftError[];
+};
+
+export type IntelImportRow = {
+  result: IntelImportRowResult;
+  draft: IntelRequestDraft | null;
+};
+
+export const MAX_IMPORT_ROWS = 200;
+
+const COLUMN_ALIASES: Record<string, keyof IntelRequestDraftInput> = {
+  title: 'title',
+  template: 'templateKey',
+  template_key: 'templateKey',
+  templatekey: 'templateKey',
+  description: 'description',
+  required: 'required',
+  visibility: 'visibility',
+  due: 'dueDate',
+  due_date: 'dueDate',
+  duedate: 'dueDate',
+};
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0']);
+
+const toColumn = (key: string) => {
+  return (
+    COLUMN_ALIASES[
+      key
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_')
+    ] ?? null
+  );
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        value += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const coerceCsvValue = (column: keyof IntelRequestDraftInput, raw: string) => {
+  const value = raw.trim();
+  if (!value) return undefined;
+  if (column !== 'required') return value;
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.has(normalized)) return true;
+  if (FALSE_VALUES.has(normalized)) return false;
+  return value;
+};
+
+const parseCsvManifest = (text: string) => {
+  const [header, ...records] = parseCsv(text).filter((cells) => cells.some((cell) => cell.trim()));
+  const columns = (header ?? []).map(toColumn);
+
+  if (!columns.includes('title') || !columns.includes('templateKey')) {
+    return { rows: [], error: 'CSV header must include title and template_key columns.' };
+  }
+
+  const rows = records.map((cells) =>
+    columns.reduce<IntelRequestDraftInput>((acc, column, index) => {
+      if (column) acc[column] = coerceCsvValue(column, cells[index] ?? '');
+      return acc;
+    }, {}),
+  );
+
+  return { rows, error: null };
+};
+
+const parseJsonManifest = (text: string) => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text) as unknown;
+  } catch {
+    return { rows: [], error: 'Invalid JSON payload.' };
+  }
+
+  const entries = Array.isArray(payload)
+    ? payload
+    : (payload as { requests?: unknown } | null)?.requests;
+  if (!Array.isArray(entries)) {
+    return { rows: [], error: 'Expected an array of requests or { "requests": [...] }.' };
+  }
+
+  const invalidIndex = entries.findIndex(
+    (entry) => !entry || typeof entry !== 'object' || Array.isArray(entry),
+  );
+  if (invalidIndex >= 0) {
+    return { rows: [], error: `Row ${invalidIndex + 1} must be an object.` };
+  }
+
+  const rows = entries.map((entry: Record<string, unknown>) =>
+    Object.entries(entry).reduce<IntelRequestDraftInput>((acc, [key, value]) => {
+      const column = toColumn(key);
+      if (column) acc[column] = value === null && column !== 'dueDate' ? undefined : value;
+      return acc;
+    }, {}),
+  );
+
+  return { rows, error: null };
+};
+
+export const parseIntelImportManifest = (
+  text: string,
+  format: IntelImportFormat,
+): { rows: IntelRequestDraftInput[]; error: string | null } => {
+  const manifest = format === 'csv' ? parseCsvManifest(text) : parseJsonManifest(text);
+  if (manifest.error) return manifest;
+
+  if (!manifest.rows.length) {
+    return { rows: [], error: 'Manifest contains no requests.' };
+  }
+
+  if (manifest.rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Manifest exceeds ${MAX_IMPORT_ROWS} requests.` };
+  }
+
+  return manifest;
+};
+
+export const validateIntelImportRows = (rows: IntelRequestDraftInput[]): IntelImportRow[] => {
+  return rows.map((input, index) => {
+    const { draft, errors } = validateIntelRequestDraft(input);
+    return {
+      draft,
+      result: {
+        row: index + 1,
+        title: typeof input.title === 'string' ? input.title.trim() || null : null,
+        templateKey:
+          typeof input.templateKey === 'string' ? input.templateKey.trim() || null : null,
+        templateVersion: draft?.template.version ?? null,
+        errors,
+      },
+    };
+  });
+};
@@ -0,0 +1,387 @@
+import 'server-only';
+
+import type {
+  IntelConditionOperator,
+  IntelConditionRule,
+  IntelConditionValue,
+  IntelField,
+  IntelFieldCondition,
+  IntelFieldOption,
+  IntelTemplate,
+} from '@lucien/contracts';
+
+export type IntelTemplateDefinition = Omit<IntelTemplate, 'version'>;
+
+export type IntelTemplateSchemaError = {
+  path: string;
+  reason: string;
+};
+
+const FIELD_TYPES: IntelField['type'][] = [
+  'text',
+  'textarea',
+  'number',
+  'date',
+  'email',
+  'url',
+  'boolean',
+  'select',
+  'multiselect',
+  'file',
+];
+
+const VISIBILITIES = ['client_visible', 'operator_only'];
+
+const TEMPLATE_PROPERTIES = new Set(['key', 'name', 'description', 'fields']);
+const FIELD_PROPERTIES = new Set([
+  'id',
+  'key',
+  'label',
+  'type',
+  'required',
+  'description',
+  'options',
+  'accept',
+  'visibility',
+  'showIf',
+  'requiredIf',
+]);
+const RULE_PROPERTIES = new Set(['field', 'operator', 'value']);
+const CONDITION_OPERATORS: IntelConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'answered',
+];
+
+const TEMPLATE_KEY_PATTERN = /^[a-z0-9][a-z0-9_]{2,63}$/;
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const MAX_FIELDS = 100;
+const MAX_OPTIONS = 200;
+const MAX_LABEL_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_CONDITION_DEPTH = 4;
+const MAX_CONDITION_VALUES = 50;
+const MAX_ACCEPT_ENTRIES = 20;
+const ACCEPT_ENTRY_PATTERN = /^(\.[a-z0-9]{1,10}|[a-z]+\/(\*|[a-z0-9][a-z0-9.+-]*))$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isText = (value: unknown, maxLength: number): value is string => {
+  return typeof value === 'string' && value.trim() !== '' && value.length <= maxLength;
+};
+
+const checkProperties = (
+  value: Record<string, unknown>,
+  allowed: Set<string>,
+  path: string,
+  errors: IntelTemplateSchemaError[],
+) => {
+  Object.keys(value).forEach((key) => {
+    if (!allowed.has(key)) {
+      errors.push({ path: `${path}/${key}`, reason: 'Unknown property.' });
+    }
+  });
+};
+
+const validateOptions = (
+  value: unknown,
+  path: string,
+  errors: IntelTemplateSchemaError[],
+): IntelFieldOption[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_OPTIONS) {
+    errors.push({ path, reason: `Expected 1-${MAX_OPTIONS} options.` });
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return value.reduce<IntelFieldOption[]>((acc, entry, index) => {
+    const entryPath = `${path}/${index}`;
+    if (!isRecord(entry) || !isText(entry.label, MAX_LABEL_LENGTH) || !isText(entry.value, 200)) {
+      errors.push({ path: entryPath, reason: 'Option requires label and value strings.' });
+      return acc;
+    }
+    if (seen.has(entry.value)) {
+      errors.push({ path: `${entryPath}/value`, reason: 'Duplicate option value.' });
+      return acc;
+    }
+    seen.add(entry.value);
+    acc.push({ label: entry.label.trim(), value: entry.value });
+    return acc;
+  }, []);
+};
+
+const validateAccept = (
+  value: unknown,
+  path: string,
+  errors: IntelTemplateSchemaError[],
+): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_ACCEPT_ENTRIES) {
+    errors.push({ path, reason: `Expected 1-${MAX_ACCEPT_ENTRIES} accepted types.` });
+    return [];
+  }
+
+  const accept = new Set<string>();
+  value.forEach((entry, index) => {
+    const normalized = typeof entry === 'string' ? entry.trim().toLowerCase() : '';
+    if (!ACCEPT_ENTRY_PATTERN.test(normalized)) {
+      errors.push({
+        path: `${path}/${index}`,
+        reason: 'Expected a MIME type (image/png, image/*) or extension (.pdf).',
+      });
+      return;
+    }
+    accept.add(normalized);
+  });
+  return Array.from(accept);
+};
+
+const isConditionValue = (value: unknown): value is IntelConditionValue => {
+  return (
+    (typeof value === 'string' && value.length <= 200) ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+};
+
+const validateCondition = (
+  value: unknown,
+  path: string,
+  earlierFields: Map<string, IntelField>,
+  owner: { visibility?: IntelField['visibility'] },
+  errors: IntelTemplateSchemaError[],
+  depth = 0,
+): IntelFieldCondition | null => {
+  if (!isRecord(value)) {
+    errors.push({ path, reason: 'Condition must be an object.' });
+    return null;
+  }
+  if (depth >= MAX_CONDITION_DEPTH) {
+    errors.push({ path, reason: `Conditions nest at most ${MAX_CONDITION_DEPTH} levels.` });
+    return null;
+  }
+
+  const group = 'all' in value ? 'all' : 'any' in value ? 'any' : null;
+  if (group) {
+    checkProperties(value, new Set([group]), path, errors);
+    const entries = value[group];
+    if (!Array.isArray(entries) || entries.length === 0) {
+      errors.push({ path: `${path}/${group}`, reason: 'Expected at least one condition.' });
+      return null;
+    }
+    const conditions = entries.map((entry, index) =>
+      validateCondition(
+        entry,
+        `${path}/${group}/${index}`,
+        earlierFields,
+        owner,
+        errors,
+        depth + 1,
+      ),
+    );
+    if (conditions.some((entry) => !entry)) return null;
+    return group === 'all'
+      ? { all: conditions as IntelFieldCondition[] }
+      : { any: conditions as IntelFieldCondition[] };
+  }
+
+  const startErrors = errors.length;
+  checkProperties(value, RULE_PROPERTIES, path, errors);
+
+  const target = typeof value.field === 'string' ? earlierFields.get(value.field) : undefined;
+  if (!target) {
+    errors.push({ path: `${path}/field`, reason: 'field must reference an earlier field key.' });
+  } else if (target.type === 'file') {
+    errors.push({ path: `${path}/field`, reason: 'Conditions cannot reference file fields.' });
+  } else if (owner.visibility !== 'operator_only' && target.visibility === 'operator_only') {
+    errors.push({
+      path: `${path}/field`,
+      reason: 'Client-visible fields cannot depend on operator-only fields.',
+    });
+  }
+
+  const operator = value.operator as IntelConditionOperator;
+  if (!CONDITION_OPERATORS.includes(operator)) {
+    errors.push({
+      path: `${path}/operator`,
+      reason: `operator must be one of ${CONDITION_OPERATORS.join(', ')}.`,
+    });
+  } else if (operator === 'answered') {
+    if (value.value !== undefined) {
+      errors.push({ path: `${path}/value`, reason: 'answered takes no value.' });
+    }
+  } else if (operator === 'in' || operator === 'not_in') {
+    if (
+      !Array.isArray(value.value) ||
+      value.value.length === 0 ||
+      value.value.length > MAX_CONDITION_VALUES ||
+      !value.value.every(isConditionValue)
+    ) {
+      errors.push({ path: `${path}/value`, reason: `Expected 1-${MAX_CONDITION_VALUES} values.` });
+    }
+  } else if (!isConditionValue(value.value)) {
+    errors.push({ path: `${path}/value`, reason: 'Expected a string, number or boolean.' });
+  }
+
+  if (target?.options && value.value !== undefined && errors.length === startErrors) {
+    const optionValues = new Set(target.options.map((option) => option.value));
+    const values = Array.isArray(value.value) ? value.value : [value.value];
+    if (!values.every((entry) => optionValues.has(entry as string))) {
+      errors.push({ path: `${path}/value`, reason: 'Value not in referenced field options.' });
+    }
+  }
+
+  if (errors.length > startErrors) return null;
+
+  const rule: IntelConditionRule = { field: value.field as string, operator };
+  if (value.value !== undefined) {
+    rule.value = value.value as IntelConditionValue | IntelConditionValue[];
+  }
+  return rule;
+};
+
+const validateField = (
+  value: unknown,
+  path: string,
+  earlierFields: Map<string, IntelField>,
+  errors: IntelTemplateSchemaError[],
+): IntelField | null => {
+  if (!isRecord(value)) {
+    errors.push({ path, reason: 'Field must be an object.' });
+    return null;
+  }
+
+  const startErrors = errors.length;
+  checkProperties(value, FIELD_PROPERTIES, path, errors);
+
+  if (!isText(value.id, 100)) {
+    errors.push({ path: `${path}/id`, reason: 'id required.' });
+  }
+  if (typeof value.key !== 'string' || !FIELD_KEY_PATTERN.test(value.key)) {
+    errors.push({ path: `${path}/key`, reason: 'key must match ^[a-z][a-z0-9_]{0,63}$.' });
+  }
+  if (!isText(value.label, MAX_LABEL_LENGTH)) {
+    errors.push({ path: `${path}/label`, reason: 'label required.' });
+  }
+  if (!FIELD_TYPES.includes(value.type as IntelField['type'])) {
+    errors.push({ path: `${path}/type`, reason: `type must be one of ${FIELD_TYPES.join(', ')}.` });
+  }
+  if (typeof value.required !== 'boolean') {
+    errors.push({ path: `${path}/required`, reason: 'required must be a boolean.' });
+  }
+  if (value.description !== undefined && !isText(value.description, MAX_DESCRIPTION_LENGTH)) {
+    errors.push({ path: `${path}/description`, reason: 'description must be a string.' });
+  }
+  if (value.visibility !== undefined && !VISIBILITIES.includes(value.visibility as string)) {
+    errors.push({ path: `${path}/visibility`, reason: 'visibility invalid.' });
+  }
+
+  const hasOptions = value.type === 'select' || value.type === 'multiselect';
+  let options: IntelFieldOption[] | undefined;
+  if (hasOptions) {
+    options = validateOptions(value.options, `${path}/options`, errors);
+  } else if (value.options !== undefined) {
+    errors.push({ path: `${path}/options`, reason: 'options only allowed on select fields.' });
+  }
+
+  let accept: string[] | undefined;
+  if (value.accept !== undefined) {
+    if (value.type === 'file') {
+      accept = validateAccept(value.accept, `${path}/accept`, errors);
+    } else {
+      errors.push({ path: `${path}/accept`, reason: 'accept only allowed on file fields.' });
+    }
+  }
+
+  const owner = { visibility: value.visibility as IntelField['visibility'] };
+  const showIf =
+    value.showIf !== undefined
+      ? validateCondition(value.showIf, `${path}/showIf`, earlierFields, owner, errors)
+      : undefined;
+  const requiredIf =
+    value.requiredIf !== undefined
+      ? validateCondition(value.requiredIf, `${path}/requiredIf`, earlierFields, owner, errors)
+      : undefined;
+
+  if (errors.length > startErrors) return null;
+
+  const field: IntelField = {
+    id: (value.id as string).trim(),
+    key: value.key as string,
+    label: (value.label as string).trim(),
+    type: value.type as IntelField['type'],
+    required: value.required as boolean,
+  };
+  if (value.description !== undefined) field.description = (value.description as string).trim();
+  if (options) field.options = options;
+  if (accept) field.accept = accept;
+  if (value.visibility !== undefined) {
+    field.visibility = value.visibility as IntelField['visibility'];
+  }
+  if (showIf) field.showIf = showIf;
+  if (requiredIf) field.requiredIf = requiredIf;
+  return field;
+};
+
+export const validateIntelTemplateDefinition = (
+  input: unknown,
+): { definition: IntelTemplateDefinition | null; errors: IntelTemplateSchemaError[] } => {
+  const errors: IntelTemplateSchemaError[] = [];
+
+  if (!isRecord(input)) {
+    return { definition: null, errors: [{ path: '', reason: 'Template must be an object.' }] };
+  }
+
+  checkProperties(input, TEMPLATE_PROPERTIES, '', errors);
+
+  if (typeof input.key !== 'string' || !TEMPLATE_KEY_PATTERN.test(input.key)) {
+    errors.push({ path: '/key', reason: 'key must match ^[a-z0-9][a-z0-9_]{2,63}$.' });
+  }
+  if (!isText(input.name, MAX_LABEL_LENGTH)) {
+    errors.push({ path: '/name', reason: 'name required.' });
+  }
+  if (input.description !== undefined && !isText(input.description, MAX_DESCRIPTION_LENGTH)) {
+    errors.push({ path: '/description', reason: 'description must be a string.' });
+  }
+
+  const fields: IntelField[] = [];
+  if (!Array.isArray(input.fields) || input.fields.length === 0) {
+    errors.push({ path: '/fields', reason: 'At least one field required.' });
+  } else if (input.fields.length > MAX_FIELDS) {
+    errors.push({ path: '/fields', reason: `At most ${MAX_FIELDS} fields allowed.` });
+  } else {
+    const ids = new Set<string>();
+    const keys = new Map<string, IntelField>();
+    input.fields.forEach((entry, index) => {
+      const field = validateField(entry, `/fields/${index}`, keys, errors);
+      if (!field) return;
+      if (ids.has(field.id)) {
+        errors.push({ path: `/fields/${index}/id`, reason: 'Duplicate field id.' });
+      }
+      if (keys.has(field.key)) {
+        errors.push({ path: `/fields/${index}/key`, reason: 'Duplicate field key.' });
+      }
+      ids.add(field.id);
+      keys.set(field.key, field);
+      fields.push(field);
+    });
+  }
+
+  if (errors.length) {
+    return { definition: null, errors };
+  }
+
+  const definition: IntelTemplateDefinition = {
+    key: input.key as string,
+    name: (input.name as string).trim(),
+    fields,
+  };
+  if (input.description !== undefined) {
+    definition.description = (input.description as string).trim();
+  }
+
+  return { definition, errors };
+};
@@ -0,0 +1,137 @@
+import 'server-only';
+
+import { getDb } from './db';
+import { INTEL_TEMPLATES } from './intel-templates';
+
+import type { IntelTemplateDefinition } from './intel-template-schema';
+import type { IntelField, IntelTemplate, IntelTemplateVersionDTO } from '@lucien/contracts';
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const parseFields = (value: unknown): IntelField[] => {
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as IntelField[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const mapTemplate = (row: Record<string, unknown>): IntelTemplateVersionDTO => {
+  return {
+    key: String(row.template_key),
+    version: Number(row.version),
+    name: String(row.name),
+    description: row.description ? String(row.description) : undefined,
+    fields: parseFields(row.fields),
+    createdAt: String(row.created_at),
+    createdBy: row.created_by ? String(row.created_by) : null,
+  };
+};
+
+const seedTemplates = () => {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO intel_templates
+      (template_key, version, name, description, fields, created_at, created_by)
+     VALUES
+      (?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const timestamp = now();
+
+  db.transaction(() => {
+    Object.values(INTEL_TEMPLATES).forEach((template) => {
+      insert.run(
+        template.key,
+        template.version,
+        template.name,
+        template.description ?? null,
+        JSON.stringify(template.fields),
+        timestamp,
+        'system',
+      );
+    });
+  })();
+};
+
+seedTemplates();
+
+export const getIntelTemplate = (key: string, version?: number | null) => {
+  const row = (
+    version
+      ? db
+          .prepare('SELECT * FROM intel_templates WHERE template_key = ? AND version = ? LIMIT 1')
+          .get(key, version)
+      : db
+          .prepare(
+            'SELECT * FROM intel_templates WHERE template_key = ? ORDER BY version DESC LIMIT 1',
+          )
+          .get(key)
+  ) as Record<string, unknown> | undefined;
+  return row ? mapTemplate(row) : null;
+};
+
+export const listLatestIntelTemplates = (): IntelTemplateVersionDTO[] => {
+  const rows = db
+    .prepare(
+      `SELECT t.* FROM intel_templates t
+       JOIN (
+         SELECT template_key, MAX(version) AS version FROM intel_templates GROUP BY template_key
+       ) latest
+       ON latest.template_key = t.template_key AND latest.version = t.version
+       ORDER BY t.template_key`,
+    )
+    .all() as Record<string, unknown>[];
+  return rows.map(mapTemplate);
+};
+
+export const listIntelTemplateVersions = (key: string): IntelTemplateVersionDTO[] => {
+  const rows = db
+    .prepare('SELECT * FROM intel_templates WHERE template_key = ? ORDER BY version DESC')
+    .all(key) as Record<string, unknown>[];
+  return rows.map(mapTemplate);
+};
+
+export const isSameIntelTemplate = (
+  template: IntelTemplate,
+  definition: IntelTemplateDefinition,
+) => {
+  return (
+    template.name === definition.name &&
+    (template.description ?? null) === (definition.description ?? null) &&
+    JSON.stringify(template.fields) === JSON.stringify(definition.fields)
+  );
+};
+
+export const createIntelTemplateVersion = (
+  definition: IntelTemplateDefinition,
+  createdBy: string | null,
+): IntelTemplateVersionDTO => {
+  const insert = db.transaction(() => {
+    const row = db
+      .prepare('SELECT MAX(version) AS version FROM intel_templates WHERE template_key = ?')
+      .get(definition.key) as { version: number | null } | undefined;
+    const version = (row?.version ?? 0) + 1;
+
+    db.prepare(
+      `INSERT INTO intel_templates
+        (template_key, version, name, description, fields, created_at, created_by)
+       VALUES
+        (?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      definition.key,
+      version,
+      definition.name,
+      definition.description ?? null,
+      JSON.stringify(definition.fields),
+      now(),
+      createdBy,
+    );
+
+    return version;
+  });
+
+  return getIntelTemplate(definition.key, insert()) as IntelTemplateVersionDTO;
+};
@@ -1,30 +1,6 @@
 import 'server-only';
 
-export type IntelFieldVisibility = 'client_visible' | 'operator_only';
-
-export interface IntelFieldOption {
-  label: string;
-  value: string;
-}
-
-export interface IntelField {
-  id: string;
-  key: string;
-  label: string;
-  type: 'text' | 'textarea' | 'number' | 'date' | 'boolean' | 'select' | 'multiselect' | 'file';
-  required: boolean;
-  description?: string;
-  options?: IntelFieldOption[];
-  visibility?: IntelFieldVisibility;
-}
-
-export interface IntelTemplate {
-  key: string;
-  name: string;
-  version: number;
-  description?: string;
-  fields: IntelField[];
-}
+import type { IntelTemplate } from '@lucien/contracts';
 
 export const INTEL_TEMPLATES: Record<string, IntelTemplate> = {
   diag_intake_core_v1: {
@@ -138,6 +114,7 @@ export const INTEL_TEMPLATES: Record<string, IntelTemplate> = {
         type: 'text',
         required: false,
         visibility: 'operator_only',
+        requiredIf: { field: 'access_level', operator: 'equals', value: 'tier_3' },
       },
       {
         id: 'field-approval-notes',
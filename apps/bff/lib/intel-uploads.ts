@@ -0,0 +1,255 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { open, readFile, rm } from 'fs/promises';
+import { isAbsolute, join, resolve } from 'path';
+
+import 'server-only';
+
+import { getDb } from './db';
+
+import type { IntelUploadSessionDTO } from '@lucien/contracts';
+
+export type IntelUploadSessionStatus = 'open' | 'finalized';
+
+export type IntelUploadSession = {
+  id: string;
+  userId: string;
+  engagementId: string;
+  requestId: string;
+  fieldKey: string | null;
+  fileName: string;
+  contentType: string;
+  size: number;
+  chunkSize: number;
+  receivedBytes: number;
+  status: IntelUploadSessionStatus;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+export type IntelUploadLimitError = {
+  code: 'too_many_uploads' | 'upload_quota_exceeded';
+  reason: string;
+};
+
+export const INTEL_UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+export const MAX_INTEL_UPLOAD_BYTES = 1024 * 1024 * 1024;
+
+const GB = 1024 * 1024 * 1024;
+const MAX_OPEN_SESSIONS_PER_USER = 5;
+const MAX_RESERVED_BYTES_PER_USER = 2 * GB;
+const MAX_RESERVED_BYTES_PER_ENGAGEMENT = 5 * GB;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TMP_DIR = './data/intel-uploads';
+
+const resolveTmpDir = (value?: string) => {
+  const raw = (value ?? DEFAULT_TMP_DIR).trim();
+  if (!raw) return resolve(process.cwd(), DEFAULT_TMP_DIR);
+  return isAbsolute(raw) ? raw : resolve(process.cwd(), raw);
+};
+
+const tmpDir = resolveTmpDir(process.env.INTEL_UPLOAD_TMP_DIR);
+mkdirSync(tmpDir, { recursive: true });
+
+const db = getDb();
+const activeWrites = new Set<string>();
+
+const now = () => new Date().toISOString();
+
+const partPath = (uploadId: string) => join(tmpDir, `${uploadId}.part`);
+
+const mapSession = (row: Record<string, unknown>): IntelUploadSession => {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    engagementId: String(row.engagement_id),
+    requestId: String(row.request_id),
+    fieldKey: row.field_key ? String(row.field_key) : null,
+    fileName: String(row.file_name),
+    contentType: String(row.content_type),
+    size: Number(row.size),
+    chunkSize: Number(row.chunk_size),
+    receivedBytes: Number(row.received_bytes),
+    status: row.status === 'finalized' ? 'finalized' : 'open',
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+    expiresAt: String(row.expires_at),
+  };
+};
+
+export const toIntelUploadSessionDTO = (session: IntelUploadSession): IntelUploadSessionDTO => {
+  return {
+    uploadId: session.id,
+    requestId: session.requestId,
+    fileName: session.fileName,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    receivedBytes: session.receivedBytes,
+    status: session.status,
+    expiresAt: session.expiresAt,
+  };
+};
+
+export const sha256Hex = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+export const purgeExpiredIntelUploads = async () => {
+  const rows = db
+    .prepare('SELECT id FROM intel_upload_sessions WHERE expires_at <= ?')
+    .all(now()) as { id: string }[];
+
+  for (const row of rows) {
+    await rm(partPath(row.id), { force: true });
+    db.prepare('DELETE FROM intel_upload_sessions WHERE id = ?').run(row.id);
+  }
+  return rows.length;
+};
+
+const checkUploadLimits = (payload: {
+  userId: string;
+  engagementId: string;
+  size: number;
+}): IntelUploadLimitError | null => {
+  const timestamp = now();
+  const byUser = db
+    .prepare(
+      `SELECT COUNT(*) AS sessions, COALESCE(SUM(size), 0) AS bytes
+       FROM intel_upload_sessions WHERE user_id = ? AND expires_at > ?`,
+    )
+    .get(payload.userId, timestamp) as { sessions: number; bytes: number };
+  const byEngagement = db
+    .prepare(
+      `SELECT COALESCE(SUM(size), 0) AS bytes
+       FROM intel_upload_sessions WHERE engagement_id = ? AND expires_at > ?`,
+    )
+    .get(payload.engagementId, timestamp) as { bytes: number };
+
+  if (byUser.sessions >= MAX_OPEN_SESSIONS_PER_USER) {
+    return {
+      code: 'too_many_uploads',
+      reason: `Finish or cancel an upload first (max ${MAX_OPEN_SESSIONS_PER_USER} open).`,
+    };
+  }
+  if (byUser.bytes + payload.size > MAX_RESERVED_BYTES_PER_USER) {
+    return { code: 'upload_quota_exceeded', reason: 'Open uploads exceed 2GB for this user.' };
+  }
+  if (byEngagement.bytes + payload.size > MAX_RESERVED_BYTES_PER_ENGAGEMENT) {
+    return {
+      code: 'upload_quota_exceeded',
+      reason: 'Open uploads exceed 5GB for this engagement.',
+    };
+  }
+  return null;
+};
+
+// The quota check and the insert share one transaction, so parallel init calls
+// cannot both fit into the last free slot.
+export const createIntelUploadSession = async (payload: {
+  userId: string;
+  engagementId: string;
+  requestId: string;
+  fieldKey?: string | null;
+  fileName: string;
+  contentType: string;
+  size: number;
+}): Promise<{ session: IntelUploadSession | null; error: IntelUploadLimitError | null }> => {
+  const id = randomUUID();
+  const timestamp = now();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+
+  const error = db.transaction(() => {
+    const limitError = checkUploadLimits(payload);
+    if (limitError) return limitError;
+    db.prepare(
+      `INSERT INTO intel_upload_sessions
+        (id, user_id, engagement_id, request_id, field_key, file_name, content_type, size,
+         chunk_size, received_bytes, status, created_at, updated_at, expires_at)
+       VALUES
+        (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'open', ?, ?, ?)`,
+    ).run(
+      id,
+      payload.userId,
+      payload.engagementId,
+      payload.requestId,
+      payload.fieldKey ?? null,
+      payload.fileName,
+      payload.contentType,
+      payload.size,
+      INTEL_UPLOAD_CHUNK_BYTES,
+      timestamp,
+      timestamp,
+      expiresAt,
+    );
+    return null;
+  })();
+  if (error) return { session: null, error };
+
+  const handle = await open(partPath(id), 'w');
+  await handle.close();
+
+  return { session: getIntelUploadSession(id), error: null };
+};
+
+export const getIntelUploadSession = (uploadId: string): IntelUploadSession | null => {
+  const row = db
+    .prepare('SELECT * FROM intel_upload_sessions WHERE id = ? AND expires_at > ? LIMIT 1')
+    .get(uploadId, now()) as Record<string, unknown> | undefined;
+  return row ? mapSession(row) : null;
+};
+
+export const writeIntelUploadChunk = async (
+  session: IntelUploadSession,
+  offset: number,
+  chunk: Uint8Array,
+): Promise<IntelUploadSession | null> => {
+  if (activeWrites.has(session.id)) return null;
+  activeWrites.add(session.id);
+
+  try {
+    const current = getIntelUploadSession(session.id);
+    if (!current || current.status !== 'open' || current.receivedBytes !== offset) return null;
+
+    const handle = await open(partPath(session.id), 'r+');
+    try {
+      await handle.write(chunk, 0, chunk.byteLength, offset);
+      await handle.truncate(offset + chunk.byteLength);
+    } finally {
+      await handle.close();
+    }
+
+    db.prepare(
+      'UPDATE intel_upload_sessions SET received_bytes = ?, updated_at = ? WHERE id = ?',
+    ).run(offset + chunk.byteLength, now(), session.id);
+
+    return getIntelUploadSession(session.id);
+  } finally {
+    activeWrites.delete(session.id);
+  }
+};
+
+export const readIntelUploadFile = async (session: IntelUploadSession) => {
+  const data = await readFile(partPath(session.id));
+  return new File([data], session.fileName, { type: session.contentType });
+};
+
+export const markIntelUploadFinalized = (uploadId: string) => {
+  const result = db
+    .prepare(
+      `UPDATE intel_upload_sessions SET status = 'finalized', updated_at = ?
+       WHERE id = ? AND status = 'open'`,
+    )
+    .run(now(), uploadId);
+  return result.changes > 0;
+};
+
+export const reopenIntelUpload = (uploadId: string) => {
+  db.prepare(`UPDATE intel_upload_sessions SET status = 'open', updated_at = ? WHERE id = ?`).run(
+    now(),
+    uploadId,
+  );
+};
+
+export const deleteIntelUploadSession = async (uploadId: string) => {
+  await rm(partPath(uploadId), { force: true });
+  db.prepare('DELETE FROM intel_upload_sessions WHERE id = ?').run(uploadId);
+};
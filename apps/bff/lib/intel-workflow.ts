@@ -0,0 +1,39 @@
+import 'server-only';
+
+import type { IntelRequestStatus, IntelReviewDecision } from '@lucien/contracts';
+
+const INTEL_STATUS_TRANSITIONS: Record<IntelRequestStatus, IntelRequestStatus[]> = {
+  pending: ['submitted'],
+  submitted: ['submitted', 'accepted', 'needs_revision'],
+  needs_revision: ['submitted'],
+  accepted: [],
+};
+
+const CLIENT_ATTACHMENT_STATUSES: IntelRequestStatus[] = ['pending', 'needs_revision'];
+
+export const REVIEW_DECISION_STATUS: Record<IntelReviewDecision, IntelRequestStatus> = {
+  accept: 'accepted',
+  request_revision: 'needs_revision',
+};
+
+export const isIntelRequestStatus = (value: unknown): value is IntelRequestStatus => {
+  return typeof value === 'string' && value in INTEL_STATUS_TRANSITIONS;
+};
+
+export const isIntelReviewDecision = (value: unknown): value is IntelReviewDecision => {
+  return typeof value === 'string' && value in REVIEW_DECISION_STATUS;
+};
+
+export const canTransitionIntelRequest = (from: string, to: IntelRequestStatus) => {
+  if (!isIntelRequestStatus(from)) return false;
+  return INTEL_STATUS_TRANSITIONS[from].includes(to);
+};
+
+export const canClientChangeIntelAttachments = (status: string) => {
+  return isIntelRequestStatus(status) && CLIENT_ATTACHMENT_STATUSES.includes(status);
+};
+
+export const canAttachToIntelRequest = (status: string, role: string | null) => {
+  if (role === 'CLIENT') return canClientChangeIntelAttachments(status);
+  return !isIntelRequestStatus(status) || INTEL_STATUS_TRANSITIONS[status].length > 0;
+};
@@ -0,0 +1,156 @@
+import sharp from 'sharp';
+
+import 'server-only';
+
+import { stampPdfText } from './pdf';
+
+import type { OutputItem } from './outputs';
+
+export type OutputPreviewKind = 'pdf' | 'image' | 'markdown' | 'csv';
+
+export const MAX_PREVIEW_BYTES = 25 * 1024 * 1024;
+
+export type OutputPreviewType = { kind: OutputPreviewKind; contentType: string };
+
+const PREVIEW_TYPES: Record<string, OutputPreviewType> = {
+  pdf: { kind: 'pdf', contentType: 'application/pdf' },
+  png: { kind: 'image', contentType: 'image/png' },
+  jpg: { kind: 'image', contentType: 'image/jpeg' },
+  jpeg: { kind: 'image', contentType: 'image/jpeg' },
+  gif: { kind: 'image', contentType: 'image/gif' },
+  webp: { kind: 'image', contentType: 'image/webp' },
+  md: { kind: 'markdown', contentType: 'text/markdown; charset=utf-8' },
+  markdown: { kind: 'markdown', contentType: 'text/markdown; charset=utf-8' },
+  csv: { kind: 'csv', contentType: 'text/csv; charset=utf-8' },
+};
+
+const WATERMARKED_CATEGORIES = new Set(['report', 'protocol']);
+
+export const resolvePreviewType = (fileName: string) => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return PREVIEW_TYPES[extension] ?? null;
+};
+
+export const findOutputAttachment = (output: OutputItem, fileId: string) => {
+  return (
+    output.attachments.find((attachment) => attachment.id === fileId) ??
+    output.revisions
+      .flatMap((revision) => revision.attachments)
+      .find((attachment) => attachment.id === fileId) ??
+    null
+  );
+};
+
+export const previewWatermark = (output: OutputItem, uid: string, at: Date) => {
+  if (!WATERMARKED_CATEGORIES.has(output.category.toLowerCase())) return null;
+  return `${uid} · ${at.toISOString()}`;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const watermarkMarkdown = (source: string, watermark: string) => {
+  const banner = `> CONFIDENTIAL · ${watermark}`;
+  return `${banner}\n\n${source.trim()}\n\n---\n\n${banner}\n`;
+};
+
+const watermarkCsv = (source: string, watermark: string) => {
+  const cell = `"${watermark.replace(/"/g, '""')}"`;
+  let output = '';
+  let quoted = false;
+  let header = true;
+  let rowHasContent = false;
+
+  const endRow = () => {
+    if (!rowHasContent) return;
+    output += header ? ',"Watermark"' : `,${cell}`;
+    header = false;
+    rowHasContent = false;
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === '\n' || (char === '\r' && source[index + 1] === '\n'))) {
+      endRow();
+    } else if (char !== '\r') {
+      rowHasContent = true;
+    }
+    output += char;
+  }
+  endRow();
+  return output;
+};
+
+const watermarkImage = async (bytes: Uint8Array, contentType: string, watermark: string) => {
+  const image = sharp(bytes, { animated: false });
+  const { width, height } = await image.metadata();
+  if (!width || !height) return null;
+
+  const size = Math.max(12, Math.round(Math.min(width, height) / 24));
+  const extent = Math.max(width, height);
+  const rows = Math.ceil((extent * 2) / (size * 6));
+  const label = escapeXml(watermark);
+  const repeated = Array.from({ length: Math.ceil((extent * 2) / (label.length * size * 0.6)) + 1 })
+    .fill(label)
+    .join(' · ');
+  const lines = Array.from(
+    { length: rows },
+    (_, row) =>
+      `<text x="${-extent + (row % 2) * size * 4}" y="${row * size * 6 - extent / 2}">${repeated}</text>`,
+  ).join('');
+  const overlay = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<g transform="rotate(-24 ${width / 2} ${height / 2})" font-family="sans-serif" ` +
+      `font-size="${size}" fill="#ffffff" fill-opacity="0.35" stroke="#000000" ` +
+      `stroke-opacity="0.35" stroke-width="1">${lines}</g></svg>`,
+  );
+
+  const composed = image.composite([{ input: overlay, top: 0, left: 0 }]);
+  if (contentType === 'image/jpeg') {
+    return { body: new Uint8Array(await composed.jpeg().toBuffer()), contentType };
+  }
+  if (contentType === 'image/webp') {
+    return { body: new Uint8Array(await composed.webp().toBuffer()), contentType };
+  }
+  return { body: new Uint8Array(await composed.png().toBuffer()), contentType: 'image/png' };
+};
+
+/**
+ * Writes the watermark into the previewed bytes. Returns null when the file
+ * cannot be stamped, in which case it must not be served inline.
+ */
+export const applyPreviewWatermark = async (
+  previewType: OutputPreviewType,
+  bytes: Uint8Array,
+  watermark: string,
+): Promise<{ body: Uint8Array<ArrayBuffer>; contentType: string } | null> => {
+  const { kind, contentType } = previewType;
+  try {
+    switch (kind) {
+      case 'markdown':
+        return {
+          body: new TextEncoder().encode(
+            watermarkMarkdown(new TextDecoder().decode(bytes), watermark),
+          ),
+          contentType,
+        };
+      case 'csv':
+        return {
+          body: new TextEncoder().encode(watermarkCsv(new TextDecoder().decode(bytes), watermark)),
+          contentType,
+        };
+      case 'pdf': {
+        const stamped = await stampPdfText(bytes, watermark);
+        return stamped ? { body: stamped, contentType } : null;
+      }
+      case 'image':
+        return await watermarkImage(bytes, contentType, watermark);
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error('Preview watermark failed.', error);
+    return null;
+  }
+};
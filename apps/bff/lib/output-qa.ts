@@ -0,0 +1,121 @@
+import 'server-only';
+
+import { getDb } from './db';
+
+export type OutputQaChecklistItemDefinition = {
+  key: string;
+  label: string;
+  mandatory: boolean;
+};
+
+export type OutputQaChecklistItem = OutputQaChecklistItemDefinition & {
+  checked: boolean;
+  checkedBy: string | null;
+  checkedAt: string | null;
+};
+
+export type OutputQaChecklist = {
+  outputId: string;
+  category: string;
+  items: OutputQaChecklistItem[];
+  complete: boolean;
+};
+
+export type OutputQaSummary = {
+  checked: number;
+  total: number;
+  mandatoryOpen: number;
+  complete: boolean;
+};
+
+const BASE_CHECKLIST: OutputQaChecklistItemDefinition[] = [
+  { key: 'redaction', label: 'Redaction done', mandatory: true },
+  { key: 'peer_review', label: 'Peer reviewed', mandatory: true },
+];
+
+const QA_CHECKLISTS: Record<string, OutputQaChecklistItemDefinition[]> = {
+  report: [
+    ...BASE_CHECKLIST,
+    { key: 'numbers_reconciled', label: 'Numbers reconciled', mandatory: true },
+    { key: 'sources_cited', label: 'Sources cited', mandatory: false },
+  ],
+  protocol: [
+    ...BASE_CHECKLIST,
+    { key: 'dates_confirmed', label: 'Dates confirmed with owners', mandatory: true },
+  ],
+};
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+export const getQaChecklistDefinition = (category?: string | null) => {
+  return QA_CHECKLISTS[(category ?? '').trim().toLowerCase()] ?? BASE_CHECKLIST;
+};
+
+export const loadOutputQaChecklist = (
+  outputId: string,
+  category?: string | null,
+): OutputQaChecklist => {
+  const rows = db
+    .prepare('SELECT * FROM output_qa_checks WHERE output_id = ?')
+    .all(outputId) as Record<string, unknown>[];
+  const byKey = new Map(rows.map((row) => [String(row.item_key), row]));
+
+  const items = getQaChecklistDefinition(category).map((definition): OutputQaChecklistItem => {
+    const row = byKey.get(definition.key);
+    const checked = Boolean(row?.checked);
+    return {
+      ...definition,
+      checked,
+      checkedBy: checked && row?.checked_by ? String(row.checked_by) : null,
+      checkedAt: checked && row?.checked_at ? String(row.checked_at) : null,
+    };
+  });
+
+  return {
+    outputId,
+    category: category ?? 'output',
+    items,
+    complete: items.every((item) => !item.mandatory || item.checked),
+  };
+};
+
+export const summarizeOutputQa = (checklist: OutputQaChecklist): OutputQaSummary => ({
+  checked: checklist.items.filter((item) => item.checked).length,
+  total: checklist.items.length,
+  mandatoryOpen: checklist.items.filter((item) => item.mandatory && !item.checked).length,
+  complete: checklist.complete,
+});
+
+export const setOutputQaItem = (payload: {
+  engagementId: string;
+  outputId: string;
+  itemKey: string;
+  checked: boolean;
+  uid: string;
+}) => {
+  const timestamp = now();
+  db.prepare(
+    `INSERT INTO output_qa_checks
+       (output_id, engagement_id, item_key, checked, checked_by, checked_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(output_id, item_key) DO UPDATE SET
+       checked = excluded.checked,
+       checked_by = excluded.checked_by,
+       checked_at = excluded.checked_at,
+       updated_at = excluded.updated_at`,
+  ).run(
+    payload.outputId,
+    payload.engagementId,
+    payload.itemKey,
+    payload.checked ? 1 : 0,
+    payload.checked ? payload.uid : null,
+    payload.checked ? timestamp : null,
+    timestamp,
+  );
+};
+
+export const resetOutputQa = (outputId: string) => {
+  return db.prepare('DELETE FROM output_qa_checks WHERE output_id = ?').run(outputId).changes > 0;
+};
@@ -0,0 +1,257 @@
+import 'server-only';
+
+import { listActiveUsers } from './auth-store';
+import { sendOutputDecisionEmail } from './email';
+import { erpClient } from './erp-client';
+import { buildFileUrl } from './file-links';
+
+import type {
+  DeliverableRevisionRecord,
+  FileRecord,
+  OutputDecisionUpdate,
+  OutputRecord,
+} from './erp-client';
+
+export type OutputStatus = 'pending' | 'in_progress' | 'delivered' | 'accepted' | 'rejected';
+
+export type OutputDecisionKind = 'accept' | 'reject';
+
+export type OutputDecision = {
+  decision: 'accepted' | 'rejected';
+  reason: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+};
+
+export type OutputAttachment = {
+  id: string;
+  name: string;
+  size: number | null;
+  uploadedAt: string | null;
+  url: string;
+};
+
+export type OutputRevisionChanges = {
+  added: string[];
+  removed: string[];
+  updated: string[];
+};
+
+export type OutputRevision = {
+  id: string;
+  version: number;
+  summary: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+  attachments: OutputAttachment[];
+  changes: OutputRevisionChanges | null;
+};
+
+export type OutputItem = {
+  id: string;
+  title: string;
+  category: string;
+  status: OutputStatus;
+  updatedAt: string | null;
+  decision: OutputDecision | null;
+  currentVersion: number | null;
+  revisions: OutputRevision[];
+  attachments: OutputAttachment[];
+};
+
+export const MAX_DECISION_REASON_LENGTH = 1000;
+
+const CLIENT_RELEASED_STATUSES: OutputStatus[] = ['delivered', 'accepted', 'rejected'];
+
+const PORTAL_BASE_URL =
+  process.env.PORTAL_BASE_URL?.trim() || process.env.INVITE_BASE_URL?.trim() || null;
+
+const normalize = (value?: string | null) => (value ?? '').trim().toLowerCase();
+
+export const mapOutputStatus = (value?: string | null): OutputStatus => {
+  const text = normalize(value);
+  if (text.includes('accepted')) return 'accepted';
+  if (text.includes('rejected')) return 'rejected';
+  if (text.includes('delivered') || text.includes('complete')) return 'delivered';
+  if (text.includes('progress') || text.includes('working') || text.includes('qa')) {
+    return 'in_progress';
+  }
+  return 'pending';
+};
+
+export const isOutputReleasedToClient = (status: OutputStatus) => {
+  return CLIENT_RELEASED_STATUSES.includes(status);
+};
+
+const toOutputDecision = (record: OutputRecord): OutputDecision | null => {
+  const decision = normalize(record.lucien_decision);
+  if (decision !== 'accepted' && decision !== 'rejected') return null;
+  return {
+    decision,
+    reason: record.lucien_decision_reason?.trim() || null,
+    decidedBy: record.lucien_decided_by ?? null,
+    decidedAt: record.lucien_decided_at ?? null,
+  };
+};
+
+const toOutputAttachment = (engagementId: string, file: FileRecord): OutputAttachment => ({
+  id: file.name,
+  name: file.file_name,
+  size: typeof file.file_size === 'number' ? file.file_size : null,
+  uploadedAt: file.creation ?? null,
+  url: buildFileUrl(engagementId, file.name),
+});
+
+const diffRevisionFiles = (
+  previous: OutputAttachment[],
+  current: OutputAttachment[],
+): OutputRevisionChanges => {
+  const before = new Map(previous.map((file) => [file.name, file]));
+  const after = new Map(current.map((file) => [file.name, file]));
+  return {
+    added: current.filter((file) => !before.has(file.name)).map((file) => file.name),
+    removed: previous.filter((file) => !after.has(file.name)).map((file) => file.name),
+    updated: current
+      .filter((file) => {
+        const prior = before.get(file.name);
+        return prior && (prior.size !== file.size || prior.id !== file.id);
+      })
+      .map((file) => file.name),
+  };
+};
+
+const toOutputRevisions = (
+  engagementId: string,
+  revisions: DeliverableRevisionRecord[],
+  files: FileRecord[],
+): OutputRevision[] => {
+  const ascending = [...revisions].sort((a, b) => a.version - b.version);
+  const result: OutputRevision[] = [];
+
+  ascending.forEach((revision, index) => {
+    const attachments = files
+      .filter((file) => file.attached_to_name === revision.name)
+      .map((file) => toOutputAttachment(engagementId, file));
+    result.push({
+      id: revision.name,
+      version: revision.version,
+      summary: revision.summary?.trim() || null,
+      createdBy: revision.created_by ?? null,
+      createdAt: revision.creation ?? null,
+      attachments,
+      changes: index ? diffRevisionFiles(result[index - 1].attachments, attachments) : null,
+    });
+  });
+
+  return result.reverse();
+};
+
+export const toOutputItem = (
+  engagementId: string,
+  record: OutputRecord,
+  revisions: DeliverableRevisionRecord[] = [],
+  files: FileRecord[] = [],
+): OutputItem => {
+  const history = toOutputRevisions(
+    engagementId,
+    revisions.filter((revision) => revision.deliverable === record.name),
+    files.filter((file) => file.attached_to_doctype === 'Deliverable Revision'),
+  );
+  const direct = files
+    .filter(
+      (file) => file.attached_to_doctype === 'Deliverable' && file.attached_to_name === record.name,
+    )
+    .map((file) => toOutputAttachment(engagementId, file));
+
+  return {
+    id: record.name,
+    title: record.title ?? record.name,
+    category: record.category ?? 'output',
+    status: mapOutputStatus(record.status),
+    updatedAt: record.modified ?? null,
+    decision: toOutputDecision(record),
+    currentVersion: history[0]?.version ?? null,
+    revisions: history,
+    attachments: [...(history[0]?.attachments ?? []), ...direct],
+  };
+};
+
+const withholdOutputFiles = (item: OutputItem): OutputItem => ({
+  ...item,
+  attachments: [],
+  revisions: item.revisions.map((revision) => ({ ...revision, attachments: [], changes: null })),
+});
+
+export const loadOutputItems = async (
+  engagementId: string,
+  records: OutputRecord[],
+  role: string | null = null,
+) => {
+  const names = new Set(records.map((record) => record.name));
+  const revisions = (
+    (await erpClient.fetchDeliverableRevisionsByProject(engagementId)) ?? []
+  ).filter((revision) => names.has(revision.deliverable));
+  const [revisionFiles, outputFiles] = await Promise.all([
+    erpClient.fetchFileAttachments(
+      'Deliverable Revision',
+      revisions.map((revision) => revision.name),
+    ),
+    erpClient.fetchFileAttachments('Deliverable', Array.from(names)),
+  ]);
+
+  return records.map((record) => {
+    const item = toOutputItem(engagementId, record, revisions, [...revisionFiles, ...outputFiles]);
+    return role === 'CLIENT' && !isOutputReleasedToClient(item.status)
+      ? withholdOutputFiles(item)
+      : item;
+  });
+};
+
+export const isOutputDecisionKind = (value: unknown): value is OutputDecisionKind => {
+  return value === 'accept' || value === 'reject';
+};
+
+export const toOutputDecisionUpdate = (
+  decision: OutputDecisionKind,
+  reason: string | null,
+  uid: string,
+  at: Date,
+): OutputDecisionUpdate => ({
+  status: decision === 'accept' ? 'Accepted' : 'Rejected',
+  lucien_decision: decision === 'accept' ? 'accepted' : 'rejected',
+  lucien_decision_reason: reason,
+  lucien_decided_by: uid,
+  lucien_decided_at: at.toISOString(),
+});
+
+export const notifyOutputDecision = async (payload: {
+  engagementId: string;
+  output: OutputItem;
+  decision: OutputDecision;
+}) => {
+  const recipients = listActiveUsers().filter(
+    (user) =>
+      user.role === 'OPERATOR' &&
+      (user.engagementIds.includes('ALL') || user.engagementIds.includes(payload.engagementId)),
+  );
+
+  let sent = 0;
+  for (const recipient of recipients) {
+    try {
+      const delivered = await sendOutputDecisionEmail({
+        to: recipient.email,
+        engagementId: payload.engagementId,
+        outputId: payload.output.id,
+        title: payload.output.title,
+        decision: payload.decision.decision,
+        reason: payload.decision.reason,
+        decidedBy: payload.decision.decidedBy,
+        portalUrl: PORTAL_BASE_URL,
+      });
+      if (delivered) sent += 1;
+    } catch (error) {
+      console.error('Output decision email failed.', recipient.email, error);
+    }
+  }
+  return sent;
+};
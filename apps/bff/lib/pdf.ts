@@ -0,0 +1,166 @@
+import { PDFDocument, StandardFonts, degrees, grayscale } from 'pdf-lib';
+
+import 'server-only';
+
+export type PdfTextDocument = {
+  title: string;
+  lines: string[];
+  author?: string;
+  createdAt?: Date;
+};
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const TITLE_SIZE = 14;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const MAX_LINE_CHARS = 92;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2 - TITLE_SIZE * 2) / LINE_HEIGHT);
+
+const toPdfText = (value: string) => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/[\\()]/g, '\\$&');
+};
+
+const wrapLine = (line: string) => {
+  if (line.length <= MAX_LINE_CHARS) return [line];
+  const wrapped: string[] = [];
+  let current = '';
+  line.split(/(\s+)/).forEach((part) => {
+    if ((current + part).length > MAX_LINE_CHARS && current.trim()) {
+      wrapped.push(current.trimEnd());
+      current = part.trimStart();
+    } else {
+      current += part;
+    }
+    while (current.length > MAX_LINE_CHARS) {
+      wrapped.push(current.slice(0, MAX_LINE_CHARS));
+      current = current.slice(MAX_LINE_CHARS);
+    }
+  });
+  if (current.trim()) wrapped.push(current.trimEnd());
+  return wrapped;
+};
+
+const toPdfDate = (date: Date) => {
+  const iso = date.toISOString().replace(/[-:T]/g, '');
+  return `D:${iso.slice(0, 14)}Z`;
+};
+
+const pageContent = (title: string, lines: string[], pageNumber: number, pageCount: number) => {
+  const top = PAGE_HEIGHT - MARGIN;
+  const body = lines.map((line) => `(${toPdfText(line)}) Tj T*`).join('\n');
+  return [
+    `BT /F2 ${TITLE_SIZE} Tf ${MARGIN} ${top - TITLE_SIZE} Td (${toPdfText(title)}) Tj ET`,
+    `BT /F1 ${FONT_SIZE} Tf ${LINE_HEIGHT} TL ${MARGIN} ${top - TITLE_SIZE * 3} Td`,
+    body,
+    'ET',
+    `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (Page ${pageNumber} of ${pageCount}) Tj ET`,
+  ].join('\n');
+};
+
+export const renderTextPdf = (document: PdfTextDocument) => {
+  const lines = document.lines.flatMap(wrapLine);
+  const pages: string[][] = [];
+  for (let index = 0; index < Math.max(lines.length, 1); index += LINES_PER_PAGE) {
+    pages.push(lines.slice(index, index + LINES_PER_PAGE));
+  }
+
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] =
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = [
+    '<<',
+    `/Title (${toPdfText(document.title)})`,
+    document.author ? `/Author (${toPdfText(document.author)})` : '',
+    '/Producer (Lucien)',
+    `/CreationDate (${toPdfDate(document.createdAt ?? new Date())})`,
+    '>>',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageObjectIds[index];
+    const content = pageContent(document.title, pageLines, index + 1, pages.length);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+};
+
+const toWinAnsiText = (value: string) => {
+  return value
+    .replace(/\u00b7/g, '-')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+};
+
+const countEofMarkers = (bytes: Uint8Array) => {
+  return Buffer.from(bytes).toString('latin1').split('%%EOF').length - 1;
+};
+
+/**
+ * Stamps `text` on every page and serialises a new document, so no earlier
+ * revision of the file survives in the output. Throws for encrypted or
+ * unreadable files and returns null when the result still holds more than one
+ * revision, so callers must not serve the original in either case.
+ */
+export const stampPdfText = async (bytes: Uint8Array, text: string) => {
+  const document = await PDFDocument.load(bytes, { updateMetadata: false });
+  const font = await document.embedFont(StandardFonts.Helvetica);
+  const label = toWinAnsiText(text);
+  const color = grayscale(0.5);
+
+  document.getPages().forEach((page) => {
+    const { x, y, width, height } = page.getMediaBox();
+    const angle = Math.atan2(height, width);
+    const size = Math.min(
+      28,
+      Math.max(8, (Math.hypot(width, height) * 0.7) / font.widthOfTextAtSize(label, 1)),
+    );
+    const span = font.widthOfTextAtSize(label, size);
+    page.drawText(label, {
+      x: x + width / 2 - (Math.cos(angle) * span) / 2,
+      y: y + height / 2 - (Math.sin(angle) * span) / 2,
+      size,
+      font,
+      color,
+      opacity: 0.3,
+      rotate: degrees((angle * 180) / Math.PI),
+    });
+    page.drawText(label, { x: x + 24, y: y + 12, size: 7, font, color, opacity: 0.8 });
+  });
+
+  // A second %%EOF would mean an earlier, unstamped revision can be cut back out.
+  const output = await document.save();
+  return countEofMarkers(output) === 1 ? new Uint8Array(output) : null;
+};
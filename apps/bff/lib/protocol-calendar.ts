@@ -0,0 +1,177 @@
+import { createHash, randomBytes } from 'crypto';
+
+import 'server-only';
+
+import { getUserByEmail } from './auth-store';
+import { getDb } from './db';
+
+import type { ProtocolStatus } from './protocol';
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const hashToken = (token: string) => createHash('sha256').update(token, 'utf8').digest('hex');
+
+export const issueProtocolCalendarToken = (userId: string, engagementId: string) => {
+  const token = randomBytes(24).toString('base64url');
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM protocol_calendar_tokens WHERE user_id = ? AND engagement_id = ?').run(
+      userId,
+      engagementId,
+    );
+    db.prepare(
+      `INSERT INTO protocol_calendar_tokens (token_hash, user_id, engagement_id, created_at)
+       VALUES (?, ?, ?, ?)`,
+    ).run(hashToken(token), userId, engagementId, now());
+  })();
+
+  return token;
+};
+
+export const revokeProtocolCalendarTokens = (userId: string, engagementId: string) => {
+  db.prepare('DELETE FROM protocol_calendar_tokens WHERE user_id = ? AND engagement_id = ?').run(
+    userId,
+    engagementId,
+  );
+};
+
+export const resolveProtocolCalendarToken = (token: string, engagementId: string) => {
+  const tokenHash = hashToken(token);
+  const row = db
+    .prepare(
+      'SELECT user_id FROM protocol_calendar_tokens WHERE token_hash = ? AND engagement_id = ? LIMIT 1',
+    )
+    .get(tokenHash, engagementId) as { user_id: string } | undefined;
+  if (!row) return null;
+
+  const user = getUserByEmail(row.user_id);
+  if (
+    !user ||
+    user.status !== 'active' ||
+    !(user.engagementIds.includes('ALL') || user.engagementIds.includes(engagementId))
+  ) {
+    return null;
+  }
+
+  db.prepare('UPDATE protocol_calendar_tokens SET last_used_at = ? WHERE token_hash = ?').run(
+    now(),
+    tokenHash,
+  );
+  return user;
+};
+
+const escapeText = (value: string) => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const foldLine = (line: string) => {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const next = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return toIcsDate(next.toISOString());
+};
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+const allDayEvent = (payload: {
+  uid: string;
+  date: string;
+  summary: string;
+  description: string;
+  stamp: string;
+  url: string | null;
+}) => {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${payload.uid}`,
+    `DTSTAMP:${payload.stamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(payload.date)}`,
+    `DTEND;VALUE=DATE:${nextDay(payload.date)}`,
+    `SUMMARY:${escapeText(payload.summary)}`,
+    `DESCRIPTION:${escapeText(payload.description)}`,
+    'STATUS:CONFIRMED',
+    'TRANSP:TRANSPARENT',
+    ...(payload.url ? [`URL:${payload.url}`] : []),
+    'END:VEVENT',
+  ];
+};
+
+export const buildProtocolCalendar = (
+  protocol: ProtocolStatus,
+  options: { projectName: string; portalUrl: string | null; generatedAt?: Date },
+) => {
+  const stamp = toIcsTimestamp(options.generatedAt ?? new Date());
+  const url = options.portalUrl ? `${options.portalUrl.replace(/\/$/, '')}/protocol` : null;
+  const status = (value: string) => value.replace(/_/g, ' ');
+
+  const milestones = protocol.timeline.flatMap((item) =>
+    allDayEvent({
+      uid: `${item.id}@lucien.protocol`,
+      date: item.dueDate,
+      summary: `${item.slipped ? '[Slipped] ' : ''}Milestone: ${item.label}`,
+      description: `Engagement ${protocol.engagementId} · ${status(item.status)} · owner ${item.owner}`,
+      stamp,
+      url,
+    }),
+  );
+
+  const tasks = protocol.tasks
+    .filter((task): task is typeof task & { eta: string } => Boolean(task.eta))
+    .flatMap((task) =>
+      allDayEvent({
+        uid: `${task.id}@lucien.protocol`,
+        date: task.eta,
+        summary: `${task.slipped ? '[Slipped] ' : ''}Task due: ${task.label}`,
+        description: [
+          `Engagement ${protocol.engagementId} · ${status(task.status)} · owner ${task.owner}`,
+          task.blockedReason ? `Blocked: ${task.blockedReason}` : null,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        stamp,
+        url,
+      }),
+    );
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Lucien//Protocol Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${options.projectName} · Protocol`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...milestones,
+    ...tasks,
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n')
+    .concat('\r\n');
+};
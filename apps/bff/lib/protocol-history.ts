@@ -0,0 +1,279 @@
+import { createHash, randomUUID } from 'crypto';
+
+import 'server-only';
+
+import { getDb } from './db';
+import { erpClient } from './erp-client';
+import { buildProtocolStatus } from './protocol';
+
+import type { ProtocolStatus, ProtocolTask, ProtocolTimelineItem } from './protocol';
+
+export type ProtocolSnapshotPayload = {
+  timeline: Pick<
+    ProtocolTimelineItem,
+    'id' | 'label' | 'status' | 'startDate' | 'dueDate' | 'completedAt' | 'owner'
+  >[];
+  tasks: Pick<
+    ProtocolTask,
+    'id' | 'label' | 'status' | 'startDate' | 'eta' | 'completedAt' | 'owner' | 'milestoneId'
+  >[];
+};
+
+export type ProtocolSnapshot = {
+  id: string;
+  engagementId: string;
+  createdAt: string;
+  baseline: boolean;
+  baselineSetBy: string | null;
+  baselineSetAt: string | null;
+  payload: ProtocolSnapshotPayload;
+};
+
+export type ProtocolVarianceEntry = {
+  id: string;
+  label: string;
+  change: 'added' | 'removed' | 'moved' | 'unchanged';
+  baselineDate: string | null;
+  currentDate: string | null;
+  daysMoved: number | null;
+};
+
+export type ProtocolVariance = {
+  engagementId: string;
+  baseline: Omit<ProtocolSnapshot, 'payload'> | null;
+  currentSnapshotId: string | null;
+  milestones: ProtocolVarianceEntry[];
+  tasks: ProtocolVarianceEntry[];
+  maxSlipDays: number;
+  movedMilestones: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_HISTORY_ITEMS = 100;
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const toPayload = (protocol: ProtocolStatus): ProtocolSnapshotPayload => ({
+  timeline: protocol.timeline.map((item) => ({
+    id: item.id,
+    label: item.label,
+    status: item.status,
+    startDate: item.startDate,
+    dueDate: item.dueDate,
+    completedAt: item.completedAt,
+    owner: item.owner,
+  })),
+  tasks: protocol.tasks.map((task) => ({
+    id: task.id,
+    label: task.label,
+    status: task.status,
+    startDate: task.startDate,
+    eta: task.eta,
+    completedAt: task.completedAt,
+    owner: task.owner,
+    milestoneId: task.milestoneId,
+  })),
+});
+
+const mapSnapshot = (row: Record<string, unknown>): ProtocolSnapshot => {
+  return {
+    id: String(row.id),
+    engagementId: String(row.engagement_id),
+    createdAt: String(row.created_at),
+    baseline: Boolean(row.is_baseline),
+    baselineSetBy: row.baseline_set_by ? String(row.baseline_set_by) : null,
+    baselineSetAt: row.baseline_set_at ? String(row.baseline_set_at) : null,
+    payload: JSON.parse(String(row.payload)) as ProtocolSnapshotPayload,
+  };
+};
+
+const latestSnapshotRow = (engagementId: string) => {
+  return db
+    .prepare(
+      `SELECT * FROM protocol_snapshots WHERE engagement_id = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+    )
+    .get(engagementId) as Record<string, unknown> | undefined;
+};
+
+const serializeProtocol = (protocol: ProtocolStatus) => {
+  const payload = toPayload(protocol);
+  const serialized = JSON.stringify(payload);
+  return { payload, serialized, hash: createHash('sha256').update(serialized).digest('hex') };
+};
+
+// Called from mutation points only; reads never write snapshots.
+export const recordProtocolSnapshot = (protocol: ProtocolStatus): ProtocolSnapshot => {
+  const { serialized, hash } = serializeProtocol(protocol);
+
+  const latest = latestSnapshotRow(protocol.engagementId);
+  if (latest && latest.hash === hash) {
+    return mapSnapshot(latest);
+  }
+
+  const id = randomUUID();
+  const hasBaseline = db
+    .prepare('SELECT 1 FROM protocol_snapshots WHERE engagement_id = ? AND is_baseline = 1 LIMIT 1')
+    .get(protocol.engagementId);
+
+  db.prepare(
+    `INSERT INTO protocol_snapshots (id, engagement_id, hash, payload, is_baseline, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  ).run(id, protocol.engagementId, hash, serialized, hasBaseline ? 0 : 1, now());
+
+  return getProtocolSnapshot(protocol.engagementId, id) as ProtocolSnapshot;
+};
+
+export const loadCurrentProtocol = async (engagementId: string) => {
+  const [milestones, tasks] = await Promise.all([
+    erpClient.fetchMilestonesByProject(engagementId),
+    erpClient.fetchTasksByProject(engagementId),
+  ]);
+  const protocol = buildProtocolStatus(engagementId, milestones ?? [], tasks ?? []);
+  const { payload, hash } = serializeProtocol(protocol);
+  const latest = latestSnapshotRow(engagementId);
+  return {
+    protocol,
+    current: { id: latest && latest.hash === hash ? String(latest.id) : null, payload },
+  };
+};
+
+export const getProtocolSnapshot = (engagementId: string, snapshotId: string) => {
+  const row = db
+    .prepare('SELECT * FROM protocol_snapshots WHERE engagement_id = ? AND id = ? LIMIT 1')
+    .get(engagementId, snapshotId) as Record<string, unknown> | undefined;
+  return row ? mapSnapshot(row) : null;
+};
+
+export const getProtocolBaseline = (engagementId: string) => {
+  const row = db
+    .prepare('SELECT * FROM protocol_snapshots WHERE engagement_id = ? AND is_baseline = 1 LIMIT 1')
+    .get(engagementId) as Record<string, unknown> | undefined;
+  return row ? mapSnapshot(row) : null;
+};
+
+export const listProtocolSnapshots = (engagementId: string, limit = MAX_HISTORY_ITEMS) => {
+  const rows = db
+    .prepare(
+      `SELECT * FROM protocol_snapshots WHERE engagement_id = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+    )
+    .all(engagementId, limit) as Record<string, unknown>[];
+  return rows.map(mapSnapshot);
+};
+
+export const setProtocolBaseline = (engagementId: string, snapshotId: string, uid: string) => {
+  const snapshot = getProtocolSnapshot(engagementId, snapshotId);
+  if (!snapshot) return null;
+
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE protocol_snapshots
+       SET is_baseline = 0, baseline_set_by = NULL, baseline_set_at = NULL
+       WHERE engagement_id = ?`,
+    ).run(engagementId);
+    db.prepare(
+      `UPDATE protocol_snapshots
+       SET is_baseline = 1, baseline_set_by = ?, baseline_set_at = ?
+       WHERE engagement_id = ? AND id = ?`,
+    ).run(uid, now(), engagementId, snapshotId);
+  })();
+
+  return getProtocolSnapshot(engagementId, snapshotId);
+};
+
+const daysBetween = (from: string, to: string) => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+};
+
+const compareDates = (
+  baseline: { id: string; label: string; date: string | null }[],
+  current: { id: string; label: string; date: string | null }[],
+): ProtocolVarianceEntry[] => {
+  const baselineById = new Map(baseline.map((entry) => [entry.id, entry]));
+  const currentIds = new Set(current.map((entry) => entry.id));
+
+  const entries = current.map((entry): ProtocolVarianceEntry => {
+    const previous = baselineById.get(entry.id);
+    if (!previous) {
+      return {
+        id: entry.id,
+        label: entry.label,
+        change: 'added',
+        baselineDate: null,
+        currentDate: entry.date,
+        daysMoved: null,
+      };
+    }
+    const daysMoved = previous.date && entry.date ? daysBetween(previous.date, entry.date) : null;
+    return {
+      id: entry.id,
+      label: entry.label,
+      change: previous.date !== entry.date ? 'moved' : 'unchanged',
+      baselineDate: previous.date,
+      currentDate: entry.date,
+      daysMoved,
+    };
+  });
+
+  baseline
+    .filter((entry) => !currentIds.has(entry.id))
+    .forEach((entry) => {
+      entries.push({
+        id: entry.id,
+        label: entry.label,
+        change: 'removed',
+        baselineDate: entry.date,
+        currentDate: null,
+        daysMoved: null,
+      });
+    });
+
+  return entries;
+};
+
+export const diffProtocolSnapshots = (
+  engagementId: string,
+  baseline: ProtocolSnapshot | null,
+  current: { id: string | null; payload: ProtocolSnapshotPayload },
+): ProtocolVariance => {
+  const reference = baseline ?? current;
+  const milestones = compareDates(
+    reference.payload.timeline.map((item) => ({
+      id: item.id,
+      label: item.label,
+      date: item.dueDate,
+    })),
+    current.payload.timeline.map((item) => ({
+      id: item.id,
+      label: item.label,
+      date: item.dueDate,
+    })),
+  );
+  const tasks = compareDates(
+    reference.payload.tasks.map((task) => ({ id: task.id, label: task.label, date: task.eta })),
+    current.payload.tasks.map((task) => ({ id: task.id, label: task.label, date: task.eta })),
+  );
+  const slips = milestones.map((entry) => entry.daysMoved ?? 0);
+
+  return {
+    engagementId,
+    baseline: baseline
+      ? {
+          id: baseline.id,
+          engagementId: baseline.engagementId,
+          createdAt: baseline.createdAt,
+          baseline: baseline.baseline,
+          baselineSetBy: baseline.baselineSetBy,
+          baselineSetAt: baseline.baselineSetAt,
+        }
+      : null,
+    currentSnapshotId: current.id,
+    milestones,
+    tasks,
+    maxSlipDays: Math.max(0, ...slips),
+    movedMilestones: milestones.filter((entry) => entry.change === 'moved').length,
+  };
+};
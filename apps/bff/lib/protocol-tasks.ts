@@ -0,0 +1,152 @@
+import { randomUUID } from 'crypto';
+
+import 'server-only';
+
+import { getDb } from './db';
+
+import type { TaskRecord, TaskUpdate } from './erp-client';
+import type { ProtocolTask } from './protocol';
+
+export type ProtocolTaskTargetStatus = 'in_progress' | 'blocked' | 'complete';
+
+export type ProtocolTaskTransition = {
+  id: string;
+  taskId: string;
+  from: ProtocolTask['status'];
+  to: ProtocolTaskTargetStatus;
+  reason: string | null;
+  actorId: string;
+  actorRole: 'CLIENT' | 'OPERATOR';
+  override: boolean;
+  createdAt: string;
+};
+
+export const MAX_BLOCKED_REASON_LENGTH = 500;
+
+const PROTOCOL_TASK_TRANSITIONS: Record<ProtocolTask['status'], ProtocolTaskTargetStatus[]> = {
+  pending: ['in_progress', 'blocked', 'complete'],
+  ready: ['in_progress', 'blocked', 'complete'],
+  in_progress: ['blocked', 'complete'],
+  blocked: ['in_progress', 'blocked', 'complete'],
+  complete: ['in_progress'],
+};
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+export const isProtocolTaskTargetStatus = (value: unknown): value is ProtocolTaskTargetStatus => {
+  return value === 'in_progress' || value === 'blocked' || value === 'complete';
+};
+
+export const canTransitionProtocolTask = (
+  from: ProtocolTask['status'],
+  to: ProtocolTaskTargetStatus,
+  role: string | null,
+) => {
+  if (from === 'complete' && role !== 'OPERATOR') return false;
+  return PROTOCOL_TASK_TRANSITIONS[from].includes(to);
+};
+
+// Each party moves its own tasks. An operator may act on a client task only
+// with an explicit override, which the route requires a reason for and audits.
+export const canActOnProtocolTask = (task: ProtocolTask, role: string | null, override = false) => {
+  if (role === 'CLIENT') return task.owner === 'client';
+  if (role === 'OPERATOR') return task.owner === 'operator' || override;
+  return false;
+};
+
+export const isProtocolTaskOverride = (task: ProtocolTask, role: string | null) => {
+  return role === 'OPERATOR' && task.owner !== 'operator';
+};
+
+export const toTaskUpdate = (
+  record: TaskRecord,
+  to: ProtocolTaskTargetStatus,
+  reason: string | null,
+  at: Date,
+): TaskUpdate => {
+  switch (to) {
+    case 'complete':
+      return {
+        status: 'Completed',
+        completed_on: at.toISOString().slice(0, 10),
+        lucien_blocked_reason: null,
+      };
+    case 'blocked':
+      return {
+        status: record.status === 'Completed' || !record.status ? 'Open' : record.status,
+        completed_on: null,
+        lucien_blocked_reason: reason,
+      };
+    default:
+      return { status: 'Working', completed_on: null, lucien_blocked_reason: null };
+  }
+};
+
+const mapTransition = (row: Record<string, unknown>): ProtocolTaskTransition => {
+  return {
+    id: String(row.id),
+    taskId: String(row.task_id),
+    from: String(row.from_status) as ProtocolTaskTransition['from'],
+    to: String(row.to_status) as ProtocolTaskTransition['to'],
+    reason: row.reason ? String(row.reason) : null,
+    actorId: String(row.actor_id),
+    actorRole: row.actor_role === 'OPERATOR' ? 'OPERATOR' : 'CLIENT',
+    override: Boolean(row.override),
+    createdAt: String(row.created_at),
+  };
+};
+
+export const recordProtocolTaskTransition = (payload: {
+  engagementId: string;
+  taskId: string;
+  from: ProtocolTask['status'];
+  to: ProtocolTaskTargetStatus;
+  reason: string | null;
+  actorId: string;
+  actorRole: ProtocolTaskTransition['actorRole'];
+  override?: boolean;
+}): ProtocolTaskTransition => {
+  const transition: ProtocolTaskTransition = {
+    id: randomUUID(),
+    taskId: payload.taskId,
+    from: payload.from,
+    to: payload.to,
+    reason: payload.reason,
+    actorId: payload.actorId,
+    actorRole: payload.actorRole,
+    override: payload.override ?? false,
+    createdAt: now(),
+  };
+
+  db.prepare(
+    `INSERT INTO protocol_task_transitions
+      (id, engagement_id, task_id, from_status, to_status, reason, actor_id, actor_role,
+       override, created_at)
+     VALUES
+      (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    transition.id,
+    payload.engagementId,
+    transition.taskId,
+    transition.from,
+    transition.to,
+    transition.reason,
+    transition.actorId,
+    transition.actorRole,
+    transition.override ? 1 : 0,
+    transition.createdAt,
+  );
+
+  return transition;
+};
+
+export const listProtocolTaskTransitions = (taskId: string): ProtocolTaskTransition[] => {
+  const rows = db
+    .prepare(
+      'SELECT * FROM protocol_task_transitions WHERE task_id = ? ORDER BY created_at ASC, id ASC',
+    )
+    .all(taskId) as Record<string, unknown>[];
+  return rows.map(mapTransition);
+};
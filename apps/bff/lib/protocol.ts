@@ -0,0 +1,163 @@
+import 'server-only';
+
+import type { ProjectMilestoneRecord, TaskRecord } from './erp-client';
+
+export type ProtocolOwner = 'client' | 'operator';
+
+export type ProtocolTimelineItem = {
+  id: string;
+  label: string;
+  status: 'complete' | 'in_progress' | 'pending';
+  startDate: string | null;
+  dueDate: string;
+  completedAt: string | null;
+  owner: ProtocolOwner;
+  slipped: boolean;
+};
+
+export type ProtocolTask = {
+  id: string;
+  label: string;
+  status: 'blocked' | 'in_progress' | 'ready' | 'pending' | 'complete';
+  owner: ProtocolOwner;
+  milestoneId: string | null;
+  dependsOn: string[];
+  startDate: string | null;
+  eta: string | null;
+  completedAt: string | null;
+  blockedReason: string | null;
+  slipped: boolean;
+};
+
+export type ProtocolStatus = {
+  engagementId: string;
+  phase: string;
+  status: 'in_progress' | 'pending' | 'complete';
+  timeline: ProtocolTimelineItem[];
+  tasks: ProtocolTask[];
+  slippedMilestones: number;
+  note?: string;
+};
+
+const TASK_STATUS: Record<string, ProtocolTask['status']> = {
+  Open: 'pending',
+  Overdue: 'pending',
+  Working: 'in_progress',
+  'Pending Review': 'ready',
+  Completed: 'complete',
+};
+
+const toDate = (value?: string | null) => (value ? value.slice(0, 10) : null);
+
+const toOwner = (value?: string | null): ProtocolOwner => {
+  return value?.toLowerCase() === 'client' ? 'client' : 'operator';
+};
+
+export const isPastDue = (dueDate: string | null, now: Date) => {
+  return Boolean(dueDate && dueDate < now.toISOString().slice(0, 10));
+};
+
+export const toProtocolTask = (record: TaskRecord, now: Date): ProtocolTask => {
+  const mapped = TASK_STATUS[record.status ?? 'Open'] ?? 'pending';
+  const blockedReason = record.lucien_blocked_reason?.trim() || null;
+  const status = mapped !== 'complete' && blockedReason ? 'blocked' : mapped;
+  const eta = toDate(record.exp_end_date);
+
+  return {
+    id: record.name,
+    label: record.subject,
+    status,
+    owner: toOwner(record.lucien_owner),
+    milestoneId: record.lucien_milestone ?? null,
+    dependsOn: (record.depends_on_tasks ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+    startDate: toDate(record.exp_start_date),
+    eta,
+    completedAt: toDate(record.completed_on),
+    blockedReason: status === 'blocked' ? blockedReason : null,
+    slipped: status !== 'complete' && isPastDue(eta, now),
+  };
+};
+
+const toTimelineItem = (
+  record: ProjectMilestoneRecord,
+  tasks: ProtocolTask[],
+  now: Date,
+): ProtocolTimelineItem | null => {
+  const dueDate = toDate(record.milestone_date);
+  if (!dueDate) return null;
+
+  const milestoneTasks = tasks.filter((task) => task.milestoneId === record.name);
+  const complete =
+    record.status === 'Completed' ||
+    Boolean(record.completed_on) ||
+    (milestoneTasks.length > 0 && milestoneTasks.every((task) => task.status === 'complete'));
+  const started = milestoneTasks.some((task) => task.status !== 'pending');
+  const status = complete ? 'complete' : started ? 'in_progress' : 'pending';
+  const startDates = milestoneTasks
+    .map((task) => task.startDate)
+    .filter((value): value is string => Boolean(value))
+    .sort();
+
+  return {
+    id: record.name,
+    label: record.title,
+    status,
+    startDate: toDate(record.start_date) ?? startDates[0] ?? null,
+    dueDate,
+    completedAt:
+      toDate(record.completed_on) ??
+      (complete
+        ? (milestoneTasks
+            .map((task) => task.completedAt)
+            .filter((value): value is string => Boolean(value))
+            .sort()
+            .pop() ?? null)
+        : null),
+    owner: toOwner(record.lucien_owner),
+    slipped: status !== 'complete' && isPastDue(dueDate, now),
+  };
+};
+
+export const buildProtocolStatus = (
+  engagementId: string,
+  milestones: ProjectMilestoneRecord[],
+  taskRecords: TaskRecord[],
+  now = new Date(),
+): ProtocolStatus => {
+  const tasks = taskRecords
+    .filter((record) => record.status !== 'Cancelled' && record.status !== 'Template')
+    .map((record) => toProtocolTask(record, now))
+    .sort((a, b) => (a.eta ?? '9999').localeCompare(b.eta ?? '9999') || a.id.localeCompare(b.id));
+
+  const timeline = milestones
+    .map((record) => toTimelineItem(record, tasks, now))
+    .filter((item): item is ProtocolTimelineItem => Boolean(item))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.id.localeCompare(b.id));
+
+  const current = timeline.find((item) => item.status !== 'complete');
+  const steps = timeline.length ? timeline : tasks;
+  const status: ProtocolStatus['status'] =
+    steps.length && steps.every((item) => item.status === 'complete')
+      ? 'complete'
+      : steps.some((item) => item.status !== 'pending')
+        ? 'in_progress'
+        : 'pending';
+  const slippedMilestones = timeline.filter((item) => item.slipped).length;
+
+  return {
+    engagementId,
+    phase: current?.label ?? (status === 'complete' ? 'Complete' : 'Not scheduled'),
+    status,
+    timeline,
+    tasks,
+    slippedMilestones,
+    note: !timeline.length
+      ? 'No protocol milestones scheduled yet.'
+      : slippedMilestones
+        ? `${slippedMilestones} milestone${slippedMilestones === 1 ? '' : 's'} past due.`
+        : undefined,
+  };
+};
@@ -5,6 +5,24 @@ export type JsonParseResult<T> = {
   error: ReturnType<typeof errorResponse> | null;
 };
 
+const checkContentLength = (request: Request, maxBytes: number) => {
+  const rawLength = request.headers.get('content-length');
+  if (!rawLength) {
+    return errorResponse(411, 'length_required', 'Content-Length required.');
+  }
+
+  const contentLength = Number(rawLength);
+  if (!Number.isFinite(contentLength) || contentLength <= 0) {
+    return errorResponse(411, 'length_required', 'Content-Length required.');
+  }
+
+  if (contentLength > maxBytes) {
+    return errorResponse(413, 'payload_too_large', `Payload exceeds ${maxBytes} bytes.`);
+  }
+
+  return null;
+};
+
 export const parseJsonBody = async <T>(
   request: Request,
   options: { maxBytes: number },
@@ -17,36 +35,38 @@ export const parseJsonBody = async <T>(
     };
   }
 
-  const rawLength = request.headers.get('content-length');
-  if (!rawLength) {
-    return {
-      data: null,
-      error: errorResponse(411, 'length_required', 'Content-Length required.'),
-    };
+  const lengthError = checkContentLength(request, options.maxBytes);
+  if (lengthError) {
+    return { data: null, error: lengthError };
   }
 
-  const contentLength = Number(rawLength);
-  if (!Number.isFinite(contentLength) || contentLength <= 0) {
+  try {
+    const data = (await request.json()) as T;
+    return { data, error: null };
+  } catch {
     return {
       data: null,
-      error: errorResponse(411, 'length_required', 'Content-Length required.'),
+      error: errorResponse(400, 'invalid_payload', 'Invalid JSON payload.'),
     };
   }
+};
 
-  if (contentLength > options.maxBytes) {
-    return {
-      data: null,
-      error: errorResponse(413, 'payload_too_large', `Payload exceeds ${options.maxBytes} bytes.`),
-    };
+export const parseTextBody = async (
+  request: Request,
+  options: { maxBytes: number },
+): Promise<JsonParseResult<string>> => {
+  const lengthError = checkContentLength(request, options.maxBytes);
+  if (lengthError) {
+    return { data: null, error: lengthError };
   }
 
-  try {
-    const data = (await request.json()) as T;
-    return { data, error: null };
-  } catch {
+  const data = await request.text();
+  if (new TextEncoder().encode(data).byteLength > options.maxBytes) {
     return {
       data: null,
-      error: errorResponse(400, 'invalid_payload', 'Invalid JSON payload.'),
+      error: errorResponse(413, 'payload_too_large', `Payload exceeds ${options.maxBytes} bytes.`),
     };
   }
+
+  return { data, error: null };
 };
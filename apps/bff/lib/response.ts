@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 
+import type { Guard } from '@lucien/contracts';
+
 type HeaderValue = string | number;
 
 const SECURITY_HEADERS: Record<string, HeaderValue> = {
@@ -28,3 +30,10 @@ export const jsonResponse = <T>(data: T, init?: ResponseInit) => {
     headers: mergeSecurityHeaders(init?.headers),
   });
 };
+
+export const contractResponse = <T>(data: unknown, guard: Guard<T>, init?: ResponseInit) => {
+  if (process.env.NODE_ENV === 'development' && !guard(data)) {
+    throw new Error(`Response payload does not match @lucien/contracts (${guard.name}).`);
+  }
+  return jsonResponse(data as T, init);
+};
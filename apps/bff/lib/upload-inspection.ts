@@ -0,0 +1,284 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { open } from 'fs/promises';
+import { extname, isAbsolute, join, resolve } from 'path';
+
+import 'server-only';
+
+import { getDb } from './db';
+import { blobChunks, malwareScanner } from './malware-scanner';
+
+import type { MalwareScanResult } from './malware-scanner';
+import type { IntelTemplate } from '@lucien/contracts';
+
+export type UploadTypeRejection = {
+  code: 'file_type_blocked' | 'file_type_mismatch' | 'file_type_not_allowed';
+  reason: string;
+};
+
+export type IntelUploadInspection =
+  | { rejection: UploadTypeRejection }
+  | { rejection: null; detectedType: string; sha256: string; scan: MalwareScanResult };
+
+type FileSignature = { type: string; offset?: number; bytes: (number | null)[] };
+
+const SNIFF_BYTES = 4096;
+const DEFAULT_QUARANTINE_DIR = './data/quarantine';
+
+const SIGNATURES: FileSignature[] = [
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  {
+    type: 'image/webp',
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  },
+  { type: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  {
+    type: 'application/x-ole-storage',
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { type: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { type: 'application/vnd.rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { type: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { type: 'application/x-msdownload', bytes: [0x4d, 0x5a] },
+  { type: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { type: 'application/x-mach-binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { type: 'application/x-mach-binary', bytes: [0xfe, 0xed, 0xfa, 0xcf] },
+];
+
+const BLOCKED_REJECTION: UploadTypeRejection = {
+  code: 'file_type_blocked',
+  reason: 'Executable files are not accepted.',
+};
+
+const BLOCKED_TYPES = new Set([
+  'application/x-msdownload',
+  'application/x-executable',
+  'application/x-mach-binary',
+]);
+
+const EXTENSION_TYPES: Record<string, { type: string; detected: string[] }> = {
+  '.pdf': { type: 'application/pdf', detected: ['application/pdf'] },
+  '.png': { type: 'image/png', detected: ['image/png'] },
+  '.jpg': { type: 'image/jpeg', detected: ['image/jpeg'] },
+  '.jpeg': { type: 'image/jpeg', detected: ['image/jpeg'] },
+  '.gif': { type: 'image/gif', detected: ['image/gif'] },
+  '.webp': { type: 'image/webp', detected: ['image/webp'] },
+  '.tif': { type: 'image/tiff', detected: ['image/tiff'] },
+  '.tiff': { type: 'image/tiff', detected: ['image/tiff'] },
+  '.zip': { type: 'application/zip', detected: ['application/zip'] },
+  '.docx': {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    detected: ['application/zip'],
+  },
+  '.xlsx': {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    detected: ['application/zip'],
+  },
+  '.pptx': {
+    type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    detected: ['application/zip'],
+  },
+  '.doc': { type: 'application/msword', detected: ['application/x-ole-storage'] },
+  '.xls': { type: 'application/vnd.ms-excel', detected: ['application/x-ole-storage'] },
+  '.ppt': { type: 'application/vnd.ms-powerpoint', detected: ['application/x-ole-storage'] },
+  '.gz': { type: 'application/gzip', detected: ['application/gzip'] },
+  '.7z': { type: 'application/x-7z-compressed', detected: ['application/x-7z-compressed'] },
+  '.rar': { type: 'application/vnd.rar', detected: ['application/vnd.rar'] },
+  '.mp4': { type: 'video/mp4', detected: ['video/mp4'] },
+  '.mov': { type: 'video/quicktime', detected: ['video/mp4'] },
+  '.txt': { type: 'text/plain', detected: ['text/plain'] },
+  '.log': { type: 'text/plain', detected: ['text/plain'] },
+  '.csv': { type: 'text/csv', detected: ['text/plain'] },
+  '.md': { type: 'text/markdown', detected: ['text/plain'] },
+  '.json': { type: 'application/json', detected: ['text/plain'] },
+  '.xml': { type: 'application/xml', detected: ['text/plain'] },
+};
+
+const resolveQuarantineDir = (value?: string) => {
+  const raw = (value ?? DEFAULT_QUARANTINE_DIR).trim();
+  if (!raw) return resolve(process.cwd(), DEFAULT_QUARANTINE_DIR);
+  return isAbsolute(raw) ? raw : resolve(process.cwd(), raw);
+};
+
+const quarantineDir = resolveQuarantineDir(process.env.INTEL_QUARANTINE_DIR);
+mkdirSync(quarantineDir, { recursive: true });
+
+const db = getDb();
+
+const now = () => new Date().toISOString();
+
+const isText = (header: Uint8Array) => {
+  if (header.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(header, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const sniffFileType = (header: Uint8Array) => {
+  const signature = SIGNATURES.find(({ offset = 0, bytes }) =>
+    bytes.every((byte, index) => byte === null || header[offset + index] === byte),
+  );
+  if (signature) return signature.type;
+  return header.byteLength && isText(header) ? 'text/plain' : 'application/octet-stream';
+};
+
+const matchesAccept = (accept: string[], type: string, extension: string) => {
+  return accept.some((entry) => {
+    if (entry.startsWith('.')) return entry === extension;
+    if (entry.endsWith('/*')) return type.startsWith(entry.slice(0, -1));
+    return entry === type;
+  });
+};
+
+const checkAccept = (
+  accept: string[] | null,
+  type: string,
+  extension: string,
+): UploadTypeRejection | null => {
+  if (BLOCKED_TYPES.has(type)) return BLOCKED_REJECTION;
+  if (accept && !matchesAccept(accept, type, extension)) {
+    return { code: 'file_type_not_allowed', reason: `Accepted types: ${accept.join(', ')}.` };
+  }
+  return null;
+};
+
+export const resolveUploadAccept = (
+  template: IntelTemplate | null,
+  fieldKey: string | null,
+): { accept: string[] | null; error: string | null } => {
+  const fileFields = template?.fields.filter((field) => field.type === 'file') ?? [];
+
+  if (fieldKey) {
+    const field = fileFields.find((entry) => entry.key === fieldKey);
+    if (!field) return { accept: null, error: 'fieldKey must reference a file field.' };
+    return { accept: field.accept ?? null, error: null };
+  }
+
+  if (!fileFields.length || fileFields.some((field) => !field.accept)) {
+    return { accept: null, error: null };
+  }
+
+  return {
+    accept: Array.from(new Set(fileFields.flatMap((field) => field.accept ?? []))),
+    error: null,
+  };
+};
+
+export const checkDeclaredUploadType = (
+  fileName: string,
+  contentType: string,
+  accept: string[] | null,
+) => {
+  const extension = extname(fileName).toLowerCase();
+  return checkAccept(accept, EXTENSION_TYPES[extension]?.type ?? contentType, extension);
+};
+
+export const hashBlob = async (file: Blob) => {
+  const hash = createHash('sha256');
+  for await (const chunk of blobChunks(file)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+};
+
+export const inspectIntelUpload = async (
+  file: Blob,
+  fileName: string,
+  accept: string[] | null,
+): Promise<IntelUploadInspection> => {
+  const header = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const detected = sniffFileType(header);
+  const extension = extname(fileName).toLowerCase();
+  const expected = EXTENSION_TYPES[extension];
+
+  if (BLOCKED_TYPES.has(detected)) {
+    return { rejection: BLOCKED_REJECTION };
+  }
+
+  if (expected && !expected.detected.includes(detected)) {
+    return {
+      rejection: {
+        code: 'file_type_mismatch',
+        reason: `File content does not match the ${extension} extension.`,
+      },
+    };
+  }
+
+  const detectedType = expected?.type ?? detected;
+  const rejection = checkAccept(accept, detectedType, extension);
+  if (rejection) return { rejection };
+
+  return {
+    rejection: null,
+    detectedType,
+    sha256: await hashBlob(file),
+    scan: await malwareScanner.scan(file),
+  };
+};
+
+export const quarantineIntelUpload = async (file: Blob, sha256: string) => {
+  const path = join(quarantineDir, `${Date.now()}-${sha256}`);
+  const handle = await open(path, 'wx');
+  try {
+    for await (const chunk of blobChunks(file)) {
+      await handle.write(chunk);
+    }
+  } finally {
+    await handle.close();
+  }
+  return path;
+};
+
+export const describeScanFailure = (scan: MalwareScanResult) => {
+  return scan.status === 'infected'
+    ? `File quarantined: ${scan.signature ?? 'malware'} detected.`
+    : 'File quarantined: malware scan unavailable.';
+};
+
+export const recordIntelUploadInspection = (payload: {
+  userId: string;
+  engagementId: string;
+  requestId: string;
+  fileId: string | null;
+  fileName: string;
+  size: number;
+  sha256: string;
+  detectedType: string;
+  scan: MalwareScanResult;
+  quarantinePath: string | null;
+}) => {
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO intel_upload_inspections
+      (id, user_id, engagement_id, request_id, file_id, file_name, size, sha256, detected_type,
+       scan_engine, scan_status, scan_signature, quarantine_path, created_at)
+     VALUES
+      (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    id,
+    payload.userId,
+    payload.engagementId,
+    payload.requestId,
+    payload.fileId,
+    payload.fileName,
+    payload.size,
+    payload.sha256,
+    payload.detectedType,
+    payload.scan.engine,
+    payload.scan.status,
+    payload.scan.signature ?? null,
+    payload.quarantinePath,
+    now(),
+  );
+  return id;
+};
@@ -0,0 +1,148 @@
+import { deflateRawSync } from 'zlib';
+
+import 'server-only';
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+  modifiedAt?: Date;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const ZIP_VERSION = 20;
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// zlib.crc32 needs Node 20.15+, so the checksum is computed from a local table.
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+type CentralRecord = {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+const localHeader = (record: CentralRecord) => {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(record.compressedSize, 18);
+  header.writeUInt32LE(record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+};
+
+const centralHeader = (record: CentralRecord) => {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_VERSION, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.compressedSize, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt32LE(record.offset, 42);
+  return Buffer.concat([header, record.name]);
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number) => {
+  const footer = Buffer.alloc(22);
+  footer.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  footer.writeUInt16LE(count, 8);
+  footer.writeUInt16LE(count, 10);
+  footer.writeUInt32LE(size, 12);
+  footer.writeUInt32LE(offset, 16);
+  return footer;
+};
+
+export const createZipStream = (entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> => {
+  const iterator = entries[Symbol.asyncIterator]();
+  const records: CentralRecord[] = [];
+  let offset = 0;
+  let finished = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (finished) return;
+
+      const next = await iterator.next();
+      if (next.done) {
+        const central = Buffer.concat(records.map(centralHeader));
+        controller.enqueue(central);
+        controller.enqueue(endOfCentralDirectory(records.length, central.length, offset));
+        finished = true;
+        controller.close();
+        return;
+      }
+
+      const { name, data, modifiedAt } = next.value;
+      const deflated = deflateRawSync(data);
+      const method = deflated.length < data.byteLength ? METHOD_DEFLATE : METHOD_STORE;
+      const body = method === METHOD_DEFLATE ? deflated : data;
+      const record: CentralRecord = {
+        name: Buffer.from(name, 'utf8'),
+        method,
+        ...toDosDateTime(modifiedAt ?? new Date()),
+        crc: crc32(data),
+        compressedSize: body.byteLength,
+        size: data.byteLength,
+        offset,
+      };
+
+      const header = localHeader(record);
+      offset += header.length + body.byteLength;
+      if (offset > MAX_ZIP_SIZE || records.length >= MAX_ZIP_ENTRIES) {
+        throw new Error('ZIP archive exceeds the 4 GB / 65535 entry limit.');
+      }
+
+      records.push(record);
+      controller.enqueue(header);
+      controller.enqueue(body);
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+};
@@ -26,6 +26,10 @@ const getClientIp = (request: NextRequest): string => {
   return '0.0.0.0';
 };
 
+const SIGNED_FILE_PATH = /^\/api\/engagements\/[^/]+\/files\/[^/]+$/;
+const JOBS_PATH = /^\/api\/jobs\/[^/]+$/;
+const CALENDAR_FEED_PATH = /^\/api\/engagements\/[^/]+\/protocol\/calendar\.ics$/;
+
 const extractEngagementId = (pathname: string): string | null => {
   const match = pathname.match(/^\/api\/engagements\/([^/]+)(?:\/|$)/);
   return match?.[1] ?? null;
@@ -61,6 +65,18 @@ export async function middleware(request: NextRequest) {
   const isAuthMe = pathname.startsWith('/api/auth/me');
 
   if (!token) {
+    if (
+      (SIGNED_FILE_PATH.test(pathname) && request.nextUrl.searchParams.has('sig')) ||
+      (JOBS_PATH.test(pathname) && request.headers.has('x-jobs-secret')) ||
+      (CALENDAR_FEED_PATH.test(pathname) && request.nextUrl.searchParams.has('token'))
+    ) {
+      const headers = new Headers(request.headers);
+      Array.from(headers.keys())
+        .filter((key) => key.startsWith('x-lucien-'))
+        .forEach((key) => headers.delete(key));
+      return NextResponse.next({ request: { headers } });
+    }
+
     auditSecurity({ event: 'session_missing', ip });
     if (isAuthMe) {
       return NextResponse.next();
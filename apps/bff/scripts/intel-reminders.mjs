@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+const BASE_URL = (process.env.BFF_BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+const secret = process.env.JOBS_API_SECRET?.trim();
+const dryRun = process.argv.includes('--dry-run');
+
+if (!secret) {
+  console.error('JOBS_API_SECRET is required.');
+  process.exit(1);
+}
+
+const response = await fetch(`${BASE_URL}/api/jobs/intel-reminders${dryRun ? '?dryRun=1' : ''}`, {
+  method: 'POST',
+  headers: { 'x-jobs-secret': secret },
+});
+const payload = await response.json().catch(() => null);
+
+console.log(JSON.stringify(payload, null, 2));
+
+if (!response.ok) {
+  process.exit(1);
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+
+import { label, surface, text } from '../styles/tokens';
+
+import type { ContractItem } from '../lib/portal';
+
+type ContractSignDialogProps = {
+  contract: ContractItem;
+  busy: boolean;
+  error: string | null;
+  onConfirm: (typedName: string) => void;
+  onCancel: () => void;
+};
+
+const MAX_TYPED_NAME_LENGTH = 120;
+
+export default function ContractSignDialog({
+  contract,
+  busy,
+  error,
+  onConfirm,
+  onCancel,
+}: ContractSignDialogProps) {
+  const [typedName, setTypedName] = useState('');
+  const [consent, setConsent] = useState(false);
+  const normalizedName = typedName.trim().replace(/\s+/g, ' ');
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !busy) onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [busy, onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="contract-sign-title"
+        className={`${surface.panel} w-full max-w-md p-6`}
+      >
+        <p className={label.micro}>Sign contract</p>
+        <h2
+          id="contract-sign-title"
+          className="mt-2 text-sm uppercase tracking-widest text-gray-200"
+        >
+          {contract.label}
+        </h2>
+        <p className={`mt-3 text-xs ${text.muted}`}>
+          Review the attached documents first. Your typed name, IP address, browser and a hash of
+          the documents are stored as signature evidence, and a signed copy is added to the
+          contract.
+        </p>
+
+        <div className="mt-4 space-y-2">
+          <label htmlFor="contract-sign-name" className={label.micro}>
+            Full name
+          </label>
+          <input
+            id="contract-sign-name"
+            type="text"
+            autoFocus
+            autoComplete="name"
+            maxLength={MAX_TYPED_NAME_LENGTH}
+            value={typedName}
+            onChange={(event) => setTypedName(event.target.value)}
+            className={`${surface.input} w-full px-3 py-2 text-sm text-gray-200 focus:border-indigo-500 focus:outline-none`}
+          />
+        </div>
+
+        <label className="mt-4 flex items-start gap-2 text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={consent}
+            onChange={(event) => setConsent(event.target.checked)}
+            className="mt-0.5"
+          />
+          <span>I agree to sign the {contract.label} electronically and to be bound by it.</span>
+        </label>
+
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+          {error ? <p className="mr-auto text-[11px] font-mono text-rose-300">{error}</p> : null}
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={busy}
+            className="px-3 py-2 text-xs uppercase tracking-widest text-gray-400 transition hover:text-gray-200 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(normalizedName)}
+            disabled={busy || !consent || normalizedName.length < 2}
+            className="rounded-xl border border-emerald-400/40 bg-emerald-500/10 px-5 py-2 text-xs font-semibold uppercase tracking-widest text-emerald-200 transition hover:bg-emerald-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {busy ? 'Signing…' : 'Sign'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
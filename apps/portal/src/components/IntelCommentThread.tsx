@@ -0,0 +1,132 @@
+import { useState } from 'react';
+
+import { ApiResponseError } from '../lib/api';
+import { postIntelComment } from '../lib/intel';
+import { label, surface, text } from '../styles/tokens';
+
+import type { IntelCommentDTO } from '@lucien/contracts';
+
+type IntelCommentThreadProps = {
+  engagementId: string;
+  requestId: string;
+  fieldKey: string | null;
+  comments: IntelCommentDTO[];
+  lastReadAt: string | null;
+  role: 'CLIENT' | 'OPERATOR';
+  onPosted: (comment: IntelCommentDTO) => void;
+};
+
+const formatError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Comment rejected';
+    case 403:
+      return 'Request not accessible';
+    case 413:
+      return 'Comment too long (max 2000 characters)';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, retry';
+    default:
+      return 'Transmission error';
+  }
+};
+
+export default function IntelCommentThread({
+  engagementId,
+  requestId,
+  fieldKey,
+  comments,
+  lastReadAt,
+  role,
+  onPosted,
+}: IntelCommentThreadProps) {
+  const [body, setBody] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputId = `comment-${requestId}-${fieldKey ?? 'request'}`;
+
+  const handlePost = async () => {
+    const trimmed = body.trim();
+    if (!trimmed) return;
+
+    setPending(true);
+    setError(null);
+
+    try {
+      const comment = await postIntelComment(engagementId, requestId, {
+        fieldKey,
+        body: trimmed,
+      });
+      setBody('');
+      onPosted(comment);
+    } catch (err: unknown) {
+      setError(formatError(err instanceof ApiResponseError ? err.status : undefined));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className={`${surface.input} space-y-3 p-4`}>
+      {comments.length ? (
+        <ul className="space-y-3">
+          {comments.map((comment) => {
+            const unread =
+              comment.authorRole !== role && (!lastReadAt || comment.createdAt > lastReadAt);
+
+            return (
+              <li
+                key={comment.id}
+                className={`border-l-2 pl-3 ${unread ? 'border-amber-400/60' : 'border-white/10'}`}
+              >
+                <p className={`text-[11px] font-mono ${text.muted}`}>
+                  <span
+                    className={
+                      comment.authorRole === 'OPERATOR' ? 'text-indigo-200' : 'text-gray-200'
+                    }
+                  >
+                    {comment.authorRole === 'OPERATOR' ? 'Operator' : comment.authorId}
+                  </span>
+                  {' · '}
+                  {new Date(comment.createdAt).toLocaleString()}
+                  {unread ? <span className="ml-2 text-amber-300">New</span> : null}
+                </p>
+                <p className="mt-1 whitespace-pre-wrap text-sm text-gray-200">{comment.body}</p>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className={`text-sm ${text.muted}`}>No comments yet.</p>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor={inputId} className={label.micro}>
+          {fieldKey ? 'Comment on this field' : 'Ask a question'}
+        </label>
+        <textarea
+          id={inputId}
+          rows={2}
+          maxLength={2000}
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          className={`${surface.input} w-full px-3 py-2 text-sm text-gray-200 focus:border-indigo-500 focus:outline-none`}
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {error ? <p className="mr-auto text-[11px] font-mono text-rose-300">{error}</p> : null}
+        <button
+          type="button"
+          onClick={handlePost}
+          disabled={pending || !body.trim()}
+          className="rounded-xl border border-indigo-400/40 bg-indigo-500/10 px-4 py-2 text-[11px] font-semibold uppercase tracking-widest text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {pending ? 'Sending…' : 'Post comment'}
+        </button>
+      </div>
+    </div>
+  );
+}
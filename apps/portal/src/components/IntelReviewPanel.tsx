@@ -0,0 +1,156 @@
+import { resolveIntelFieldStates } from '@lucien/contracts';
+import { useState } from 'react';
+
+import { ApiResponseError } from '../lib/api';
+import { reviewIntelRequest } from '../lib/intel';
+import { label, surface, text } from '../styles/tokens';
+
+import type {
+  IntelField,
+  IntelRequestDTO,
+  IntelReviewDecision,
+  IntelReviewResponseDTO,
+} from '@lucien/contracts';
+
+type IntelReviewPanelProps = {
+  engagementId: string;
+  request: IntelRequestDTO;
+  onReviewed: (result: IntelReviewResponseDTO) => void;
+};
+
+const formatError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Comment required to request a revision';
+    case 409:
+      return 'Request is not awaiting review';
+    case 429:
+      return 'Rate limited, try later';
+    default:
+      return 'Review not recorded';
+  }
+};
+
+const formatAnswer = (field: IntelField, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const optionLabel = (entry: unknown) =>
+    field.options?.find((option) => option.value === entry)?.label ?? String(entry);
+  if (Array.isArray(value)) return value.length ? value.map(optionLabel).join(', ') : '—';
+  return optionLabel(value);
+};
+
+export default function IntelReviewPanel({
+  engagementId,
+  request,
+  onReviewed,
+}: IntelReviewPanelProps) {
+  const [comment, setComment] = useState('');
+  const [pending, setPending] = useState<IntelReviewDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const states = resolveIntelFieldStates(request.fields, request.answers ?? {});
+  const answerFields = request.fields.filter(
+    (field) => field.type !== 'file' && states[field.key].visible,
+  );
+  const attachments = request.attachments ?? [];
+
+  const handleDecision = async (decision: IntelReviewDecision) => {
+    if (decision === 'request_revision' && !comment.trim()) {
+      setError(formatError(400));
+      return;
+    }
+
+    setPending(decision);
+    setError(null);
+
+    try {
+      const result = await reviewIntelRequest(engagementId, request.id, {
+        decision,
+        comment: comment.trim() || undefined,
+      });
+      setComment('');
+      onReviewed(result);
+    } catch (err: unknown) {
+      setError(formatError(err instanceof ApiResponseError ? err.status : undefined));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className={`mt-8 ${surface.input} p-6`}>
+      <p className={label.micro}>Operator Review</p>
+
+      <div className="mt-4 grid grid-cols-1 gap-6 md:grid-cols-2">
+        <div>
+          <p className={label.micro}>Submitted Answers</p>
+          <dl className="mt-3 space-y-3">
+            {answerFields.map((field) => (
+              <div key={field.id ?? field.key}>
+                <dt className={`text-[11px] uppercase tracking-widest ${text.muted}`}>
+                  {field.label}
+                </dt>
+                <dd className="whitespace-pre-wrap text-sm text-gray-200">
+                  {formatAnswer(field, request.answers?.[field.key])}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          {!answerFields.length ? (
+            <p className={`mt-3 text-sm ${text.muted}`}>No answer fields.</p>
+          ) : null}
+        </div>
+
+        <div>
+          <p className={label.micro}>Attachments</p>
+          <ul className="mt-3 space-y-2">
+            {attachments.map((attachment) => (
+              <li key={attachment.id} className="text-sm text-indigo-200">
+                <a href={attachment.fileUrl} target="_blank" rel="noreferrer">
+                  {attachment.fileName}
+                </a>
+              </li>
+            ))}
+            {!attachments.length ? (
+              <li className={`text-sm ${text.muted}`}>No attachments.</li>
+            ) : null}
+          </ul>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-2">
+        <label htmlFor={`review-${request.id}`} className={label.micro}>
+          Reviewer comment
+        </label>
+        <textarea
+          id={`review-${request.id}`}
+          rows={3}
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          className={`${surface.input} w-full px-3 py-2 text-sm text-gray-200 focus:border-indigo-500 focus:outline-none`}
+        />
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+        {error ? <p className="mr-auto text-[11px] font-mono text-rose-300">{error}</p> : null}
+        <button
+          type="button"
+          onClick={() => handleDecision('request_revision')}
+          disabled={pending !== null}
+          className="rounded-xl border border-amber-400/40 bg-amber-500/10 px-5 py-2 text-xs font-semibold uppercase tracking-widest text-amber-200 transition hover:bg-amber-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {pending === 'request_revision' ? 'Sending…' : 'Request revision'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleDecision('accept')}
+          disabled={pending !== null}
+          className="rounded-xl border border-emerald-400/40 bg-emerald-500/10 px-5 py-2 text-xs font-semibold uppercase tracking-widest text-emerald-200 transition hover:bg-emerald-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {pending === 'accept' ? 'Accepting…' : 'Accept'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { resolveIntelFieldStates } from '@lucien/contracts';
+import { useState } from 'react';
+
+import { label, surface, text } from '../styles/tokens';
+
+import type { IntelAnswers, IntelTemplate } from '@lucien/contracts';
+
+type IntelTemplatePreviewProps = {
+  template: IntelTemplate;
+  title: string;
+  description: string;
+  dueDate: string;
+  clientVisible: boolean;
+};
+
+export default function IntelTemplatePreview({
+  template,
+  title,
+  description,
+  dueDate,
+  clientVisible,
+}: IntelTemplatePreviewProps) {
+  const [answers, setAnswers] = useState<IntelAnswers>({});
+
+  const clientFields = template.fields.filter(
+    (field) => !field.visibility || field.visibility === 'client_visible',
+  );
+  const hiddenCount = template.fields.length - clientFields.length;
+  const states = resolveIntelFieldStates(clientFields, answers);
+
+  const updateValue = (key: string, value: unknown) => {
+    setAnswers((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className={`${surface.deep} space-y-6 rounded-2xl border border-white/5 p-6`}>
+      <div className="space-y-2">
+        <p className={label.micro}>CLIENT PREVIEW</p>
+        <h2 className="text-lg font-semibold uppercase tracking-[0.2em] text-gray-100">
+          {title.trim() || template.name}
+        </h2>
+        {description.trim() ? (
+          <p className={`text-sm ${text.muted}`}>{description.trim()}</p>
+        ) : null}
+        <p className={`text-[11px] font-mono ${text.muted}`}>
+          {template.key} · v{template.version}
+          {dueDate ? ` · due ${dueDate}` : ''}
+        </p>
+        {!clientVisible ? (
+          <p className="text-xs text-amber-300">
+            Operator only — this request will not appear in the client portal.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="space-y-5">
+        {clientFields.map((field) => {
+          const state = states[field.key];
+          if (!state.visible) return null;
+
+          const value = answers[field.key];
+          const commonProps = {
+            id: `preview-${field.key}`,
+            className: `${surface.input} w-full px-3 py-2 text-sm text-gray-200 focus:border-indigo-500 focus:outline-none`,
+          };
+
+          return (
+            <div key={field.id ?? field.key} className="space-y-2">
+              <label htmlFor={`preview-${field.key}`} className={label.micro}>
+                {field.label}
+                {state.required ? (
+                  <span className={`ml-2 ${label.micro} text-amber-300`}>★ Required</span>
+                ) : null}
+              </label>
+
+              {field.type === 'textarea' ? (
+                <textarea
+                  {...commonProps}
+                  rows={3}
+                  value={(value as string) ?? ''}
+                  onChange={(event) => updateValue(field.key, event.target.value)}
+                />
+              ) : field.type === 'select' ? (
+                <select
+                  {...commonProps}
+                  value={(value as string) ?? ''}
+                  onChange={(event) => updateValue(field.key, event.target.value)}
+                >
+                  <option value="">Select</option>
+                  {field.options?.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : field.type === 'multiselect' ? (
+                <select
+                  {...commonProps}
+                  multiple
+                  value={(value as string[]) ?? []}
+                  onChange={(event) =>
+                    updateValue(
+                      field.key,
+                      Array.from(event.target.selectedOptions).map((option) => option.value),
+                    )
+                  }
+                >
+                  {field.options?.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : field.type === 'boolean' ? (
+                <label className={`flex items-center gap-3 px-3 py-2 ${surface.input}`}>
+                  <input
+                    type="checkbox"
+                    checked={value === true}
+                    onChange={(event) => updateValue(field.key, event.target.checked)}
+                    className="h-4 w-4 rounded border-white/20 bg-[#080808] text-indigo-500"
+                  />
+                  <span className="text-sm text-gray-200">Confirm</span>
+                </label>
+              ) : field.type === 'file' ? (
+                <div
+                  className={`border border-dashed border-white/10 px-4 py-3 text-[11px] font-mono ${text.muted}`}
+                >
+                  File upload{field.accept?.length ? ` · ${field.accept.join(', ')}` : ''}
+                </div>
+              ) : (
+                <input
+                  {...commonProps}
+                  type={
+                    field.type === 'number'
+                      ? 'number'
+                      : field.type === 'date'
+                        ? 'date'
+                        : field.type === 'email'
+                          ? 'email'
+                          : field.type === 'url'
+                            ? 'url'
+                            : 'text'
+                  }
+                  value={(value as string) ?? ''}
+                  onChange={(event) => updateValue(field.key, event.target.value)}
+                />
+              )}
+
+              {field.description ? (
+                <p className={`text-xs ${text.muted}`}>{field.description}</p>
+              ) : null}
+            </div>
+          );
+        })}
+        {!clientFields.length ? (
+          <p className={`text-sm ${text.muted}`}>No client-visible fields.</p>
+        ) : null}
+      </div>
+
+      {hiddenCount ? (
+        <p className={`text-[11px] font-mono ${text.muted}`}>
+          {hiddenCount} operator-only field{hiddenCount === 1 ? '' : 's'} hidden from the client.
+        </p>
+      ) : null}
+    </div>
+  );
+}
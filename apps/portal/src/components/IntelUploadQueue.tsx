@@ -0,0 +1,336 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+
+import { ApiResponseError } from '../lib/api';
+import {
+  cancelIntelUpload,
+  fetchIntelUpload,
+  finalizeIntelUpload,
+  initIntelUpload,
+  putIntelUploadChunk,
+} from '../lib/intel';
+import { surface, text } from '../styles/tokens';
+
+import type { IntelUploadResponseDTO } from '@lucien/contracts';
+import type { ForwardedRef } from 'react';
+
+type IntelUploadQueueProps = {
+  engagementId: string;
+  requestId: string;
+  fieldKey?: string;
+  accept?: string[];
+  disabled?: boolean;
+  onUploaded: (result: IntelUploadResponseDTO) => void;
+};
+
+export type IntelUploadQueueHandle = {
+  enqueue: (files: File[]) => void;
+};
+
+type QueueItem = {
+  id: string;
+  file: File;
+  uploadId: string | null;
+  chunkSize: number;
+  receivedBytes: number;
+  status: 'queued' | 'uploading' | 'paused' | 'error' | 'rejected' | 'done';
+  message?: string;
+};
+
+const UPLOAD_LIMIT_CODES = ['too_many_uploads', 'upload_quota_exceeded'];
+
+const formatError = (status?: number, code?: string) => {
+  if (code && UPLOAD_LIMIT_CODES.includes(code)) {
+    return 'Upload limit reached, finish open uploads first';
+  }
+  switch (status) {
+    case 403:
+      return 'Request locked';
+    case 404:
+      return 'Upload expired';
+    case 411:
+      return 'Proxy missing Content-Length';
+    case 413:
+      return 'File too large (max 1GB)';
+    case 415:
+      return 'File type not accepted';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, retry';
+    default:
+      return 'Transmission error';
+  }
+};
+
+const formatBytes = (value: number) => {
+  if (value >= 1024 * 1024 * 1024) return `${(value / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (value >= 1024 * 1024) return `${(value / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.ceil(value / 1024)} KB`;
+};
+
+const sha256Hex = async (data: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const statusStyles: Record<QueueItem['status'], string> = {
+  queued: 'text-gray-400',
+  uploading: 'text-indigo-200',
+  paused: 'text-amber-200',
+  error: 'text-rose-300',
+  rejected: 'text-rose-300',
+  done: 'text-emerald-300',
+};
+
+function IntelUploadQueue(
+  { engagementId, requestId, fieldKey, accept, disabled, onUploaded }: IntelUploadQueueProps,
+  ref: ForwardedRef<IntelUploadQueueHandle>,
+) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const itemsRef = useRef<QueueItem[]>([]);
+  const pausedRef = useRef<Set<string>>(new Set());
+  const runningRef = useRef(false);
+  const unmountedRef = useRef(false);
+
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+    };
+  }, []);
+
+  const updateItems = (update: (current: QueueItem[]) => QueueItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    if (!unmountedRef.current) {
+      setItems(itemsRef.current);
+    }
+  };
+
+  const patchItem = (id: string, patch: Partial<QueueItem>) => {
+    updateItems((current) =>
+      current.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+    );
+  };
+
+  const uploadItem = async (item: QueueItem) => {
+    patchItem(item.id, { status: 'uploading', message: undefined });
+
+    let { uploadId, chunkSize, receivedBytes } = item;
+
+    if (uploadId) {
+      try {
+        const session = await fetchIntelUpload(engagementId, uploadId);
+        chunkSize = session.chunkSize;
+        receivedBytes = session.receivedBytes;
+      } catch (err: unknown) {
+        if (!(err instanceof ApiResponseError) || err.status !== 404) throw err;
+        uploadId = null;
+      }
+    }
+
+    if (!uploadId) {
+      const session = await initIntelUpload(engagementId, {
+        requestId,
+        fieldKey,
+        fileName: item.file.name,
+        size: item.file.size,
+        contentType: item.file.type || 'application/octet-stream',
+      });
+      uploadId = session.uploadId;
+      chunkSize = session.chunkSize;
+      receivedBytes = session.receivedBytes;
+    }
+
+    patchItem(item.id, { uploadId, chunkSize, receivedBytes });
+
+    while (receivedBytes < item.file.size) {
+      if (pausedRef.current.has(item.id) || unmountedRef.current) {
+        patchItem(item.id, { status: 'paused' });
+        return;
+      }
+
+      const chunk = await item.file.slice(receivedBytes, receivedBytes + chunkSize).arrayBuffer();
+      try {
+        const session = await putIntelUploadChunk(engagementId, uploadId, {
+          offset: receivedBytes,
+          sha256: await sha256Hex(chunk),
+          chunk,
+        });
+        receivedBytes = session.receivedBytes;
+      } catch (err: unknown) {
+        const payload =
+          err instanceof ApiResponseError
+            ? (err.payload as { receivedBytes?: number } | undefined)
+            : undefined;
+        if (
+          !(err instanceof ApiResponseError) ||
+          err.status !== 409 ||
+          typeof payload?.receivedBytes !== 'number'
+        ) {
+          throw err;
+        }
+        receivedBytes = payload.receivedBytes;
+      }
+      patchItem(item.id, { receivedBytes });
+    }
+
+    const result = await finalizeIntelUpload(engagementId, uploadId);
+    if (result.status === 'failed') {
+      patchItem(item.id, { status: 'rejected', uploadId: null, message: result.message });
+      return;
+    }
+    patchItem(item.id, { status: 'done', uploadId: null, message: undefined });
+    onUploaded(result);
+  };
+
+  const runQueue = async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+
+    try {
+      let next = itemsRef.current.find((entry) => entry.status === 'queued');
+      while (next && !unmountedRef.current) {
+        try {
+          await uploadItem(next);
+        } catch (err: unknown) {
+          const status = err instanceof ApiResponseError ? err.status : undefined;
+          const code =
+            err instanceof ApiResponseError
+              ? (err.payload as { code?: string } | undefined)?.code
+              : undefined;
+          patchItem(
+            next.id,
+            status === 415
+              ? { status: 'rejected', uploadId: null, message: formatError(status) }
+              : { status: 'error', message: formatError(status, code) },
+          );
+        }
+        next = itemsRef.current.find((entry) => entry.status === 'queued');
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  };
+
+  const handleFiles = (files: FileList | File[] | null) => {
+    if (!files?.length) return;
+    const added = Array.from(files).map<QueueItem>((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      uploadId: null,
+      chunkSize: 0,
+      receivedBytes: 0,
+      status: 'queued',
+    }));
+    updateItems((current) => [...current, ...added]);
+    runQueue();
+  };
+
+  useImperativeHandle(ref, () => ({ enqueue: handleFiles }));
+
+  const handlePause = (item: QueueItem) => {
+    pausedRef.current.add(item.id);
+    if (item.status === 'queued') {
+      patchItem(item.id, { status: 'paused' });
+    }
+  };
+
+  const handleResume = (item: QueueItem) => {
+    pausedRef.current.delete(item.id);
+    patchItem(item.id, { status: 'queued', message: undefined });
+    runQueue();
+  };
+
+  const handleRemove = (item: QueueItem) => {
+    pausedRef.current.delete(item.id);
+    updateItems((current) => current.filter((entry) => entry.id !== item.id));
+    if (item.uploadId) {
+      cancelIntelUpload(engagementId, item.uploadId).catch(() => undefined);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="file"
+        multiple
+        accept={accept?.join(',')}
+        disabled={disabled}
+        className="block w-full text-sm text-gray-300 file:mr-4 file:rounded-md file:border-0 file:bg-indigo-500/10 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-indigo-200 hover:file:bg-indigo-500/20 disabled:opacity-40"
+        onChange={(event) => {
+          handleFiles(event.target.files);
+          event.target.value = '';
+        }}
+      />
+
+      {items.length ? (
+        <ul className="space-y-2">
+          {items.map((item) => {
+            const progress = item.file.size
+              ? Math.round((item.receivedBytes / item.file.size) * 100)
+              : 0;
+
+            return (
+              <li key={item.id} className={`${surface.input} space-y-2 px-3 py-2`}>
+                <div className="flex items-center justify-between gap-3">
+                  <p className="truncate text-sm text-gray-200">{item.file.name}</p>
+                  <div className="flex shrink-0 items-center gap-3 text-[11px] font-mono">
+                    <span className={statusStyles[item.status]}>
+                      {item.status === 'done' ? 'Uploaded' : (item.message ?? item.status)}
+                    </span>
+                    {item.status === 'uploading' || item.status === 'queued' ? (
+                      <button
+                        type="button"
+                        onClick={() => handlePause(item)}
+                        className="uppercase tracking-widest text-amber-200 hover:text-amber-100"
+                      >
+                        Pause
+                      </button>
+                    ) : null}
+                    {item.status === 'paused' || item.status === 'error' ? (
+                      <button
+                        type="button"
+                        onClick={() => handleResume(item)}
+                        className="uppercase tracking-widest text-indigo-200 hover:text-indigo-100"
+                      >
+                        {item.status === 'error' ? 'Retry' : 'Resume'}
+                      </button>
+                    ) : null}
+                    {item.status !== 'uploading' ? (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(item)}
+                        className={`uppercase tracking-widest ${text.muted} hover:text-gray-200`}
+                      >
+                        {item.status === 'done' ? 'Clear' : 'Remove'}
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+                <div className="h-1 w-full overflow-hidden rounded-full bg-white/10">
+                  <div
+                    className={`h-full transition-all ${
+                      item.status === 'error' || item.status === 'rejected'
+                        ? 'bg-rose-400'
+                        : item.status === 'done'
+                          ? 'bg-emerald-400'
+                          : 'bg-indigo-400'
+                    }`}
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+                <p className={`text-[11px] font-mono ${text.muted}`}>
+                  {formatBytes(item.receivedBytes)} / {formatBytes(item.file.size)} · {progress}%
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+export default forwardRef(IntelUploadQueue);
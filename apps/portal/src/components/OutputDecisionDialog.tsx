@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+
+import { label, surface, text } from '../styles/tokens';
+
+import type { OutputItem } from '../lib/portal';
+
+type OutputDecisionDialogProps = {
+  output: OutputItem;
+  decision: 'accept' | 'reject';
+  busy: boolean;
+  error: string | null;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+};
+
+const MAX_REASON_LENGTH = 1000;
+
+export default function OutputDecisionDialog({
+  output,
+  decision,
+  busy,
+  error,
+  onConfirm,
+  onCancel,
+}: OutputDecisionDialogProps) {
+  const [reason, setReason] = useState('');
+  const rejecting = decision === 'reject';
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !busy) onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [busy, onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="output-decision-title"
+        className={`${surface.panel} w-full max-w-md p-6`}
+      >
+        <p className={label.micro}>{rejecting ? 'Reject deliverable' : 'Accept deliverable'}</p>
+        <h2
+          id="output-decision-title"
+          className="mt-2 text-sm uppercase tracking-widest text-gray-200"
+        >
+          {output.title}
+        </h2>
+        <p className={`mt-3 text-xs ${text.muted}`}>
+          {rejecting
+            ? 'The operator is notified and the deliverable goes back for rework.'
+            : 'Accepting signs the deliverable off. This cannot be undone from the portal.'}
+        </p>
+
+        <div className="mt-4 space-y-2">
+          <label htmlFor="output-decision-reason" className={label.micro}>
+            {rejecting ? 'Reason (required)' : 'Comment (optional)'}
+          </label>
+          <textarea
+            id="output-decision-reason"
+            rows={3}
+            autoFocus
+            maxLength={MAX_REASON_LENGTH}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            className={`${surface.input} w-full px-3 py-2 text-sm text-gray-200 focus:border-indigo-500 focus:outline-none`}
+          />
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+          {error ? <p className="mr-auto text-[11px] font-mono text-rose-300">{error}</p> : null}
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={busy}
+            className="px-3 py-2 text-xs uppercase tracking-widest text-gray-400 transition hover:text-gray-200 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(reason.trim())}
+            disabled={busy || (rejecting && !reason.trim())}
+            className={`rounded-xl border px-5 py-2 text-xs font-semibold uppercase tracking-widest transition disabled:cursor-not-allowed disabled:opacity-40 ${
+              rejecting
+                ? 'border-rose-400/40 bg-rose-500/10 text-rose-200 hover:bg-rose-500/20'
+                : 'border-emerald-400/40 bg-emerald-500/10 text-emerald-200 hover:bg-emerald-500/20'
+            }`}
+          >
+            {busy ? 'Sending…' : rejecting ? 'Reject' : 'Accept'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
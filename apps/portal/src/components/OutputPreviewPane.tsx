@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+
+import { ApiResponseError } from '../lib/api';
+import { fetchOutputPreview, type OutputAttachment, type OutputPreview } from '../lib/portal';
+import { parseCsv, parseMarkdown, type InlineToken, type MarkdownBlock } from '../lib/preview';
+import { label, surface, text } from '../styles/tokens';
+
+type OutputPreviewPaneProps = {
+  engagementId: string;
+  outputId: string;
+  attachment: OutputAttachment;
+  onClose: () => void;
+};
+
+type PreviewState = {
+  preview: OutputPreview;
+  url: string | null;
+  text: string | null;
+};
+
+const MAX_CSV_ROWS = 500;
+
+const formatError = (status?: number) => {
+  switch (status) {
+    case 404:
+      return 'File no longer available';
+    case 413:
+      return 'File too large to preview, download it instead';
+    case 415:
+      return 'This file type cannot be previewed';
+    case 429:
+      return 'Rate limited, try later';
+    default:
+      return 'Preview unavailable';
+  }
+};
+
+const renderInline = (tokens: InlineToken[]) =>
+  tokens.map((token, index) => {
+    switch (token.type) {
+      case 'strong':
+        return <strong key={index}>{token.value}</strong>;
+      case 'em':
+        return <em key={index}>{token.value}</em>;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-white/10 px-1 font-mono text-[12px]">
+            {token.value}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={token.href}
+            target="_blank"
+            rel="noreferrer"
+            className="text-indigo-200 underline"
+          >
+            {token.value}
+          </a>
+        );
+      default:
+        return <span key={index}>{token.value}</span>;
+    }
+  });
+
+const headingClasses = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+const renderBlock = (block: MarkdownBlock, index: number) => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p
+          key={index}
+          className={`${headingClasses[block.level - 1]} font-semibold tracking-wide text-gray-100`}
+        >
+          {renderInline(block.content)}
+        </p>
+      );
+    case 'list': {
+      const ListTag = block.ordered ? 'ol' : 'ul';
+      return (
+        <ListTag
+          key={index}
+          className={`space-y-1 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+        >
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </ListTag>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className={`border-l-2 border-white/20 pl-3 ${text.muted}`}>
+          {renderInline(block.content)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre
+          key={index}
+          className={`${surface.deep} overflow-x-auto rounded-lg p-3 font-mono text-[12px]`}
+        >
+          {block.value}
+        </pre>
+      );
+    case 'rule':
+      return <hr key={index} className="border-white/10" />;
+    default:
+      return <p key={index}>{renderInline(block.content)}</p>;
+  }
+};
+
+export default function OutputPreviewPane({
+  engagementId,
+  outputId,
+  attachment,
+  onClose,
+}: OutputPreviewPaneProps) {
+  const [state, setState] = useState<PreviewState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    let url: string | null = null;
+    setState(null);
+    setError(null);
+
+    fetchOutputPreview(engagementId, outputId, attachment.id)
+      .then(async (preview) => {
+        const isText = preview.kind === 'markdown' || preview.kind === 'csv';
+        const content = isText ? await preview.blob.text() : null;
+        if (!active) return;
+        url = isText ? null : URL.createObjectURL(preview.blob);
+        setState({ preview, url, text: content });
+      })
+      .catch((err: unknown) => {
+        if (!active) return;
+        setError(formatError(err instanceof ApiResponseError ? err.status : undefined));
+      });
+
+    return () => {
+      active = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [engagementId, outputId, attachment.id]);
+
+  const renderBody = () => {
+    if (!state) return null;
+    const { preview, url } = state;
+
+    switch (preview.kind) {
+      case 'pdf':
+        return url ? (
+          <iframe title={attachment.name} src={url} className="h-[70vh] w-full rounded-lg" />
+        ) : null;
+      case 'image':
+        return url ? (
+          <img src={url} alt={attachment.name} className="mx-auto max-h-[70vh] rounded-lg" />
+        ) : null;
+      case 'markdown':
+        return (
+          <div className="space-y-3 text-sm leading-relaxed text-gray-200">
+            {parseMarkdown(state.text ?? '').map(renderBlock)}
+          </div>
+        );
+      case 'csv': {
+        const table = parseCsv(state.text ?? '', MAX_CSV_ROWS);
+        return (
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="w-full border-collapse text-left text-[12px] text-gray-200">
+              <thead>
+                <tr>
+                  {table.header.map((cell, index) => (
+                    <th
+                      key={index}
+                      className={`sticky top-0 border-b border-white/10 bg-[#0c0c0c] px-3 py-2 ${label.micro}`}
+                    >
+                      {cell}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-white/5">
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-3 py-1.5 font-mono">
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {table.truncated ? (
+              <p className={`mt-3 text-[11px] ${text.muted}`}>
+                Showing the first {MAX_CSV_ROWS} rows. Download the file for the full table.
+              </p>
+            ) : null}
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className={`mt-6 ${surface.input} p-6`}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className={label.micro}>Preview</p>
+          <p className="mt-1 truncate text-xs uppercase tracking-widest text-gray-200">
+            {attachment.name}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-4">
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noreferrer"
+            className="text-[10px] font-mono uppercase tracking-widest text-indigo-200 hover:text-indigo-100"
+          >
+            Download
+          </a>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[10px] font-mono uppercase tracking-widest text-gray-400 transition hover:text-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {state?.preview.watermark ? (
+        <p className={`mt-2 text-[10px] font-mono uppercase tracking-widest ${text.muted}`}>
+          Watermarked · {state.preview.watermark}
+        </p>
+      ) : null}
+
+      <div className="relative mt-4 min-h-[8rem]">
+        {!state && !error ? (
+          <p className={`text-xs uppercase tracking-widest ${text.muted}`}>Loading…</p>
+        ) : null}
+        {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+
+import { ApiResponseError } from '../lib/api';
+import {
+  fetchOutputQaChecklist,
+  setOutputQaItem,
+  type OutputQaChecklist,
+  type OutputQaChecklistItem,
+} from '../lib/portal';
+import { text } from '../styles/tokens';
+
+type OutputQaChecklistPanelProps = {
+  engagementId: string;
+  outputId: string;
+  onChange: (checklist: OutputQaChecklist) => void;
+};
+
+const formatError = (status?: number) => {
+  switch (status) {
+    case 403:
+      return 'Operator role required';
+    case 404:
+      return 'Deliverable not found';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, retry';
+    default:
+      return 'Checklist unavailable';
+  }
+};
+
+export default function OutputQaChecklistPanel({
+  engagementId,
+  outputId,
+  onChange,
+}: OutputQaChecklistPanelProps) {
+  const [checklist, setChecklist] = useState<OutputQaChecklist | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setChecklist(null);
+    setError(null);
+    fetchOutputQaChecklist(engagementId, outputId)
+      .then((response) => {
+        if (!active) return;
+        setChecklist(response.checklist);
+      })
+      .catch((err: unknown) => {
+        if (!active) return;
+        setError(formatError(err instanceof ApiResponseError ? err.status : undefined));
+      });
+    return () => {
+      active = false;
+    };
+  }, [engagementId, outputId]);
+
+  const handleToggle = async (item: OutputQaChecklistItem) => {
+    setBusyKey(item.key);
+    setError(null);
+    try {
+      const response = await setOutputQaItem(engagementId, outputId, {
+        item: item.key,
+        checked: !item.checked,
+      });
+      setChecklist(response.checklist);
+      onChange(response.checklist);
+    } catch (err: unknown) {
+      setError(formatError(err instanceof ApiResponseError ? err.status : undefined));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-white/5 pt-3">
+      {checklist?.items.map((item) => (
+        <label key={item.key} className="flex items-start gap-2 text-[11px] text-gray-300">
+          <input
+            type="checkbox"
+            checked={item.checked}
+            disabled={busyKey === item.key}
+            onChange={() => handleToggle(item)}
+            className="mt-0.5"
+          />
+          <span>
+            {item.label}
+            {item.mandatory ? <span className="text-rose-300"> *</span> : null}
+            {item.checked && item.checkedBy ? (
+              <span className={`block text-[10px] ${text.muted}`}>
+                {item.checkedBy}
+                {item.checkedAt ? ` · ${new Date(item.checkedAt).toLocaleString()}` : ''}
+              </span>
+            ) : null}
+          </span>
+        </label>
+      ))}
+      {!checklist && !error ? <p className={`text-[10px] ${text.muted}`}>Loading…</p> : null}
+      {error ? <p className="text-[10px] text-rose-300">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { label, text } from '../styles/tokens';
+
+import type { ProtocolTask, ProtocolTimelineItem } from '../lib/portal';
+
+type ProtocolGanttProps = {
+  timeline: ProtocolTimelineItem[];
+  tasks: ProtocolTask[];
+  now?: Date;
+};
+
+type GanttRow = {
+  id: string;
+  kind: 'milestone' | 'task';
+  label: string;
+  start: number;
+  end: number;
+  status: string;
+  slipped: boolean;
+  dependsOn: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 36;
+
+const barStyles: Record<string, string> = {
+  complete: 'bg-emerald-500/40 border-emerald-400/60',
+  in_progress: 'bg-indigo-500/40 border-indigo-400/60',
+  ready: 'bg-indigo-500/20 border-indigo-400/40',
+  blocked: 'bg-rose-500/30 border-rose-400/60',
+  pending: 'bg-white/5 border-white/20',
+};
+
+const toDay = (value: string) => Date.parse(`${value.slice(0, 10)}T00:00:00Z`);
+
+const buildRows = (timeline: ProtocolTimelineItem[], tasks: ProtocolTask[]) => {
+  const taskRow = (task: ProtocolTask): GanttRow | null => {
+    const end = task.eta ?? task.startDate;
+    if (!end) return null;
+    return {
+      id: task.id,
+      kind: 'task',
+      label: task.label,
+      start: toDay(task.startDate ?? end),
+      end: toDay(end) + DAY_MS,
+      status: task.status,
+      slipped: task.slipped,
+      dependsOn: task.dependsOn,
+    };
+  };
+
+  const rows: GanttRow[] = [];
+  timeline.forEach((item) => {
+    rows.push({
+      id: item.id,
+      kind: 'milestone',
+      label: item.label,
+      start: toDay(item.startDate ?? item.dueDate),
+      end: toDay(item.dueDate) + DAY_MS,
+      status: item.status,
+      slipped: item.slipped,
+      dependsOn: [],
+    });
+    tasks
+      .filter((task) => task.milestoneId === item.id)
+      .forEach((task) => {
+        const row = taskRow(task);
+        if (row) rows.push(row);
+      });
+  });
+
+  const milestoneIds = new Set(timeline.map((item) => item.id));
+  tasks
+    .filter((task) => !task.milestoneId || !milestoneIds.has(task.milestoneId))
+    .forEach((task) => {
+      const row = taskRow(task);
+      if (row) rows.push(row);
+    });
+
+  return rows;
+};
+
+const buildTicks = (start: number, end: number) => {
+  const ticks: number[] = [];
+  const cursor = new Date(start);
+  cursor.setUTCDate(1);
+  cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  while (cursor.getTime() < end) {
+    ticks.push(cursor.getTime());
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return ticks;
+};
+
+export default function ProtocolGantt({ timeline, tasks, now = new Date() }: ProtocolGanttProps) {
+  const rows = buildRows(timeline, tasks);
+  if (!rows.length) {
+    return (
+      <p className={`text-xs uppercase tracking-widest ${text.muted}`}>Nothing scheduled yet.</p>
+    );
+  }
+
+  const today = toDay(now.toISOString());
+  const rangeStart = Math.min(today, ...rows.map((row) => row.start)) - 3 * DAY_MS;
+  const rangeEnd = Math.max(today + DAY_MS, ...rows.map((row) => row.end)) + 3 * DAY_MS;
+  const span = rangeEnd - rangeStart;
+  const toPercent = (value: number) => ((value - rangeStart) / span) * 100;
+  const rowIndex = new Map(rows.map((row, index) => [row.id, index]));
+  const height = rows.length * ROW_HEIGHT;
+
+  const links = rows.flatMap((row) =>
+    row.dependsOn
+      .map((dependency) => {
+        const fromIndex = rowIndex.get(dependency);
+        if (fromIndex === undefined) return null;
+        const from = rows[fromIndex];
+        const toIndex = rowIndex.get(row.id) ?? 0;
+        const x1 = toPercent(from.end);
+        const x2 = toPercent(row.start);
+        const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+        const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+        const elbow = Math.max(x1, Math.min(x2, x1 + 1));
+        return {
+          id: `${dependency}->${row.id}`,
+          points: `${x1},${y1} ${elbow},${y1} ${elbow},${y2} ${x2},${y2}`,
+        };
+      })
+      .filter((link): link is { id: string; points: string } => Boolean(link)),
+  );
+
+  return (
+    <div className="grid grid-cols-[200px_1fr] gap-x-4">
+      <div />
+      <div className="relative h-6 border-b border-white/10">
+        {buildTicks(rangeStart, rangeEnd).map((tick) => (
+          <span
+            key={tick}
+            className={`absolute top-0 -translate-x-1/2 ${label.micro}`}
+            style={{ left: `${toPercent(tick)}%` }}
+          >
+            {new Date(tick).toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' })}
+          </span>
+        ))}
+      </div>
+
+      <div>
+        {rows.map((row) => (
+          <div
+            key={row.id}
+            className={`flex items-center truncate text-[11px] uppercase tracking-widest ${
+              row.kind === 'milestone' ? 'text-gray-200' : `pl-3 ${text.muted}`
+            }`}
+            style={{ height: ROW_HEIGHT }}
+            title={row.label}
+          >
+            {row.label}
+          </div>
+        ))}
+      </div>
+
+      <div className="relative" style={{ height }}>
+        <svg
+          className="pointer-events-none absolute inset-0 h-full w-full"
+          viewBox={`0 0 100 ${height}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+        >
+          {links.map((link) => (
+            <polyline
+              key={link.id}
+              points={link.points}
+              fill="none"
+              stroke="rgba(165, 180, 252, 0.5)"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+
+        {rows.map((row, index) => {
+          const left = toPercent(row.start);
+          const width = Math.max(toPercent(row.end) - left, 0.5);
+          const top = index * ROW_HEIGHT;
+
+          return row.kind === 'milestone' ? (
+            <div key={row.id} className="absolute inset-x-0" style={{ top, height: ROW_HEIGHT }}>
+              <div
+                className="absolute top-1/2 h-px -translate-y-1/2 bg-white/20"
+                style={{ left: `${left}%`, width: `${width}%` }}
+              />
+              <div
+                className={`absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border ${
+                  row.slipped ? 'border-rose-400 bg-rose-500/60' : barStyles[row.status]
+                }`}
+                style={{ left: `${toPercent(row.end - DAY_MS / 2)}%` }}
+                title={`${row.label} · ${row.status.replace('_', ' ')}`}
+              />
+            </div>
+          ) : (
+            <div
+              key={row.id}
+              className={`absolute rounded border ${barStyles[row.status] ?? barStyles.pending} ${
+                row.slipped ? 'ring-1 ring-rose-400/60' : ''
+              }`}
+              style={{
+                top: top + 10,
+                height: ROW_HEIGHT - 20,
+                left: `${left}%`,
+                width: `${width}%`,
+              }}
+              title={`${row.label} · ${row.status.replace('_', ' ')}`}
+            />
+          );
+        })}
+
+        <div
+          className="absolute inset-y-0 w-px bg-amber-300/70"
+          style={{ left: `${toPercent(today + DAY_MS / 2)}%` }}
+        >
+          <span className={`absolute -top-5 -translate-x-1/2 ${label.micro} text-amber-300`}>
+            Today
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
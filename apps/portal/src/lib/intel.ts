@@ -1,11 +1,32 @@
 import { apiFetch } from './api';
 
-import type { IntelRequestDTO, IntelUploadResponseDTO } from '@lucien/contracts';
+import type {
+  IntelAnswers,
+  IntelAttachmentDeleteResponseDTO,
+  IntelCommentDTO,
+  IntelCommentListDTO,
+  IntelDraftDTO,
+  IntelRequestDTO,
+  IntelReviewDecision,
+  IntelReviewResponseDTO,
+  IntelSubmitResponseDTO,
+  IntelTemplateListDTO,
+  IntelUploadResponseDTO,
+  IntelUploadSessionDTO,
+} from '@lucien/contracts';
 
 export const fetchIntelRequests = async (engagementId: string) => {
   return apiFetch<IntelRequestDTO[]>(`/api/engagements/${engagementId}/intel`);
 };
 
+export const intelExportUrl = (engagementId: string) => {
+  return `/api/engagements/${engagementId}/intel/export`;
+};
+
+export const fetchIntelTemplates = async () => {
+  return apiFetch<IntelTemplateListDTO>('/api/intel-templates');
+};
+
 export const uploadIntelFile = async (engagementId: string, requestId: string, file: File) => {
   const formData = new FormData();
   formData.append('file', file);
@@ -16,3 +37,134 @@ export const uploadIntelFile = async (engagementId: string, requestId: string, f
     body: formData,
   });
 };
+
+export const initIntelUpload = async (
+  engagementId: string,
+  payload: {
+    requestId: string;
+    fieldKey?: string;
+    fileName: string;
+    size: number;
+    contentType: string;
+  },
+) => {
+  return apiFetch<IntelUploadSessionDTO>(`/api/engagements/${engagementId}/intel/uploads`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+};
+
+export const fetchIntelUpload = async (engagementId: string, uploadId: string) => {
+  return apiFetch<IntelUploadSessionDTO>(
+    `/api/engagements/${engagementId}/intel/uploads/${uploadId}`,
+  );
+};
+
+export const putIntelUploadChunk = async (
+  engagementId: string,
+  uploadId: string,
+  payload: { offset: number; sha256: string; chunk: ArrayBuffer },
+) => {
+  return apiFetch<IntelUploadSessionDTO>(
+    `/api/engagements/${engagementId}/intel/uploads/${uploadId}`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Upload-Offset': payload.offset.toString(),
+        'X-Upload-Sha256': payload.sha256,
+      },
+      body: payload.chunk,
+    },
+  );
+};
+
+export const finalizeIntelUpload = async (engagementId: string, uploadId: string) => {
+  return apiFetch<IntelUploadResponseDTO>(
+    `/api/engagements/${engagementId}/intel/uploads/${uploadId}/finalize`,
+    { method: 'POST' },
+  );
+};
+
+export const cancelIntelUpload = async (engagementId: string, uploadId: string) => {
+  return apiFetch<{ uploadId: string; deleted: boolean }>(
+    `/api/engagements/${engagementId}/intel/uploads/${uploadId}`,
+    { method: 'DELETE' },
+  );
+};
+
+export const deleteIntelAttachment = async (
+  engagementId: string,
+  requestId: string,
+  fileId: string,
+) => {
+  return apiFetch<IntelAttachmentDeleteResponseDTO>(
+    `/api/engagements/${engagementId}/intel/${requestId}/attachments/${fileId}`,
+    { method: 'DELETE' },
+  );
+};
+
+export const submitIntelAnswers = async (
+  engagementId: string,
+  requestId: string,
+  answers: IntelAnswers,
+) => {
+  return apiFetch<IntelSubmitResponseDTO>(
+    `/api/engagements/${engagementId}/intel/${requestId}/submit`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ answers }),
+    },
+  );
+};
+
+export const fetchIntelDraft = async (engagementId: string, requestId: string) => {
+  return apiFetch<IntelDraftDTO>(`/api/engagements/${engagementId}/intel/${requestId}/draft`);
+};
+
+export const saveIntelDraft = async (
+  engagementId: string,
+  requestId: string,
+  answers: IntelAnswers,
+) => {
+  return apiFetch<IntelDraftDTO>(`/api/engagements/${engagementId}/intel/${requestId}/draft`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ answers }),
+  });
+};
+
+export const reviewIntelRequest = async (
+  engagementId: string,
+  requestId: string,
+  payload: { decision: IntelReviewDecision; comment?: string },
+) => {
+  return apiFetch<IntelReviewResponseDTO>(
+    `/api/engagements/${engagementId}/intel/${requestId}/review`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    },
+  );
+};
+
+export const fetchIntelComments = async (engagementId: string, requestId: string) => {
+  return apiFetch<IntelCommentListDTO>(
+    `/api/engagements/${engagementId}/intel/${requestId}/comments`,
+  );
+};
+
+export const postIntelComment = async (
+  engagementId: string,
+  requestId: string,
+  payload: { fieldKey?: string | null; body: string },
+) => {
+  return apiFetch<IntelCommentDTO>(`/api/engagements/${engagementId}/intel/${requestId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+};
@@ -1,4 +1,4 @@
-import { apiFetch } from './api';
+import { ApiResponseError, apiFetch } from './api';
 
 export type AuthMeResponse = {
   uid?: string | null;
@@ -75,9 +75,25 @@ export type ContractItem = {
   label: string;
   status: ContractStatus;
   updatedAt: string | null;
-  attachments: Array<{ id: string; name: string }>;
+  attachments: Array<{ id: string; name: string; url?: string }>;
+  signature: {
+    signedBy: string | null;
+    signedAt: string | null;
+    signatureId: string | null;
+  } | null;
+  signable: boolean;
 };
 
+export type ContractSignResponse =
+  | {
+      engagementId: string;
+      status: 'completed';
+      signatureId: string;
+      documentHash: string;
+      contract: ContractItem;
+    }
+  | { engagementId: string; status: 'pending'; signatureId: string; redirectUrl: string };
+
 export type ContractsResponse = {
   engagementId: string;
   wired: boolean;
@@ -85,7 +101,32 @@ export type ContractsResponse = {
   message?: string;
 };
 
-export type OutputStatus = 'pending' | 'in_progress' | 'delivered' | 'accepted';
+export type OutputStatus = 'pending' | 'in_progress' | 'delivered' | 'accepted' | 'rejected';
+
+export type OutputDecision = {
+  decision: 'accepted' | 'rejected';
+  reason: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+};
+
+export type OutputAttachment = {
+  id: string;
+  name: string;
+  size: number | null;
+  uploadedAt: string | null;
+  url: string;
+};
+
+export type OutputRevision = {
+  id: string;
+  version: number;
+  summary: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+  attachments: OutputAttachment[];
+  changes: { added: string[]; removed: string[]; updated: string[] } | null;
+};
 
 export type OutputItem = {
   id: string;
@@ -93,7 +134,10 @@ export type OutputItem = {
   category: string;
   status: OutputStatus;
   updatedAt: string | null;
-  attachments: Array<{ id: string; name: string; size?: number }>;
+  decision?: OutputDecision | null;
+  currentVersion?: number | null;
+  revisions?: OutputRevision[];
+  attachments: OutputAttachment[];
 };
 
 export type OutputsResponse = {
@@ -179,10 +223,75 @@ export async function fetchContracts(id: string) {
   return apiFetch<ContractsResponse>(`/api/engagements/${id}/contracts`);
 }
 
+export async function signContract(
+  id: string,
+  type: ContractItem['type'],
+  payload: { typedName: string; consent: true },
+) {
+  return apiFetch<ContractSignResponse>(`/api/engagements/${id}/contracts/${type}/sign`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
 export async function fetchOutputs(id: string) {
   return apiFetch<OutputsResponse>(`/api/engagements/${id}/outputs`);
 }
 
+export async function postOutputDecision(
+  id: string,
+  outputId: string,
+  payload: { decision: 'accept' | 'reject'; reason?: string },
+) {
+  return apiFetch<{ engagementId: string; output: OutputItem }>(
+    `/api/engagements/${id}/outputs/${outputId}/decision`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    },
+  );
+}
+
+export type OutputPreviewKind = 'pdf' | 'image' | 'markdown' | 'csv';
+
+export type OutputPreview = {
+  kind: OutputPreviewKind;
+  blob: Blob;
+  watermark: string | null;
+};
+
+export const isPreviewableFile = (fileName: string) => {
+  return /\.(pdf|png|jpe?g|gif|webp|md|markdown|csv)$/i.test(fileName);
+};
+
+export async function fetchOutputPreview(
+  id: string,
+  outputId: string,
+  fileId: string,
+): Promise<OutputPreview> {
+  const response = await fetch(
+    `/api/engagements/${id}/outputs/${outputId}/files/${encodeURIComponent(fileId)}/preview`,
+    { credentials: 'include' },
+  );
+
+  if (!response.ok) {
+    const isJson = (response.headers.get('content-type') ?? '').includes('application/json');
+    throw new ApiResponseError(
+      response.status,
+      response.statusText,
+      isJson ? await response.json() : undefined,
+    );
+  }
+
+  return {
+    kind: (response.headers.get('x-lucien-preview-kind') ?? 'pdf') as OutputPreviewKind,
+    blob: await response.blob(),
+    watermark: response.headers.get('x-lucien-watermark'),
+  };
+}
+
 export async function fetchSecureStatus(id: string) {
   return apiFetch<SecureChannelStatusResponse>(`/api/engagements/${id}/secure-channel/status`);
 }
@@ -217,16 +326,25 @@ export type ProtocolTimelineItem = {
   id: string;
   label: string;
   status: 'complete' | 'in_progress' | 'pending';
+  startDate: string | null;
   dueDate: string;
+  completedAt: string | null;
   owner: 'client' | 'operator';
+  slipped: boolean;
 };
 
 export type ProtocolTask = {
   id: string;
   label: string;
-  status: 'blocked' | 'in_progress' | 'ready' | 'pending';
+  status: 'blocked' | 'in_progress' | 'ready' | 'pending' | 'complete';
   owner: 'client' | 'operator';
-  eta: string;
+  milestoneId: string | null;
+  dependsOn: string[];
+  startDate: string | null;
+  eta: string | null;
+  completedAt: string | null;
+  blockedReason: string | null;
+  slipped: boolean;
 };
 
 export type ProtocolResponse = {
@@ -235,6 +353,7 @@ export type ProtocolResponse = {
   status: 'in_progress' | 'pending' | 'complete';
   timeline: ProtocolTimelineItem[];
   tasks: ProtocolTask[];
+  slippedMilestones: number;
   note?: string;
 };
 
@@ -242,6 +361,120 @@ export async function fetchProtocolStatus(id: string) {
   return apiFetch<ProtocolResponse>(`/api/engagements/${id}/protocol`);
 }
 
+export type ProtocolCalendarFeedResponse = {
+  engagementId: string;
+  feedUrl: string;
+};
+
+export async function createProtocolCalendarFeed(id: string) {
+  return apiFetch<ProtocolCalendarFeedResponse>(`/api/engagements/${id}/protocol/calendar`, {
+    method: 'POST',
+  });
+}
+
+export async function revokeProtocolCalendarFeed(id: string) {
+  return apiFetch<{ engagementId: string; revoked: boolean }>(
+    `/api/engagements/${id}/protocol/calendar`,
+    { method: 'DELETE' },
+  );
+}
+
+export type ProtocolSnapshot = {
+  id: string;
+  engagementId: string;
+  createdAt: string;
+  baseline: boolean;
+  baselineSetBy: string | null;
+  baselineSetAt: string | null;
+  payload?: {
+    timeline: Pick<ProtocolTimelineItem, 'id' | 'label' | 'status' | 'dueDate'>[];
+    tasks: Pick<ProtocolTask, 'id' | 'label' | 'status' | 'eta'>[];
+  };
+};
+
+export type ProtocolHistoryResponse = {
+  engagementId: string;
+  items: ProtocolSnapshot[];
+};
+
+export type ProtocolVarianceEntry = {
+  id: string;
+  label: string;
+  change: 'added' | 'removed' | 'moved' | 'unchanged';
+  baselineDate: string | null;
+  currentDate: string | null;
+  daysMoved: number | null;
+};
+
+export type ProtocolVarianceResponse = {
+  engagementId: string;
+  baseline: ProtocolSnapshot | null;
+  currentSnapshotId: string | null;
+  milestones: ProtocolVarianceEntry[];
+  tasks: ProtocolVarianceEntry[];
+  maxSlipDays: number;
+  movedMilestones: number;
+};
+
+export async function fetchProtocolHistory(id: string, limit?: number) {
+  const query = limit ? `?${new URLSearchParams({ limit: String(limit) })}` : '';
+  return apiFetch<ProtocolHistoryResponse>(`/api/engagements/${id}/protocol/history${query}`);
+}
+
+export async function fetchProtocolVariance(id: string) {
+  return apiFetch<ProtocolVarianceResponse>(`/api/engagements/${id}/protocol/baseline`);
+}
+
+export async function recordProtocolSnapshot(id: string) {
+  return apiFetch<{ engagementId: string; snapshot: ProtocolSnapshot }>(
+    `/api/engagements/${id}/protocol/history`,
+    { method: 'POST' },
+  );
+}
+
+export async function setProtocolBaseline(id: string, snapshotId: string) {
+  return apiFetch<{ engagementId: string; baseline: ProtocolSnapshot }>(
+    `/api/engagements/${id}/protocol/baseline`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ snapshotId }),
+    },
+  );
+}
+
+export type ProtocolTaskTargetStatus = 'in_progress' | 'blocked' | 'complete';
+
+export type ProtocolTaskTransition = {
+  id: string;
+  taskId: string;
+  from: ProtocolTask['status'];
+  to: ProtocolTaskTargetStatus;
+  reason: string | null;
+  actorId: string;
+  actorRole: 'CLIENT' | 'OPERATOR';
+  override: boolean;
+  createdAt: string;
+};
+
+export type ProtocolTaskUpdateResponse = {
+  engagementId: string;
+  task: ProtocolTask;
+  transition: ProtocolTaskTransition;
+};
+
+export async function updateProtocolTask(
+  id: string,
+  taskId: string,
+  payload: { status: ProtocolTaskTargetStatus; reason?: string; override?: boolean },
+) {
+  return apiFetch<ProtocolTaskUpdateResponse>(`/api/engagements/${id}/protocol/tasks/${taskId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
 export type BillingInvoice = {
   id: string;
   amount: number;
@@ -293,6 +526,9 @@ export type OpsRequestItem = {
   required: boolean;
   visibility: string;
   assignedTo: string;
+  templateKey: string;
+  templateVersion: number | null;
+  dueDate: string | null;
 };
 
 export type OpsRequestsResponse = {
@@ -300,21 +536,65 @@ export type OpsRequestsResponse = {
   items: OpsRequestItem[];
 };
 
+export type OpsRequestCreatePayload = {
+  templateKey: string;
+  title: string;
+  description?: string;
+  dueDate: string | null;
+  required: boolean;
+  visibility: 'client_visible' | 'operator_only';
+};
+
+export type OpsRequestCreateResponse = {
+  engagementId: string;
+  item: OpsRequestItem;
+};
+
 export async function fetchOpsRequests(id: string) {
   return apiFetch<OpsRequestsResponse>(`/api/engagements/${id}/ops/requests`);
 }
 
+export async function createOpsRequest(id: string, payload: OpsRequestCreatePayload) {
+  return apiFetch<OpsRequestCreateResponse>(`/api/engagements/${id}/ops/requests`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+export type DeliveryTier = 'INTEL_ONLY' | 'BLUEPRINT' | 'CUSTOM';
+
 export type DeliveryStage = {
   id: string;
   label: string;
-  status: 'complete' | 'in_progress' | 'pending';
   owner: 'client' | 'operator';
-  updatedAt: string;
+  clientDecision: boolean;
+  requiresQa: boolean;
+};
+
+export type DeliveryPipelineItem = {
+  id: string;
+  title: string;
+  category: string;
+  stageId: string;
+  owner: 'client' | 'operator';
+  erpStatus: string | null;
+  updatedAt: string | null;
+  canAdvance: boolean;
+  canRegress: boolean;
+  qa?: {
+    checked: number;
+    total: number;
+    mandatoryOpen: number;
+    complete: boolean;
+  };
 };
 
 export type DeliveryPipelineResponse = {
   engagementId: string;
+  tier: DeliveryTier;
   stages: DeliveryStage[];
+  items: DeliveryPipelineItem[];
   note?: string;
 };
 
@@ -322,6 +602,58 @@ export async function fetchDeliveryPipeline(id: string) {
   return apiFetch<DeliveryPipelineResponse>(`/api/engagements/${id}/ops/delivery`);
 }
 
+export async function transitionDeliveryItem(
+  id: string,
+  stageId: string,
+  payload: { outputId: string; direction: 'advance' | 'regress' },
+) {
+  return apiFetch<{ engagementId: string; tier: DeliveryTier; item: DeliveryPipelineItem }>(
+    `/api/engagements/${id}/ops/delivery/${stageId}/transition`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    },
+  );
+}
+
+export type OutputQaChecklistItem = {
+  key: string;
+  label: string;
+  mandatory: boolean;
+  checked: boolean;
+  checkedBy: string | null;
+  checkedAt: string | null;
+};
+
+export type OutputQaChecklist = {
+  outputId: string;
+  category: string;
+  items: OutputQaChecklistItem[];
+  complete: boolean;
+};
+
+export async function fetchOutputQaChecklist(id: string, outputId: string) {
+  return apiFetch<{ engagementId: string; checklist: OutputQaChecklist }>(
+    `/api/engagements/${id}/ops/qa/${outputId}`,
+  );
+}
+
+export async function setOutputQaItem(
+  id: string,
+  outputId: string,
+  payload: { item: string; checked: boolean },
+) {
+  return apiFetch<{ engagementId: string; checklist: OutputQaChecklist }>(
+    `/api/engagements/${id}/ops/qa/${outputId}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    },
+  );
+}
+
 export type AccessRole = {
   role: string;
   assigned: boolean;
@@ -0,0 +1,168 @@
+export type InlineToken =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; value: string }
+  | { type: 'em'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'link'; value: string; href: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: InlineToken[] }
+  | { type: 'paragraph'; content: InlineToken[] }
+  | { type: 'list'; ordered: boolean; items: InlineToken[][] }
+  | { type: 'quote'; content: InlineToken[] }
+  | { type: 'code'; value: string }
+  | { type: 'rule' };
+
+const INLINE_PATTERN =
+  /(\*\*([^*]+)\*\*|__([^_]+)__|\*([^*]+)\*|_([^_]+)_|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\))/g;
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) tokens.push({ type: 'text', value: text.slice(cursor, index) });
+
+    if (match[2] ?? match[3]) {
+      tokens.push({ type: 'strong', value: match[2] ?? match[3] });
+    } else if (match[4] ?? match[5]) {
+      tokens.push({ type: 'em', value: match[4] ?? match[5] });
+    } else if (match[6]) {
+      tokens.push({ type: 'code', value: match[6] });
+    } else if (/^https?:\/\//i.test(match[8])) {
+      tokens.push({ type: 'link', value: match[7], href: match[8] });
+    } else {
+      tokens.push({ type: 'text', value: match[7] });
+    }
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < text.length) tokens.push({ type: 'text', value: text.slice(cursor) });
+  return tokens;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith('```')) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ type: 'code', value: code.join('\n') });
+      continue;
+    }
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      flushParagraph();
+      blocks.push({ type: 'quote', content: parseInline(trimmed.replace(/^>\s?/, '')) });
+      continue;
+    }
+
+    const listItem = /^([-*+]|\d+[.)])\s+(.*)$/.exec(trimmed);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(parseInline(listItem[2]));
+      } else {
+        blocks.push({ type: 'list', ordered, items: [parseInline(listItem[2])] });
+      }
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+export const parseCsv = (source: string, maxRows: number) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let truncated = false;
+  const text = source.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      endRow();
+      if (rows.length > maxRows + 1) {
+        truncated = true;
+        break;
+      }
+    } else {
+      field += char;
+    }
+  }
+
+  if (!truncated && (field || row.length)) endRow();
+
+  const [header = [], ...body] = rows;
+  return { header, rows: body.slice(0, maxRows), truncated: truncated || body.length > maxRows };
+};
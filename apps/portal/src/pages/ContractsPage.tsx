@@ -1,9 +1,10 @@
 import { useEffect, useState } from 'react';
 
+import ContractSignDialog from '../components/ContractSignDialog';
 import ModulePlaceholder from '../components/ModulePlaceholder';
 import { usePortalContext } from '../layout/PortalShell';
 import { ApiResponseError } from '../lib/api';
-import { fetchContracts, type ContractItem } from '../lib/portal';
+import { fetchContracts, signContract, type ContractItem } from '../lib/portal';
 import { label, surface, text } from '../styles/tokens';
 
 const formatError = (status?: number) => {
@@ -19,6 +20,27 @@ const formatError = (status?: number) => {
   }
 };
 
+const formatSignError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Type your full name and confirm';
+    case 403:
+      return 'Only the client can sign';
+    case 404:
+      return 'Contract not found';
+    case 409:
+      return 'Contract is already signed or being signed';
+    case 429:
+      return 'Rate limited, try later';
+    case 501:
+      return 'Signing is not configured';
+    case 502:
+      return 'ERP unavailable, retry';
+    default:
+      return 'Signature not recorded';
+  }
+};
+
 const statusClasses = (status: ContractItem['status']) => {
   switch (status) {
     case 'signed':
@@ -34,12 +56,17 @@ const statusClasses = (status: ContractItem['status']) => {
 };
 
 export default function ContractsPage() {
-  const { engagementId, summary } = usePortalContext();
+  const { engagementId, summary, role } = usePortalContext();
   const moduleState = summary?.modules?.contracts?.state ?? null;
   const [items, setItems] = useState<ContractItem[]>([]);
   const [wired, setWired] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [signing, setSigning] = useState<ContractItem | null>(null);
+  const [signState, setSignState] = useState<{ busy: boolean; error: string | null }>({
+    busy: false,
+    error: null,
+  });
 
   const shouldFetch = Boolean(engagementId) && moduleState !== 'locked';
 
@@ -80,6 +107,37 @@ export default function ContractsPage() {
     };
   }, [shouldFetch, engagementId]);
 
+  const openSign = (contract: ContractItem) => {
+    setSignState({ busy: false, error: null });
+    setSigning(contract);
+  };
+
+  const handleSign = async (typedName: string) => {
+    if (!engagementId || !signing) return;
+    setSignState({ busy: true, error: null });
+    try {
+      const result = await signContract(engagementId, signing.type, { typedName, consent: true });
+      if (result.status === 'pending') {
+        if (/^https:\/\//i.test(result.redirectUrl)) {
+          window.location.assign(result.redirectUrl);
+          return;
+        }
+        setSignState({ busy: false, error: 'Signing provider returned no link' });
+        return;
+      }
+      setItems((prev) =>
+        prev.map((item) => (item.type === result.contract.type ? result.contract : item)),
+      );
+      setSigning(null);
+      setSignState({ busy: false, error: null });
+    } catch (err: unknown) {
+      setSignState({
+        busy: false,
+        error: formatSignError(err instanceof ApiResponseError ? err.status : undefined),
+      });
+    }
+  };
+
   if (!engagementId) {
     return <ModulePlaceholder title="CONTRACTS" moduleKey="contracts" />;
   }
@@ -113,26 +171,72 @@ export default function ContractsPage() {
           </div>
         ) : null}
         {items.map((item) => (
-          <div
-            key={item.type}
-            className="flex items-center justify-between border border-white/5 px-4 py-3"
-          >
-            <div>
-              <p className="text-xs uppercase tracking-widest text-gray-200">{item.label}</p>
-              <p className={`mt-1 text-[10px] ${text.muted}`}>
-                {item.updatedAt ? `UPDATED ${item.updatedAt}` : 'NO TIMESTAMP'}
-              </p>
+          <div key={item.type} className="border border-white/5 px-4 py-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs uppercase tracking-widest text-gray-200">{item.label}</p>
+                <p className={`mt-1 text-[10px] ${text.muted}`}>
+                  {item.signature?.signedAt
+                    ? `SIGNED ${new Date(item.signature.signedAt).toLocaleString()}${
+                        item.signature.signedBy ? ` · ${item.signature.signedBy}` : ''
+                      }`
+                    : item.updatedAt
+                      ? `UPDATED ${item.updatedAt}`
+                      : 'NO TIMESTAMP'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                {role === 'CLIENT' && item.signable ? (
+                  <button
+                    type="button"
+                    onClick={() => openSign(item)}
+                    className="text-[10px] font-mono uppercase tracking-widest text-emerald-300 transition hover:text-emerald-200"
+                  >
+                    Sign
+                  </button>
+                ) : null}
+                <span
+                  className={`border px-3 py-1 text-[9px] uppercase tracking-widest ${statusClasses(item.status)}`}
+                >
+                  {item.status.replace(/_/g, ' ').toUpperCase()}
+                </span>
+              </div>
             </div>
-            <span
-              className={`border px-3 py-1 text-[9px] uppercase tracking-widest ${statusClasses(item.status)}`}
-            >
-              {item.status.replace(/_/g, ' ').toUpperCase()}
-            </span>
+            {item.attachments.length ? (
+              <ul className="mt-3 space-y-1">
+                {item.attachments.map((attachment) => (
+                  <li key={attachment.id} className="text-[11px]">
+                    {attachment.url ? (
+                      <a
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-indigo-200 hover:text-indigo-100"
+                      >
+                        {attachment.name}
+                      </a>
+                    ) : (
+                      <span className={text.muted}>{attachment.name}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
           </div>
         ))}
       </div>
 
       {error ? <p className="mt-4 text-xs text-rose-300">{error}</p> : null}
+
+      {signing ? (
+        <ContractSignDialog
+          contract={signing}
+          busy={signState.busy}
+          error={signState.error}
+          onConfirm={handleSign}
+          onCancel={() => setSigning(null)}
+        />
+      ) : null}
     </div>
   );
 }
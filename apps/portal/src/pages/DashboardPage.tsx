@@ -1,3 +1,4 @@
+import { isIntelRequestOpen, isIntelRequestOverdue } from '@lucien/contracts';
 import { useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 
@@ -41,6 +42,7 @@ export default function DashboardPage() {
   const settlementModuleState = summary?.modules?.settlement?.state ?? null;
   const [intelCount, setIntelCount] = useState<number | null>(null);
   const [openActions, setOpenActions] = useState<number | null>(null);
+  const [overdueActions, setOverdueActions] = useState(0);
   const [intelError, setIntelError] = useState<string | null>(null);
   const [intelLoading, setIntelLoading] = useState(false);
   const [settlementStatus, setSettlementStatus] = useState<string | null>(null);
@@ -51,6 +53,7 @@ export default function DashboardPage() {
     if (!engagementId || intelModuleState === 'locked' || intelModuleState === 'not_wired') {
       setIntelCount(null);
       setOpenActions(null);
+      setOverdueActions(0);
       setIntelError(null);
       setIntelLoading(false);
       return;
@@ -63,11 +66,10 @@ export default function DashboardPage() {
     fetchIntelRequests(engagementId)
       .then((data) => {
         if (!active) return;
-        const open = data.filter(
-          (item) => item.status === 'pending' || item.status === 'needs_revision',
-        ).length;
+        const open = data.filter((item) => isIntelRequestOpen(item.status)).length;
         setIntelCount(data.length);
         setOpenActions(open);
+        setOverdueActions(data.filter((item) => isIntelRequestOverdue(item)).length);
       })
       .catch((err: unknown) => {
         if (!active) return;
@@ -203,7 +205,14 @@ export default function DashboardPage() {
             </div>
             <div className="flex items-center justify-between text-sm">
               <span className={text.muted}>Open Actions</span>
-              <span className="font-semibold text-gray-200">{openActionsLabel}</span>
+              <span className="font-semibold text-gray-200">
+                {openActionsLabel}
+                {!intelLoading && overdueActions ? (
+                  <span className="ml-2 rounded-full border border-rose-500/40 bg-rose-500/20 px-2 py-0.5 text-[10px] uppercase tracking-widest text-rose-200">
+                    {overdueActions} overdue
+                  </span>
+                ) : null}
+              </span>
             </div>
             <div className="flex items-center justify-between text-sm">
               <span className={text.muted}>Last Activity</span>
@@ -1,9 +1,16 @@
 import { useEffect, useState } from 'react';
 
 import ModulePlaceholder from '../components/ModulePlaceholder';
+import OutputQaChecklistPanel from '../components/OutputQaChecklistPanel';
 import { usePortalContext } from '../layout/PortalShell';
 import { ApiResponseError } from '../lib/api';
-import { fetchDeliveryPipeline, type DeliveryStage } from '../lib/portal';
+import {
+  fetchDeliveryPipeline,
+  transitionDeliveryItem,
+  type DeliveryPipelineItem,
+  type DeliveryPipelineResponse,
+  type OutputQaChecklist,
+} from '../lib/portal';
 import { label, surface, text } from '../styles/tokens';
 
 const formatError = (status?: number) => {
@@ -11,26 +18,46 @@ const formatError = (status?: number) => {
   return 'Delivery data unavailable.';
 };
 
-const statusClasses = (status: DeliveryStage['status']) => {
+const formatTransitionError = (status?: number, code?: string) => {
+  if (code === 'qa_incomplete') return 'Complete the mandatory QA items first';
   switch (status) {
-    case 'complete':
-      return 'border-emerald-400/50 bg-emerald-500/10 text-emerald-200';
-    case 'in_progress':
-      return 'border-indigo-400/50 bg-indigo-500/10 text-indigo-200';
-    case 'pending':
+    case 403:
+      return 'Operator role required';
+    case 404:
+      return 'Deliverable or stage not found';
+    case 409:
+      return 'Stage changed, refresh the board';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, retry';
     default:
-      return 'border-white/10 bg-white/5 text-gray-400';
+      return 'Stage not updated';
   }
 };
 
+const ownerClasses = (owner: DeliveryPipelineItem['owner']) => {
+  return owner === 'client'
+    ? 'border-indigo-400/50 bg-indigo-500/10 text-indigo-200'
+    : 'border-white/10 bg-white/5 text-gray-400';
+};
+
 export default function DeliveryPipelinePage() {
-  const { engagementId, summary } = usePortalContext();
+  const { engagementId, summary, role } = usePortalContext();
   const moduleState = summary?.modules?.deliveryPipeline?.state ?? null;
-  const [stages, setStages] = useState<DeliveryStage[]>([]);
+  const [pipeline, setPipeline] = useState<DeliveryPipelineResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [qaOpen, setQaOpen] = useState<Record<string, boolean>>({});
+  const [transitionError, setTransitionError] = useState<{ id: string; message: string } | null>(
+    null,
+  );
 
   useEffect(() => {
+    setPipeline(null);
+    setTransitionError(null);
+    setQaOpen({});
     if (!engagementId) return;
     let active = true;
     setLoading(true);
@@ -38,7 +65,7 @@ export default function DeliveryPipelinePage() {
     fetchDeliveryPipeline(engagementId)
       .then((response) => {
         if (!active) return;
-        setStages(response.stages);
+        setPipeline(response);
       })
       .catch((err: unknown) => {
         if (!active) return;
@@ -57,10 +84,73 @@ export default function DeliveryPipelinePage() {
     };
   }, [engagementId]);
 
+  const handleTransition = async (item: DeliveryPipelineItem, direction: 'advance' | 'regress') => {
+    if (!engagementId) return;
+    setBusyId(item.id);
+    setTransitionError(null);
+    try {
+      const result = await transitionDeliveryItem(engagementId, item.stageId, {
+        outputId: item.id,
+        direction,
+      });
+      setPipeline((prev) =>
+        prev
+          ? {
+              ...prev,
+              items: prev.items.map((entry) => (entry.id === result.item.id ? result.item : entry)),
+            }
+          : prev,
+      );
+    } catch (err: unknown) {
+      const code =
+        err instanceof ApiResponseError
+          ? (err.payload as { code?: string } | undefined)?.code
+          : undefined;
+      setTransitionError({
+        id: item.id,
+        message: formatTransitionError(
+          err instanceof ApiResponseError ? err.status : undefined,
+          code,
+        ),
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleQaChange = (outputId: string, checklist: OutputQaChecklist) => {
+    setPipeline((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((entry) =>
+              entry.id === outputId
+                ? {
+                    ...entry,
+                    qa: {
+                      checked: checklist.items.filter((item) => item.checked).length,
+                      total: checklist.items.length,
+                      mandatoryOpen: checklist.items.filter(
+                        (item) => item.mandatory && !item.checked,
+                      ).length,
+                      complete: checklist.complete,
+                    },
+                  }
+                : entry,
+            ),
+          }
+        : prev,
+    );
+  };
+
   if (!engagementId || moduleState === 'locked' || moduleState === 'not_wired') {
     return <ModulePlaceholder title="DELIVERY PIPELINE" moduleKey="deliveryPipeline" />;
   }
 
+  const stages = pipeline?.stages ?? [];
+  const items = pipeline?.items ?? [];
+  const isOperator = role === 'OPERATOR';
+
   return (
     <div className="space-y-6">
       <div className={`${surface.panel} p-8`}>
@@ -72,35 +162,125 @@ export default function DeliveryPipelinePage() {
             </h1>
           </div>
           <span className="text-[10px] uppercase tracking-widest text-gray-400">
-            {loading ? '…' : `${stages.length} stages`}
+            {loading
+              ? '…'
+              : pipeline
+                ? `${pipeline.tier.replace(/_/g, ' ')} · ${items.length} deliverables`
+                : '—'}
           </span>
         </div>
+        {pipeline?.note ? <p className={`mt-3 text-xs ${text.muted}`}>{pipeline.note}</p> : null}
       </div>
 
-      <div className={`${surface.panel} p-8 space-y-3`}>
-        {stages.map((stage) => (
+      <div className={`${surface.panel} overflow-x-auto p-8`}>
+        {stages.length ? (
           <div
-            key={stage.id}
-            className="flex items-center justify-between border border-white/5 px-4 py-3"
+            className="grid gap-4"
+            style={{ gridTemplateColumns: `repeat(${stages.length}, minmax(12rem, 1fr))` }}
           >
-            <div>
-              <p className="text-xs uppercase tracking-widest text-gray-200">{stage.label}</p>
-              <p className={`text-[10px] uppercase tracking-widest ${text.muted}`}>
-                Updated {new Date(stage.updatedAt).toLocaleDateString()} ·{' '}
-                {stage.owner.toUpperCase()}
-              </p>
-            </div>
-            <span
-              className={`border px-3 py-1 text-[9px] uppercase tracking-widest ${statusClasses(stage.status)}`}
-            >
-              {stage.status.toUpperCase()}
-            </span>
+            {stages.map((stage, index) => {
+              const column = items.filter((item) => item.stageId === stage.id);
+              const releasesNext = Boolean(stages[index + 1]?.requiresQa);
+              return (
+                <section key={stage.id} className={`${surface.deep} flex flex-col gap-3 p-3`}>
+                  <header className="flex items-center justify-between">
+                    <p className="text-[10px] uppercase tracking-widest text-gray-200">
+                      {stage.label}
+                    </p>
+                    <span className={`font-mono text-[10px] ${text.muted}`}>{column.length}</span>
+                  </header>
+                  <p className={`text-[9px] uppercase tracking-widest ${text.muted}`}>
+                    {stage.clientDecision
+                      ? 'CLIENT DECISION'
+                      : `${stage.owner.toUpperCase()} OWNED`}
+                  </p>
+                  {column.map((item) => (
+                    <article key={item.id} className="border border-white/10 px-3 py-3">
+                      <p className="text-xs uppercase tracking-widest text-gray-200">
+                        {item.title}
+                      </p>
+                      <p className={`mt-1 text-[10px] ${text.muted}`}>
+                        {item.category} · {item.erpStatus ?? 'NO STATUS'}
+                      </p>
+                      <div className="mt-3 flex items-center justify-between gap-2">
+                        <span
+                          className={`border px-2 py-0.5 text-[9px] uppercase tracking-widest ${ownerClasses(item.owner)}`}
+                        >
+                          {item.owner}
+                        </span>
+                        <span className={`text-[10px] ${text.muted}`}>
+                          {item.updatedAt ? new Date(item.updatedAt).toLocaleDateString() : '—'}
+                        </span>
+                      </div>
+                      {item.qa ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setQaOpen((prev) => ({ ...prev, [item.id]: !prev[item.id] }))
+                          }
+                          className={`mt-3 font-mono text-[10px] uppercase tracking-widest transition ${
+                            item.qa.complete
+                              ? 'text-emerald-300 hover:text-emerald-200'
+                              : 'text-amber-300 hover:text-amber-200'
+                          }`}
+                        >
+                          QA {item.qa.checked}/{item.qa.total}
+                          {item.qa.mandatoryOpen ? ` · ${item.qa.mandatoryOpen} required open` : ''}
+                        </button>
+                      ) : null}
+                      {item.qa && qaOpen[item.id] ? (
+                        <OutputQaChecklistPanel
+                          engagementId={engagementId}
+                          outputId={item.id}
+                          onChange={(checklist) => handleQaChange(item.id, checklist)}
+                        />
+                      ) : null}
+                      {isOperator && (item.canRegress || item.canAdvance) ? (
+                        <div className="mt-3 flex items-center justify-between">
+                          <button
+                            type="button"
+                            disabled={!item.canRegress || busyId === item.id}
+                            onClick={() => handleTransition(item, 'regress')}
+                            className="font-mono text-[10px] uppercase tracking-widest text-gray-400 transition hover:text-gray-200 disabled:opacity-30"
+                          >
+                            ← Back
+                          </button>
+                          <button
+                            type="button"
+                            disabled={
+                              !item.canAdvance ||
+                              busyId === item.id ||
+                              (releasesNext && item.qa?.complete === false)
+                            }
+                            title={
+                              releasesNext && item.qa?.complete === false
+                                ? 'Mandatory QA items are open'
+                                : undefined
+                            }
+                            onClick={() => handleTransition(item, 'advance')}
+                            className="font-mono text-[10px] uppercase tracking-widest text-indigo-200 transition hover:text-indigo-100 disabled:opacity-30"
+                          >
+                            Advance →
+                          </button>
+                        </div>
+                      ) : null}
+                      {transitionError?.id === item.id ? (
+                        <p className="mt-2 text-[10px] text-rose-300">{transitionError.message}</p>
+                      ) : null}
+                    </article>
+                  ))}
+                  {!column.length ? (
+                    <p className={`text-[10px] uppercase tracking-widest ${text.muted}`}>Empty</p>
+                  ) : null}
+                </section>
+              );
+            })}
           </div>
-        ))}
+        ) : null}
         {!stages.length && !loading ? (
           <p className={`text-xs uppercase tracking-widest ${text.muted}`}>Pipeline unavailable.</p>
         ) : null}
-        {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+        {error ? <p className="mt-3 text-xs text-rose-300">{error}</p> : null}
       </div>
     </div>
   );
@@ -1,11 +1,37 @@
-import { useEffect, useMemo, useState } from 'react';
+import {
+  isIntelRequestOpen,
+  isIntelRequestOverdue,
+  resolveIntelFieldStates,
+} from '@lucien/contracts';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams } from 'react-router-dom';
 
+import IntelCommentThread from '../components/IntelCommentThread';
+import IntelReviewPanel from '../components/IntelReviewPanel';
+import IntelUploadQueue, { type IntelUploadQueueHandle } from '../components/IntelUploadQueue';
+import { usePortalRole } from '../layout/PortalShell';
 import { ApiResponseError } from '../lib/api';
-import { fetchIntelRequests, uploadIntelFile } from '../lib/intel';
+import {
+  deleteIntelAttachment,
+  fetchIntelComments,
+  fetchIntelDraft,
+  fetchIntelRequests,
+  intelExportUrl,
+  saveIntelDraft,
+  submitIntelAnswers,
+} from '../lib/intel';
 import { glow, label, surface, text } from '../styles/tokens';
 
-import type { IntelField, IntelRequestDTO } from '@lucien/contracts';
+import type {
+  IntelAnswerErrorDTO,
+  IntelAttachmentDTO,
+  IntelCommentDTO,
+  IntelField,
+  IntelFieldState,
+  IntelRequestDTO,
+  IntelReviewResponseDTO,
+  IntelUploadResponseDTO,
+} from '@lucien/contracts';
 
 const statusStyles: Record<string, string> = {
   pending: 'bg-zinc-500/20 text-zinc-200 border-zinc-500/40',
@@ -14,6 +40,26 @@ const statusStyles: Record<string, string> = {
   accepted: 'bg-emerald-500/20 text-emerald-200 border-emerald-500/40',
 };
 
+const overdueStyle = 'bg-rose-500/20 text-rose-200 border-rose-500/40';
+const unreadStyle = 'bg-amber-500/20 text-amber-200 border-amber-500/40';
+
+const requestRank = (request: IntelRequestDTO) => {
+  if (isIntelRequestOverdue(request)) return 0;
+  return isIntelRequestOpen(request.status) ? 1 : 2;
+};
+
+const sortIntelRequests = (requests: IntelRequestDTO[]) => {
+  return [...requests].sort((a, b) => {
+    const rank = requestRank(a) - requestRank(b);
+    if (rank !== 0) return rank;
+    if (a.dueDate && b.dueDate) return a.dueDate.localeCompare(b.dueDate);
+    return a.dueDate ? -1 : b.dueDate ? 1 : 0;
+  });
+};
+
+const DRAFT_DEBOUNCE_MS = 1500;
+const DRAFTABLE_STATUSES = new Set(['pending', 'needs_revision']);
+
 const formatError = (status?: number) => {
   switch (status) {
     case 411:
@@ -27,21 +73,81 @@ const formatError = (status?: number) => {
   }
 };
 
-type UploadState = {
-  status: 'idle' | 'uploading' | 'success' | 'error';
+const formatSubmitError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Answers rejected, review highlighted fields';
+    case 403:
+      return 'Request locked';
+    case 429:
+      return 'Rate limited, try later';
+    default:
+      return 'Transmission error';
+  }
+};
+
+const formatAttachmentError = (status?: number) => {
+  switch (status) {
+    case 403:
+      return 'Request locked';
+    case 404:
+      return 'Attachment not found';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, retry';
+    default:
+      return 'Transmission error';
+  }
+};
+
+type AttachmentState = {
+  busy: boolean;
+  message?: string;
+};
+
+type ReplaceTarget = {
+  requestId: string;
+  queueKey: string;
+  attachment: IntelAttachmentDTO;
+};
+
+type CommentState = {
+  items: IntelCommentDTO[];
+  lastReadAt: string | null;
+};
+
+type DraftState = {
+  savedAt: string | null;
+  error?: boolean;
+};
+
+type SubmitState = {
+  status: 'idle' | 'submitting' | 'success' | 'error';
   message?: string;
+  fieldErrors?: Record<string, string>;
 };
 
 export default function IntelNodePage() {
   const { id } = useParams();
   const engagementId = id ?? '';
+  const role = usePortalRole();
   const [requests, setRequests] = useState<IntelRequestDTO[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [values, setValues] = useState<Record<string, Record<string, unknown>>>({});
   const [touched, setTouched] = useState<Record<string, Record<string, boolean>>>({});
-  const [uploadState, setUploadState] = useState<Record<string, UploadState>>({});
+  const [submitState, setSubmitState] = useState<Record<string, SubmitState>>({});
+  const [draftState, setDraftState] = useState<Record<string, DraftState>>({});
+  const [attachmentState, setAttachmentState] = useState<Record<string, AttachmentState>>({});
+  const [comments, setComments] = useState<Record<string, CommentState>>({});
+  const [openThreads, setOpenThreads] = useState<Record<string, boolean>>({});
+  const dirtyRequests = useRef<Set<string>>(new Set());
+  const loadedDrafts = useRef<Set<string>>(new Set());
+  const uploadQueues = useRef<Record<string, IntelUploadQueueHandle | null>>({});
+  const replaceInput = useRef<HTMLInputElement>(null);
+  const replaceTarget = useRef<ReplaceTarget | null>(null);
 
   useEffect(() => {
     if (!engagementId) return;
@@ -49,13 +155,24 @@ export default function IntelNodePage() {
     setLoading(true);
     setError(null);
     setSelectedId(null);
+    setDraftState({});
+    setComments({});
+    setOpenThreads({});
+    dirtyRequests.current.clear();
+    loadedDrafts.current.clear();
 
     fetchIntelRequests(engagementId)
       .then((data) => {
         if (!active) return;
         setRequests(data);
+        setValues(
+          data.reduce<Record<string, Record<string, unknown>>>((acc, request) => {
+            acc[request.id] = { ...(request.answers ?? {}) };
+            return acc;
+          }, {}),
+        );
         if (data.length) {
-          setSelectedId(data[0].id);
+          setSelectedId(sortIntelRequests(data)[0].id);
         }
       })
       .catch((err: unknown) => {
@@ -76,12 +193,100 @@ export default function IntelNodePage() {
     };
   }, [engagementId]);
 
+  const orderedRequests = useMemo(() => sortIntelRequests(requests), [requests]);
   const selectedRequest = useMemo(
     () => requests.find((request) => request.id === selectedId) ?? null,
     [requests, selectedId],
   );
+  const selectedStatus = selectedRequest?.status ?? null;
+  const selectedDraft = selectedId ? draftState[selectedId] : undefined;
+
+  useEffect(() => {
+    if (!engagementId || !selectedId || !selectedStatus) return;
+    if (!DRAFTABLE_STATUSES.has(selectedStatus)) return;
+    if (loadedDrafts.current.has(selectedId)) return;
+    loadedDrafts.current.add(selectedId);
+
+    fetchIntelDraft(engagementId, selectedId)
+      .then((draft) => {
+        if (!draft.updatedAt) return;
+        setValues((prev) => ({
+          ...prev,
+          [selectedId]: { ...prev[selectedId], ...draft.answers },
+        }));
+        setDraftState((prev) => ({ ...prev, [selectedId]: { savedAt: draft.updatedAt } }));
+      })
+      .catch(() => {
+        loadedDrafts.current.delete(selectedId);
+      });
+  }, [engagementId, selectedId, selectedStatus]);
+
+  useEffect(() => {
+    if (!engagementId || !selectedId) return;
+    let active = true;
+
+    fetchIntelComments(engagementId, selectedId)
+      .then((data) => {
+        if (!active) return;
+        setComments((prev) => ({
+          ...prev,
+          [selectedId]: { items: data.items, lastReadAt: data.lastReadAt },
+        }));
+        setRequests((prev) =>
+          prev.map((entry) => (entry.id === selectedId ? { ...entry, unreadComments: 0 } : entry)),
+        );
+        const fieldKeys = new Set(data.items.map((comment) => comment.fieldKey));
+        setOpenThreads((prev) =>
+          Array.from(fieldKeys).reduce<Record<string, boolean>>(
+            (acc, fieldKey) => {
+              const key = `${selectedId}:${fieldKey ?? ''}`;
+              return key in acc ? acc : { ...acc, [key]: true };
+            },
+            { ...prev },
+          ),
+        );
+      })
+      .catch(() => {
+        if (!active) return;
+        setComments((prev) => ({ ...prev, [selectedId]: { items: [], lastReadAt: null } }));
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [engagementId, selectedId]);
+
+  useEffect(() => {
+    if (!engagementId || dirtyRequests.current.size === 0) return;
+
+    const timer = window.setTimeout(() => {
+      const pending = Array.from(dirtyRequests.current);
+      dirtyRequests.current.clear();
+
+      pending.forEach((requestId) => {
+        const request = requests.find((entry) => entry.id === requestId);
+        if (!request || !DRAFTABLE_STATUSES.has(request.status)) return;
+
+        saveIntelDraft(engagementId, requestId, values[requestId] ?? {})
+          .then((draft) => {
+            setDraftState((prev) => ({ ...prev, [requestId]: { savedAt: draft.updatedAt } }));
+          })
+          .catch(() => {
+            setDraftState((prev) => ({
+              ...prev,
+              [requestId]: { savedAt: prev[requestId]?.savedAt ?? null, error: true },
+            }));
+          });
+      });
+    }, DRAFT_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [engagementId, requests, values]);
 
   const updateValue = (requestId: string, fieldKey: string, value: unknown) => {
+    dirtyRequests.current.add(requestId);
     setValues((prev) => ({
       ...prev,
       [requestId]: {
@@ -105,41 +310,211 @@ export default function IntelNodePage() {
     return values[requestId]?.[fieldKey];
   };
 
-  const isMissing = (requestId: string, field: IntelField) => {
-    if (!field.required) return false;
+  const getFieldStates = (request: IntelRequestDTO) => {
+    return resolveIntelFieldStates(request.fields ?? [], values[request.id] ?? {});
+  };
+
+  const isMissing = (requestId: string, field: IntelField, state: IntelFieldState) => {
+    if (!state.visible || !state.required) return false;
+    if (field.type === 'file') {
+      const request = requests.find((entry) => entry.id === requestId);
+      return !request?.attachments?.length;
+    }
     const value = getValue(requestId, field.key);
-    if (field.type === 'checkbox' || field.type === 'boolean') return value !== true;
+    if (field.type === 'boolean') return value !== true;
     if (Array.isArray(value)) return value.length === 0;
     return value === undefined || value === null || value === '';
   };
 
-  const handleFileUpload = async (requestId: string, file: File) => {
-    setUploadState((prev) => ({
+  const handleUploaded = (requestId: string, result: IntelUploadResponseDTO) => {
+    const attachment = result.attachment;
+    setRequests((prev) =>
+      prev.map((entry) =>
+        entry.id === requestId
+          ? {
+              ...entry,
+              attachments: attachment
+                ? [...(entry.attachments ?? []), attachment]
+                : entry.attachments,
+            }
+          : entry,
+      ),
+    );
+  };
+
+  const removeAttachment = async (requestId: string, attachment: IntelAttachmentDTO) => {
+    setAttachmentState((prev) => ({ ...prev, [attachment.id]: { busy: true } }));
+    try {
+      await deleteIntelAttachment(engagementId, requestId, attachment.id);
+      setRequests((prev) =>
+        prev.map((entry) =>
+          entry.id === requestId
+            ? {
+                ...entry,
+                attachments: entry.attachments?.filter((item) => item.id !== attachment.id),
+              }
+            : entry,
+        ),
+      );
+      setAttachmentState((prev) => {
+        const next = { ...prev };
+        delete next[attachment.id];
+        return next;
+      });
+      return true;
+    } catch (err: unknown) {
+      setAttachmentState((prev) => ({
+        ...prev,
+        [attachment.id]: {
+          busy: false,
+          message: formatAttachmentError(err instanceof ApiResponseError ? err.status : undefined),
+        },
+      }));
+      return false;
+    }
+  };
+
+  const handleRemoveAttachment = (requestId: string, attachment: IntelAttachmentDTO) => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+    removeAttachment(requestId, attachment);
+  };
+
+  const handleReplaceAttachment = (target: ReplaceTarget, accept?: string[]) => {
+    const input = replaceInput.current;
+    if (!input) return;
+    replaceTarget.current = target;
+    input.accept = accept?.join(',') ?? '';
+    input.click();
+  };
+
+  const handleReplaceSelected = async (file: File | undefined) => {
+    const target = replaceTarget.current;
+    replaceTarget.current = null;
+    if (!file || !target) return;
+    if (await removeAttachment(target.requestId, target.attachment)) {
+      uploadQueues.current[target.queueKey]?.enqueue([file]);
+    }
+  };
+
+  const handleSubmit = async (request: IntelRequestDTO) => {
+    const states = getFieldStates(request);
+    const fields = (request.fields ?? []).filter((field) => states[field.key].visible);
+    setTouched((prev) => ({
       ...prev,
-      [requestId]: { status: 'uploading' },
+      [request.id]: fields.reduce<Record<string, boolean>>(
+        (acc, field) => ({ ...acc, [field.key]: true }),
+        { ...prev[request.id] },
+      ),
     }));
 
+    if (fields.some((field) => isMissing(request.id, field, states[field.key]))) {
+      setSubmitState((prev) => ({
+        ...prev,
+        [request.id]: { status: 'error', message: 'Complete required fields' },
+      }));
+      return;
+    }
+
+    setSubmitState((prev) => ({ ...prev, [request.id]: { status: 'submitting' } }));
+
+    const answers = fields.reduce<Record<string, unknown>>((acc, field) => {
+      if (field.type === 'file') return acc;
+      const value = getValue(request.id, field.key);
+      if (value !== undefined) {
+        acc[field.key] = value;
+      }
+      return acc;
+    }, {});
+
     try {
-      await uploadIntelFile(engagementId, requestId, file);
-      setUploadState((prev) => ({
+      const result = await submitIntelAnswers(engagementId, request.id, answers);
+      setRequests((prev) =>
+        prev.map((entry) =>
+          entry.id === request.id
+            ? {
+                ...entry,
+                status: result.status,
+                answers: result.answers,
+                submittedAt: result.submittedAt,
+              }
+            : entry,
+        ),
+      );
+      dirtyRequests.current.delete(request.id);
+      setDraftState((prev) => ({ ...prev, [request.id]: { savedAt: null } }));
+      setSubmitState((prev) => ({
         ...prev,
-        [requestId]: { status: 'success', message: 'Uploaded.' },
+        [request.id]: { status: 'success', message: 'Submitted.' },
       }));
     } catch (err: unknown) {
-      if (err instanceof ApiResponseError) {
-        setUploadState((prev) => ({
-          ...prev,
-          [requestId]: { status: 'error', message: formatError(err.status) },
-        }));
-      } else {
-        setUploadState((prev) => ({
-          ...prev,
-          [requestId]: { status: 'error', message: formatError() },
-        }));
-      }
+      const status = err instanceof ApiResponseError ? err.status : undefined;
+      const payload =
+        err instanceof ApiResponseError
+          ? (err.payload as { fields?: IntelAnswerErrorDTO[] } | undefined)
+          : undefined;
+      const fieldErrors = (payload?.fields ?? []).reduce<Record<string, string>>(
+        (acc, entry) => ({ ...acc, [entry.field]: entry.reason }),
+        {},
+      );
+      setSubmitState((prev) => ({
+        ...prev,
+        [request.id]: { status: 'error', message: formatSubmitError(status), fieldErrors },
+      }));
     }
   };
 
+  const handleReviewed = (result: IntelReviewResponseDTO) => {
+    setRequests((prev) =>
+      prev.map((entry) =>
+        entry.id === result.requestId
+          ? {
+              ...entry,
+              status: result.status,
+              reviewComment: result.comment,
+              reviewedAt: result.reviewedAt,
+            }
+          : entry,
+      ),
+    );
+  };
+
+  const handleCommentPosted = (comment: IntelCommentDTO) => {
+    setComments((prev) => ({
+      ...prev,
+      [comment.requestId]: {
+        items: [...(prev[comment.requestId]?.items ?? []), comment],
+        lastReadAt: prev[comment.requestId]?.lastReadAt ?? null,
+      },
+    }));
+  };
+
+  const toggleThread = (requestId: string, fieldKey: string | null) => {
+    const key = `${requestId}:${fieldKey ?? ''}`;
+    setOpenThreads((prev) => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const renderThread = (request: IntelRequestDTO, fieldKey: string | null) => {
+    if (!openThreads[`${request.id}:${fieldKey ?? ''}`]) return null;
+    const state = comments[request.id];
+
+    return (
+      <IntelCommentThread
+        engagementId={engagementId}
+        requestId={request.id}
+        fieldKey={fieldKey}
+        comments={(state?.items ?? []).filter((comment) => comment.fieldKey === fieldKey)}
+        lastReadAt={state?.lastReadAt ?? null}
+        role={role}
+        onPosted={handleCommentPosted}
+      />
+    );
+  };
+
+  const selectedStates = selectedRequest ? getFieldStates(selectedRequest) : {};
+  const canChangeAttachments = Boolean(
+    selectedRequest && (role === 'OPERATOR' || DRAFTABLE_STATUSES.has(selectedRequest.status)),
+  );
+
   return (
     <div className="space-y-6 animate-[fadeIn_0.6s_ease-out]">
       <header className="flex items-center justify-between border-b border-white/10 pb-5">
@@ -149,8 +524,27 @@ export default function IntelNodePage() {
             Engagement {engagementId}
           </h1>
         </div>
+        {engagementId && requests.length ? (
+          <a
+            href={intelExportUrl(engagementId)}
+            download
+            className="rounded-xl border border-white/10 px-4 py-2 text-[11px] font-mono uppercase tracking-widest text-gray-300 transition hover:border-indigo-400/40 hover:text-indigo-200"
+          >
+            Export evidence pack
+          </a>
+        ) : null}
       </header>
 
+      <input
+        ref={replaceInput}
+        type="file"
+        className="hidden"
+        onChange={(event) => {
+          handleReplaceSelected(event.target.files?.[0]);
+          event.target.value = '';
+        }}
+      />
+
       <main className="grid grid-cols-1 gap-6 lg:grid-cols-[320px_1fr]">
         <section className={`overflow-hidden ${surface.panel}`}>
           <div className={`border-b border-white/10 px-4 py-3 text-sm font-medium ${text.muted}`}>
@@ -165,8 +559,9 @@ export default function IntelNodePage() {
           ) : (
             <div className="max-h-[calc(100vh-260px)] overflow-y-auto custom-scrollbar">
               <ul className="divide-y divide-white/5">
-                {requests.map((request) => {
+                {orderedRequests.map((request) => {
                   const isSelected = request.id === selectedId;
+                  const overdue = isIntelRequestOverdue(request);
                   const badgeClass =
                     statusStyles[request.status] ?? 'bg-white/5 text-gray-200 border-white/10';
 
@@ -192,12 +587,38 @@ export default function IntelNodePage() {
                             {request.description ? (
                               <p className={`mt-1 text-xs ${text.muted}`}>{request.description}</p>
                             ) : null}
+                            {request.dueDate ? (
+                              <p
+                                className={`mt-1 text-[11px] font-mono ${
+                                  overdue ? 'text-rose-300' : text.muted
+                                }`}
+                              >
+                                Due {request.dueDate}
+                              </p>
+                            ) : null}
+                          </div>
+                          <div className="flex shrink-0 flex-col items-end gap-1">
+                            <span
+                              className={`rounded-full border px-2 py-1 text-[10px] uppercase tracking-widest ${badgeClass}`}
+                            >
+                              {request.status.replace(/_/g, ' ')}
+                            </span>
+                            {overdue ? (
+                              <span
+                                className={`rounded-full border px-2 py-1 text-[10px] uppercase tracking-widest ${overdueStyle}`}
+                              >
+                                Overdue
+                              </span>
+                            ) : null}
+                            {request.unreadComments ? (
+                              <span
+                                className={`rounded-full border px-2 py-1 text-[10px] uppercase tracking-widest ${unreadStyle}`}
+                              >
+                                {request.unreadComments} new comment
+                                {request.unreadComments === 1 ? '' : 's'}
+                              </span>
+                            ) : null}
                           </div>
-                          <span
-                            className={`rounded-full border px-2 py-1 text-[10px] uppercase tracking-widest ${badgeClass}`}
-                          >
-                            {request.status.replace(/_/g, ' ')}
-                          </span>
                         </div>
                       </button>
                     </li>
@@ -221,28 +642,82 @@ export default function IntelNodePage() {
                   <h2 className="text-2xl font-semibold uppercase tracking-wider">
                     {selectedRequest.title ?? 'Intel Request'}
                   </h2>
-                  <p className={`mt-1 text-xs ${text.muted}`}>ID: {selectedRequest.id}</p>
+                  <p className={`mt-1 text-xs ${text.muted}`}>
+                    ID: {selectedRequest.id}
+                    {selectedRequest.dueDate ? ` · Due ${selectedRequest.dueDate}` : ''}
+                  </p>
                   {selectedRequest.description ? (
                     <p className={`mt-3 text-sm ${text.muted}`}>{selectedRequest.description}</p>
                   ) : null}
                 </div>
-                <span
-                  className={`rounded-full border px-3 py-1 text-[10px] uppercase tracking-widest ${
-                    statusStyles[selectedRequest.status] ??
-                    'bg-white/5 text-gray-200 border-white/10'
+                <div className="flex items-center gap-2">
+                  {isIntelRequestOverdue(selectedRequest) ? (
+                    <span
+                      className={`rounded-full border px-3 py-1 text-[10px] uppercase tracking-widest ${overdueStyle}`}
+                    >
+                      Overdue
+                    </span>
+                  ) : null}
+                  <span
+                    className={`rounded-full border px-3 py-1 text-[10px] uppercase tracking-widest ${
+                      statusStyles[selectedRequest.status] ??
+                      'bg-white/5 text-gray-200 border-white/10'
+                    }`}
+                  >
+                    {selectedRequest.status.replace(/_/g, ' ')}
+                  </span>
+                </div>
+              </div>
+
+              {selectedRequest.reviewComment &&
+              (selectedRequest.status === 'needs_revision' ||
+                selectedRequest.status === 'accepted') ? (
+                <div
+                  className={`mt-6 rounded-xl border px-4 py-3 ${
+                    selectedRequest.status === 'needs_revision'
+                      ? 'border-amber-500/40 bg-amber-500/10'
+                      : 'border-emerald-500/40 bg-emerald-500/10'
                   }`}
                 >
-                  {selectedRequest.status.replace(/_/g, ' ')}
-                </span>
-              </div>
+                  <p className={label.micro}>
+                    {selectedRequest.status === 'needs_revision'
+                      ? 'Revision requested'
+                      : 'Reviewer note'}
+                  </p>
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-gray-200">
+                    {selectedRequest.reviewComment}
+                  </p>
+                  {selectedRequest.reviewedAt ? (
+                    <p className={`mt-2 text-[11px] font-mono ${text.muted}`}>
+                      {new Date(selectedRequest.reviewedAt).toLocaleString()}
+                    </p>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {role === 'OPERATOR' && selectedRequest.status === 'submitted' ? (
+                <IntelReviewPanel
+                  engagementId={engagementId}
+                  request={selectedRequest}
+                  onReviewed={handleReviewed}
+                />
+              ) : null}
 
               <div className="mt-8 space-y-6">
                 {selectedRequest.fields?.length ? (
                   selectedRequest.fields.map((field) => {
+                    const state = selectedStates[field.key];
+                    if (!state.visible) return null;
+
                     const value = getValue(selectedRequest.id, field.key);
-                    const missing = isMissing(selectedRequest.id, field);
+                    const missing = isMissing(selectedRequest.id, field, state);
                     const hasTouched = touched[selectedRequest.id]?.[field.key];
                     const showError = missing && hasTouched;
+                    const serverError =
+                      submitState[selectedRequest.id]?.fieldErrors?.[field.key] ?? null;
+                    const fieldComments = (comments[selectedRequest.id]?.items ?? []).filter(
+                      (comment) => comment.fieldKey === field.key,
+                    );
 
                     const commonProps = {
                       id: field.key,
@@ -253,12 +728,30 @@ export default function IntelNodePage() {
 
                     return (
                       <div key={field.id ?? field.key} className="space-y-2">
-                        <label htmlFor={field.key} className={label.micro}>
-                          {field.label}
-                          {field.required ? (
-                            <span className={`ml-2 ${label.micro} text-amber-300`}>★ Required</span>
-                          ) : null}
-                        </label>
+                        <div className="flex items-center justify-between gap-3">
+                          <label htmlFor={field.key} className={label.micro}>
+                            {field.label}
+                            {state.required ? (
+                              <span className={`ml-2 ${label.micro} text-amber-300`}>
+                                ★ Required
+                              </span>
+                            ) : null}
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => toggleThread(selectedRequest.id, field.key)}
+                            className={`rounded-full border px-2 py-0.5 text-[10px] font-mono uppercase tracking-widest transition ${
+                              fieldComments.length
+                                ? unreadStyle
+                                : 'border-white/10 text-gray-500 hover:text-gray-300'
+                            }`}
+                          >
+                            {fieldComments.length
+                              ? `${fieldComments.length} comment${fieldComments.length === 1 ? '' : 's'}`
+                              : 'Comment'}
+                          </button>
+                        </div>
+                        {renderThread(selectedRequest, field.key)}
 
                         {field.type === 'textarea' ? (
                           <textarea
@@ -305,7 +798,7 @@ export default function IntelNodePage() {
                               </option>
                             ))}
                           </select>
-                        ) : field.type === 'checkbox' || field.type === 'boolean' ? (
+                        ) : field.type === 'boolean' ? (
                           <label className={`flex items-center gap-3 px-3 py-2 ${surface.input}`}>
                             <input
                               type="checkbox"
@@ -320,29 +813,78 @@ export default function IntelNodePage() {
                           </label>
                         ) : field.type === 'file' ? (
                           <div className="space-y-3">
-                            <input
-                              type="file"
-                              className="block w-full text-sm text-gray-300 file:mr-4 file:rounded-md file:border-0 file:bg-indigo-500/10 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-indigo-200 hover:file:bg-indigo-500/20"
-                              onChange={(event) => {
-                                const file = event.target.files?.[0];
-                                if (file) {
-                                  handleFileUpload(selectedRequest.id, file);
-                                }
+                            {selectedRequest.attachments?.length ? (
+                              <ul className="space-y-1">
+                                {selectedRequest.attachments.map((attachment) => {
+                                  const removal = attachmentState[attachment.id];
+                                  const queueKey = `${selectedRequest.id}:${field.key}`;
+
+                                  return (
+                                    <li
+                                      key={attachment.id}
+                                      className="flex items-center justify-between gap-3 text-sm text-indigo-200"
+                                    >
+                                      <a
+                                        href={attachment.fileUrl}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                        className="truncate"
+                                      >
+                                        {attachment.fileName}
+                                      </a>
+                                      {canChangeAttachments ? (
+                                        <div className="flex shrink-0 items-center gap-3 text-[11px] font-mono">
+                                          {removal?.message ? (
+                                            <span className="text-rose-300">{removal.message}</span>
+                                          ) : null}
+                                          <button
+                                            type="button"
+                                            disabled={removal?.busy}
+                                            onClick={() =>
+                                              handleReplaceAttachment(
+                                                {
+                                                  requestId: selectedRequest.id,
+                                                  queueKey,
+                                                  attachment,
+                                                },
+                                                field.accept,
+                                              )
+                                            }
+                                            className="uppercase tracking-widest text-indigo-200 hover:text-indigo-100 disabled:opacity-40"
+                                          >
+                                            Replace
+                                          </button>
+                                          <button
+                                            type="button"
+                                            disabled={removal?.busy}
+                                            onClick={() =>
+                                              handleRemoveAttachment(selectedRequest.id, attachment)
+                                            }
+                                            className="uppercase tracking-widest text-rose-300 hover:text-rose-200 disabled:opacity-40"
+                                          >
+                                            {removal?.busy ? 'Removing' : 'Remove'}
+                                          </button>
+                                        </div>
+                                      ) : null}
+                                    </li>
+                                  );
+                                })}
+                              </ul>
+                            ) : null}
+                            <IntelUploadQueue
+                              ref={(handle) => {
+                                uploadQueues.current[`${selectedRequest.id}:${field.key}`] = handle;
                               }}
+                              key={`${selectedRequest.id}:${field.key}`}
+                              engagementId={engagementId}
+                              requestId={selectedRequest.id}
+                              fieldKey={field.key}
+                              accept={field.accept}
+                              disabled={
+                                !canChangeAttachments || selectedRequest.status === 'accepted'
+                              }
+                              onUploaded={(result) => handleUploaded(selectedRequest.id, result)}
                             />
-                            {uploadState[selectedRequest.id]?.status === 'uploading' ? (
-                              <p className="text-[11px] font-mono text-gray-400 animate-pulse">
-                                Uploading…
-                              </p>
-                            ) : uploadState[selectedRequest.id]?.status === 'success' ? (
-                              <p className="text-[11px] font-mono text-emerald-300">
-                                {uploadState[selectedRequest.id]?.message}
-                              </p>
-                            ) : uploadState[selectedRequest.id]?.status === 'error' ? (
-                              <p className="text-[11px] font-mono text-rose-300">
-                                {uploadState[selectedRequest.id]?.message}
-                              </p>
-                            ) : null}
                           </div>
                         ) : (
                           <input
@@ -370,6 +912,8 @@ export default function IntelNodePage() {
                         ) : null}
                         {showError ? (
                           <p className="text-xs text-rose-300">Required field.</p>
+                        ) : serverError ? (
+                          <p className="text-xs text-rose-300">{serverError}</p>
                         ) : null}
                       </div>
                     );
@@ -378,6 +922,61 @@ export default function IntelNodePage() {
                   <p className={`text-sm ${text.muted}`}>No fields available.</p>
                 )}
               </div>
+
+              <div className="mt-8 space-y-3 border-t border-white/10 pt-6">
+                <div className="flex items-center justify-between gap-3">
+                  <p className={label.micro}>Clarifications</p>
+                  <button
+                    type="button"
+                    onClick={() => toggleThread(selectedRequest.id, null)}
+                    className="text-[11px] font-mono uppercase tracking-widest text-indigo-200 hover:text-indigo-100"
+                  >
+                    {openThreads[`${selectedRequest.id}:`] ? 'Hide' : 'Show'}
+                  </button>
+                </div>
+                {renderThread(selectedRequest, null)}
+              </div>
+
+              {selectedRequest.fields?.length ? (
+                <div className="mt-8 flex flex-wrap items-center justify-between gap-4 border-t border-white/10 pt-6">
+                  <div className="space-y-1">
+                    {selectedRequest.submittedAt ? (
+                      <p className={`text-[11px] font-mono ${text.muted}`}>
+                        Last submitted {new Date(selectedRequest.submittedAt).toLocaleString()}
+                      </p>
+                    ) : null}
+                    {selectedDraft?.error ? (
+                      <p className="text-[11px] font-mono text-amber-300">Draft not saved</p>
+                    ) : selectedDraft?.savedAt ? (
+                      <p className={`text-[11px] font-mono ${text.muted}`}>
+                        Draft saved at {new Date(selectedDraft.savedAt).toLocaleTimeString()}
+                      </p>
+                    ) : null}
+                    {submitState[selectedRequest.id]?.status === 'success' ? (
+                      <p className="text-[11px] font-mono text-emerald-300">
+                        {submitState[selectedRequest.id]?.message}
+                      </p>
+                    ) : submitState[selectedRequest.id]?.status === 'error' ? (
+                      <p className="text-[11px] font-mono text-rose-300">
+                        {submitState[selectedRequest.id]?.message}
+                      </p>
+                    ) : null}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleSubmit(selectedRequest)}
+                    disabled={
+                      selectedRequest.status === 'accepted' ||
+                      submitState[selectedRequest.id]?.status === 'submitting'
+                    }
+                    className="rounded-xl border border-indigo-400/40 bg-indigo-500/10 px-5 py-2 text-xs font-semibold uppercase tracking-widest text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    {submitState[selectedRequest.id]?.status === 'submitting'
+                      ? 'Submitting…'
+                      : 'Submit answers'}
+                  </button>
+                </div>
+              ) : null}
             </div>
           )}
         </section>
@@ -1,11 +1,33 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type FormEvent } from 'react';
 
+import IntelTemplatePreview from '../components/IntelTemplatePreview';
 import ModulePlaceholder from '../components/ModulePlaceholder';
-import { usePortalContext } from '../layout/PortalShell';
+import { usePortalContext, usePortalRole } from '../layout/PortalShell';
 import { ApiResponseError } from '../lib/api';
-import { fetchOpsRequests, type OpsRequestItem } from '../lib/portal';
+import { fetchIntelTemplates } from '../lib/intel';
+import { createOpsRequest, fetchOpsRequests, type OpsRequestItem } from '../lib/portal';
 import { label, surface, text } from '../styles/tokens';
 
+import type { IntelTemplateVersionDTO } from '@lucien/contracts';
+
+type BuilderForm = {
+  templateKey: string;
+  title: string;
+  description: string;
+  dueDate: string;
+  required: boolean;
+  visibility: 'client_visible' | 'operator_only';
+};
+
+const EMPTY_FORM: BuilderForm = {
+  templateKey: '',
+  title: '',
+  description: '',
+  dueDate: '',
+  required: false,
+  visibility: 'client_visible',
+};
+
 const formatError = (status?: number) => {
   switch (status) {
     case 429:
@@ -15,12 +37,36 @@ const formatError = (status?: number) => {
   }
 };
 
+const formatCreateError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Check the request details';
+    case 403:
+      return 'Operator role required';
+    case 404:
+      return 'Template or engagement not found';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, request not issued';
+    default:
+      return 'Request not issued';
+  }
+};
+
 export default function OpsRequestsPage() {
   const { engagementId, summary } = usePortalContext();
+  const role = usePortalRole();
   const moduleState = summary?.modules?.requestBuilder?.state ?? null;
   const [items, setItems] = useState<OpsRequestItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<IntelTemplateVersionDTO[]>([]);
+  const [form, setForm] = useState<BuilderForm>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+  const [createMessage, setCreateMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(
+    null,
+  );
 
   useEffect(() => {
     if (!engagementId) return;
@@ -49,6 +95,70 @@ export default function OpsRequestsPage() {
     };
   }, [engagementId]);
 
+  useEffect(() => {
+    if (role !== 'OPERATOR') return;
+    let active = true;
+    fetchIntelTemplates()
+      .then((response) => {
+        if (!active) return;
+        setTemplates(response.items);
+      })
+      .catch(() => {
+        if (!active) return;
+        setTemplates([]);
+      });
+    return () => {
+      active = false;
+    };
+  }, [role]);
+
+  const selectedTemplate = templates.find((template) => template.key === form.templateKey) ?? null;
+
+  const updateForm = (patch: Partial<BuilderForm>) => {
+    setForm((prev) => ({ ...prev, ...patch }));
+    setCreateMessage(null);
+  };
+
+  const handleTemplateChange = (templateKey: string) => {
+    const template = templates.find((entry) => entry.key === templateKey);
+    updateForm({
+      templateKey,
+      title: form.title || template?.name || '',
+      description: form.description || template?.description || '',
+    });
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!engagementId || !selectedTemplate || !form.title.trim()) return;
+
+    setCreating(true);
+    setCreateMessage(null);
+
+    try {
+      const response = await createOpsRequest(engagementId, {
+        templateKey: selectedTemplate.key,
+        title: form.title.trim(),
+        description: form.description.trim() || undefined,
+        dueDate: form.dueDate || null,
+        required: form.required,
+        visibility: form.visibility,
+      });
+      setItems((prev) => [response.item, ...prev]);
+      setForm(EMPTY_FORM);
+      setCreateMessage({ tone: 'ok', text: `${response.item.id} issued` });
+    } catch (err: unknown) {
+      setCreateMessage({
+        tone: 'error',
+        text: formatCreateError(err instanceof ApiResponseError ? err.status : undefined),
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const inputClass = `${surface.input} w-full px-3 py-2 text-sm text-gray-200 focus:border-indigo-500 focus:outline-none`;
+
   if (!engagementId || moduleState === 'locked' || moduleState === 'not_wired') {
     return <ModulePlaceholder title="REQUEST BUILDER" moduleKey="requestBuilder" />;
   }
@@ -69,6 +179,137 @@ export default function OpsRequestsPage() {
         </div>
       </div>
 
+      {role === 'OPERATOR' ? (
+        <div className={`${surface.panel} grid gap-8 p-8 lg:grid-cols-2`}>
+          <form onSubmit={handleCreate} className="space-y-5">
+            <p className={label.micro}>NEW REQUEST</p>
+
+            <div className="space-y-2">
+              <label htmlFor="builder-template" className={label.micro}>
+                Template
+              </label>
+              <select
+                id="builder-template"
+                className={inputClass}
+                value={form.templateKey}
+                onChange={(event) => handleTemplateChange(event.target.value)}
+              >
+                <option value="">Select</option>
+                {templates.map((template) => (
+                  <option key={template.key} value={template.key}>
+                    {template.name} · v{template.version}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="builder-title" className={label.micro}>
+                Title
+              </label>
+              <input
+                id="builder-title"
+                className={inputClass}
+                maxLength={140}
+                value={form.title}
+                onChange={(event) => updateForm({ title: event.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="builder-description" className={label.micro}>
+                Description
+              </label>
+              <textarea
+                id="builder-description"
+                className={inputClass}
+                rows={3}
+                maxLength={4000}
+                value={form.description}
+                onChange={(event) => updateForm({ description: event.target.value })}
+              />
+            </div>
+
+            <div className="grid gap-5 sm:grid-cols-2">
+              <div className="space-y-2">
+                <label htmlFor="builder-due-date" className={label.micro}>
+                  Due date
+                </label>
+                <input
+                  id="builder-due-date"
+                  type="date"
+                  className={inputClass}
+                  value={form.dueDate}
+                  onChange={(event) => updateForm({ dueDate: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="builder-visibility" className={label.micro}>
+                  Visibility
+                </label>
+                <select
+                  id="builder-visibility"
+                  className={inputClass}
+                  value={form.visibility}
+                  onChange={(event) =>
+                    updateForm({ visibility: event.target.value as BuilderForm['visibility'] })
+                  }
+                >
+                  <option value="client_visible">Client visible</option>
+                  <option value="operator_only">Operator only</option>
+                </select>
+              </div>
+            </div>
+
+            <label className={`flex items-center gap-3 px-3 py-2 ${surface.input}`}>
+              <input
+                type="checkbox"
+                checked={form.required}
+                onChange={(event) => updateForm({ required: event.target.checked })}
+                className="h-4 w-4 rounded border-white/20 bg-[#080808] text-indigo-500"
+              />
+              <span className="text-sm text-gray-200">Required for engagement</span>
+            </label>
+
+            <div className="flex items-center justify-between gap-4">
+              {createMessage ? (
+                <p
+                  className={`text-xs ${
+                    createMessage.tone === 'ok' ? 'text-emerald-300' : 'text-rose-300'
+                  }`}
+                >
+                  {createMessage.text}
+                </p>
+              ) : (
+                <span />
+              )}
+              <button
+                type="submit"
+                disabled={creating || !selectedTemplate || !form.title.trim()}
+                className="rounded-xl border border-indigo-400/40 bg-indigo-500/10 px-5 py-2 text-xs font-semibold uppercase tracking-widest text-indigo-200 transition hover:bg-indigo-500/20 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                {creating ? 'Issuing' : 'Issue request'}
+              </button>
+            </div>
+          </form>
+
+          {selectedTemplate ? (
+            <IntelTemplatePreview
+              key={`${selectedTemplate.key}:${selectedTemplate.version}`}
+              template={selectedTemplate}
+              title={form.title}
+              description={form.description}
+              dueDate={form.dueDate}
+              clientVisible={form.visibility === 'client_visible'}
+            />
+          ) : (
+            <p className={`text-xs uppercase tracking-widest ${text.muted}`}>
+              Select a template to preview.
+            </p>
+          )}
+        </div>
+      ) : null}
+
       <div className={`${surface.panel} p-8 space-y-3`}>
         {items.map((item) => (
           <div
@@ -81,6 +322,7 @@ export default function OpsRequestsPage() {
               </p>
               <p className={`text-[10px] uppercase tracking-widest ${text.muted}`}>
                 {item.visibility.toUpperCase()} · {item.assignedTo}
+                {item.dueDate ? ` · DUE ${item.dueDate}` : ''}
               </p>
             </div>
             <span className="border px-3 py-1 text-[9px] uppercase tracking-widest text-indigo-200">
@@ -1,9 +1,18 @@
 import { useEffect, useState } from 'react';
 
 import ModulePlaceholder from '../components/ModulePlaceholder';
+import OutputDecisionDialog from '../components/OutputDecisionDialog';
+import OutputPreviewPane from '../components/OutputPreviewPane';
 import { usePortalContext } from '../layout/PortalShell';
 import { ApiResponseError } from '../lib/api';
-import { fetchOutputs, type OutputItem } from '../lib/portal';
+import {
+  fetchOutputs,
+  isPreviewableFile,
+  postOutputDecision,
+  type OutputAttachment,
+  type OutputItem,
+  type OutputRevision,
+} from '../lib/portal';
 import { label, surface, text } from '../styles/tokens';
 
 const formatError = (status?: number) => {
@@ -19,10 +28,91 @@ const formatError = (status?: number) => {
   }
 };
 
+const formatDecisionError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Reason required to reject';
+    case 403:
+      return 'Only the client can decide';
+    case 409:
+      return 'Output is no longer awaiting a decision';
+    case 429:
+      return 'Rate limited, try later';
+    case 502:
+      return 'ERP unavailable, retry';
+    default:
+      return 'Decision not recorded';
+  }
+};
+
+const formatBytes = (value: number) => {
+  if (value >= 1024 * 1024) return `${(value / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.ceil(value / 1024)} KB`;
+};
+
+const formatDate = (value: string | null) => {
+  return value ? new Date(value).toLocaleDateString() : '—';
+};
+
+const describeChanges = (changes: OutputRevision['changes']) => {
+  if (!changes) return 'First version.';
+  const parts = [
+    changes.added.length ? `Added ${changes.added.join(', ')}` : null,
+    changes.updated.length ? `Updated ${changes.updated.join(', ')}` : null,
+    changes.removed.length ? `Removed ${changes.removed.join(', ')}` : null,
+  ].filter(Boolean);
+  return parts.length ? `${parts.join(' · ')}.` : 'No file changes.';
+};
+
+const AttachmentList = ({
+  attachments,
+  onPreview,
+}: {
+  attachments: OutputAttachment[];
+  onPreview: (attachment: OutputAttachment) => void;
+}) => {
+  if (!attachments.length) {
+    return <p className={`text-[11px] ${text.muted}`}>No files attached.</p>;
+  }
+  return (
+    <ul className="space-y-1">
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="flex items-center justify-between gap-3 text-[11px]">
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noreferrer"
+            className="truncate text-indigo-200 hover:text-indigo-100"
+          >
+            {attachment.name}
+          </a>
+          <span className="flex shrink-0 items-center gap-3">
+            <span className={`font-mono ${text.muted}`}>
+              {attachment.size !== null ? `${formatBytes(attachment.size)} · ` : ''}
+              {formatDate(attachment.uploadedAt)}
+            </span>
+            {isPreviewableFile(attachment.name) ? (
+              <button
+                type="button"
+                onClick={() => onPreview(attachment)}
+                className="font-mono text-[10px] uppercase tracking-widest text-gray-400 transition hover:text-gray-200"
+              >
+                Preview
+              </button>
+            ) : null}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 const statusClasses = (status: OutputItem['status']) => {
   switch (status) {
     case 'accepted':
       return 'border-emerald-400/50 bg-emerald-500/10 text-emerald-200';
+    case 'rejected':
+      return 'border-rose-400/50 bg-rose-500/10 text-rose-200';
     case 'delivered':
       return 'border-indigo-400/50 bg-indigo-500/10 text-indigo-200';
     case 'in_progress':
@@ -34,16 +124,30 @@ const statusClasses = (status: OutputItem['status']) => {
 };
 
 export default function OutputsPage() {
-  const { engagementId, summary } = usePortalContext();
+  const { engagementId, summary, role } = usePortalContext();
   const moduleState = summary?.modules?.outputs?.state ?? null;
   const [items, setItems] = useState<OutputItem[]>([]);
   const [wired, setWired] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [pendingDecision, setPendingDecision] = useState<{
+    output: OutputItem;
+    decision: 'accept' | 'reject';
+  } | null>(null);
+  const [preview, setPreview] = useState<{
+    outputId: string;
+    attachment: OutputAttachment;
+  } | null>(null);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [decisionState, setDecisionState] = useState<{ busy: boolean; error: string | null }>({
+    busy: false,
+    error: null,
+  });
 
   const shouldFetch = Boolean(engagementId) && moduleState !== 'locked';
 
   useEffect(() => {
+    setPreview(null);
     if (!shouldFetch || !engagementId) {
       setItems([]);
       setWired(null);
@@ -80,6 +184,30 @@ export default function OutputsPage() {
     };
   }, [shouldFetch, engagementId]);
 
+  const openDecision = (output: OutputItem, decision: 'accept' | 'reject') => {
+    setDecisionState({ busy: false, error: null });
+    setPendingDecision({ output, decision });
+  };
+
+  const handleDecision = async (reason: string) => {
+    if (!engagementId || !pendingDecision) return;
+    setDecisionState({ busy: true, error: null });
+    try {
+      const result = await postOutputDecision(engagementId, pendingDecision.output.id, {
+        decision: pendingDecision.decision,
+        reason: reason || undefined,
+      });
+      setItems((prev) => prev.map((item) => (item.id === result.output.id ? result.output : item)));
+      setPendingDecision(null);
+      setDecisionState({ busy: false, error: null });
+    } catch (err: unknown) {
+      setDecisionState({
+        busy: false,
+        error: formatDecisionError(err instanceof ApiResponseError ? err.status : undefined),
+      });
+    }
+  };
+
   if (!engagementId) {
     return <ModulePlaceholder title="OUTPUTS" moduleKey="outputs" />;
   }
@@ -112,7 +240,14 @@ export default function OutputsPage() {
         ) : null}
         {items.map((item) => (
           <div key={item.id} className="border border-white/10 px-5 py-4">
-            <p className="text-xs uppercase tracking-widest text-gray-200">{item.title}</p>
+            <div className="flex items-start justify-between gap-3">
+              <p className="text-xs uppercase tracking-widest text-gray-200">{item.title}</p>
+              {item.currentVersion ? (
+                <span className="font-mono text-[10px] uppercase tracking-widest text-indigo-200">
+                  v{item.currentVersion}
+                </span>
+              ) : null}
+            </div>
             <p className={`mt-1 text-[10px] ${text.muted}`}>{item.category}</p>
             <div className="mt-4 flex items-center justify-between">
               <span
@@ -124,11 +259,102 @@ export default function OutputsPage() {
                 {item.updatedAt ? `UPDATED ${item.updatedAt}` : 'NO TIMESTAMP'}
               </span>
             </div>
+            <div className="mt-4 space-y-2">
+              {item.revisions?.[0] ? (
+                <p className={`text-[11px] ${text.muted}`}>
+                  {item.revisions[0].summary ? `${item.revisions[0].summary} ` : ''}
+                  {describeChanges(item.revisions[0].changes)}
+                </p>
+              ) : null}
+              <AttachmentList
+                attachments={item.attachments}
+                onPreview={(attachment) => setPreview({ outputId: item.id, attachment })}
+              />
+            </div>
+            {(item.revisions?.length ?? 0) > 1 ? (
+              <div className="mt-3">
+                <button
+                  type="button"
+                  onClick={() => setExpanded((prev) => ({ ...prev, [item.id]: !prev[item.id] }))}
+                  className="text-[10px] font-mono uppercase tracking-widest text-gray-400 transition hover:text-gray-200"
+                >
+                  {expanded[item.id]
+                    ? 'Hide prior versions'
+                    : `Prior versions (${(item.revisions?.length ?? 1) - 1})`}
+                </button>
+                {expanded[item.id] ? (
+                  <div className="mt-3 space-y-3 border-l border-white/10 pl-3">
+                    {item.revisions?.slice(1).map((revision) => (
+                      <div key={revision.id} className="space-y-1">
+                        <p className="font-mono text-[10px] uppercase tracking-widest text-gray-300">
+                          v{revision.version} · {formatDate(revision.createdAt)}
+                        </p>
+                        <p className={`text-[11px] ${text.muted}`}>
+                          {revision.summary ? `${revision.summary} ` : ''}
+                          {describeChanges(revision.changes)}
+                        </p>
+                        <AttachmentList
+                          attachments={revision.attachments}
+                          onPreview={(attachment) => setPreview({ outputId: item.id, attachment })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+            {item.decision?.reason ? (
+              <p
+                className={`mt-3 text-xs ${
+                  item.decision.decision === 'rejected' ? 'text-rose-300' : text.muted
+                }`}
+              >
+                {item.decision.reason}
+              </p>
+            ) : null}
+            {role === 'CLIENT' && item.status === 'delivered' ? (
+              <div className="mt-4 flex items-center justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => openDecision(item, 'reject')}
+                  className="text-[10px] font-mono uppercase tracking-widest text-rose-300 transition hover:text-rose-200"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openDecision(item, 'accept')}
+                  className="text-[10px] font-mono uppercase tracking-widest text-emerald-300 transition hover:text-emerald-200"
+                >
+                  Accept
+                </button>
+              </div>
+            ) : null}
           </div>
         ))}
       </div>
 
+      {preview ? (
+        <OutputPreviewPane
+          engagementId={engagementId}
+          outputId={preview.outputId}
+          attachment={preview.attachment}
+          onClose={() => setPreview(null)}
+        />
+      ) : null}
+
       {error ? <p className="mt-4 text-xs text-rose-300">{error}</p> : null}
+
+      {pendingDecision ? (
+        <OutputDecisionDialog
+          output={pendingDecision.output}
+          decision={pendingDecision.decision}
+          busy={decisionState.busy}
+          error={decisionState.error}
+          onConfirm={handleDecision}
+          onCancel={() => setPendingDecision(null)}
+        />
+      ) : null}
     </div>
   );
 }
@@ -1,9 +1,25 @@
 import { useEffect, useState } from 'react';
 
 import ModulePlaceholder from '../components/ModulePlaceholder';
+import ProtocolGantt from '../components/ProtocolGantt';
 import { usePortalContext } from '../layout/PortalShell';
 import { ApiResponseError } from '../lib/api';
-import { fetchProtocolStatus, type ProtocolResponse } from '../lib/portal';
+import {
+  createProtocolCalendarFeed,
+  fetchProtocolHistory,
+  fetchProtocolStatus,
+  fetchProtocolVariance,
+  recordProtocolSnapshot,
+  revokeProtocolCalendarFeed,
+  setProtocolBaseline,
+  updateProtocolTask,
+  type ProtocolResponse,
+  type ProtocolSnapshot,
+  type ProtocolTask,
+  type ProtocolTaskTargetStatus,
+  type ProtocolVarianceEntry,
+  type ProtocolVarianceResponse,
+} from '../lib/portal';
 import { label, surface, text } from '../styles/tokens';
 
 const formatError = (status?: number) => {
@@ -17,23 +33,119 @@ const formatError = (status?: number) => {
   }
 };
 
+const formatTaskError = (status?: number) => {
+  switch (status) {
+    case 400:
+      return 'Reason required.';
+    case 403:
+      return 'Task owned by the other party.';
+    case 409:
+      return 'Task already moved, refresh.';
+    case 429:
+      return 'Too many requests.';
+    case 502:
+      return 'ERP unavailable, retry.';
+    default:
+      return 'Task update failed.';
+  }
+};
+
 const statusLabel = (status?: ProtocolResponse['status']) => {
   if (!status) return '—';
   return status.replace('_', ' ').toUpperCase();
 };
 
+const formatDate = (value: string | null) => {
+  return value ? new Date(value).toLocaleDateString() : '—';
+};
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString();
+
+const formatDays = (days: number) => `${days > 0 ? '+' : '−'}${Math.abs(days)}d`;
+
+const HISTORY_LIMIT = 20;
+
+const taskAction =
+  'text-[10px] font-mono uppercase tracking-widest transition disabled:cursor-not-allowed disabled:opacity-40';
+
+const OVERRIDE_TARGETS: Record<ProtocolTask['status'], ProtocolTaskTargetStatus[]> = {
+  pending: ['in_progress', 'blocked', 'complete'],
+  ready: ['in_progress', 'blocked', 'complete'],
+  in_progress: ['blocked', 'complete'],
+  blocked: ['in_progress', 'complete'],
+  complete: ['in_progress'],
+};
+
+const actionLabel = (task: ProtocolTask, status: ProtocolTaskTargetStatus) => {
+  if (status === 'complete') return 'Done';
+  if (status === 'blocked') return 'Block';
+  if (task.status === 'complete') return 'Reopen';
+  return task.status === 'blocked' ? 'Unblock' : 'Start';
+};
+
+type TaskState = {
+  busy: boolean;
+  message?: string;
+};
+
+const slippedBadge =
+  'border border-rose-500/40 bg-rose-500/10 px-3 py-1 text-[9px] uppercase tracking-widest text-rose-200';
+
+const movedBadge = (days: number) =>
+  `border px-3 py-1 text-[9px] font-mono uppercase tracking-widest ${
+    days > 0
+      ? 'border-amber-500/40 bg-amber-500/10 text-amber-200'
+      : 'border-emerald-500/40 bg-emerald-500/10 text-emerald-200'
+  }`;
+
+const renderMoved = (entry?: ProtocolVarianceEntry) => {
+  if (!entry || entry.change !== 'moved' || !entry.daysMoved) return null;
+  return (
+    <span
+      className={movedBadge(entry.daysMoved)}
+      title={`Baseline ${formatDate(entry.baselineDate)}`}
+    >
+      Moved {formatDays(entry.daysMoved)}
+    </span>
+  );
+};
+
 export default function ProtocolPage() {
-  const { engagementId, summary } = usePortalContext();
+  const { engagementId, summary, role } = usePortalContext();
   const moduleState = summary?.modules?.protocol?.state ?? null;
   const [data, setData] = useState<ProtocolResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [taskState, setTaskState] = useState<Record<string, TaskState>>({});
+  const [view, setView] = useState<'list' | 'gantt'>('list');
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedState, setFeedState] = useState<{ busy: boolean; message?: string }>({
+    busy: false,
+  });
+  const [blockDraft, setBlockDraft] = useState<{ taskId: string; reason: string } | null>(null);
+  const [overrideDraft, setOverrideDraft] = useState<{ taskId: string; reason: string } | null>(
+    null,
+  );
+  const [variance, setVariance] = useState<ProtocolVarianceResponse | null>(null);
+  const [history, setHistory] = useState<ProtocolSnapshot[] | null>(null);
+  const [historyState, setHistoryState] = useState<{ busy: boolean; message?: string }>({
+    busy: false,
+  });
 
   useEffect(() => {
     if (!engagementId) return;
     let active = true;
     setLoading(true);
     setError(null);
+    setFeedUrl(null);
+    setVariance(null);
+    setHistory(null);
+    fetchProtocolVariance(engagementId)
+      .then((response) => {
+        if (!active) return;
+        setVariance(response);
+      })
+      .catch(() => undefined);
     fetchProtocolStatus(engagementId)
       .then((response) => {
         if (!active) return;
@@ -56,6 +168,150 @@ export default function ProtocolPage() {
     };
   }, [engagementId]);
 
+  const canAct = (task: ProtocolTask) =>
+    task.owner === (role === 'OPERATOR' ? 'operator' : 'client');
+
+  const canOverride = (task: ProtocolTask) => role === 'OPERATOR' && task.owner === 'client';
+
+  const replaceTask = (task: ProtocolTask) => {
+    setData((prev) =>
+      prev
+        ? { ...prev, tasks: prev.tasks.map((entry) => (entry.id === task.id ? task : entry)) }
+        : prev,
+    );
+  };
+
+  const handleTransition = async (
+    task: ProtocolTask,
+    status: ProtocolTaskTargetStatus,
+    reason?: string,
+    override?: boolean,
+  ) => {
+    if (!engagementId) return;
+    setTaskState((prev) => ({ ...prev, [task.id]: { busy: true } }));
+    replaceTask({
+      ...task,
+      status,
+      blockedReason: status === 'blocked' ? (reason ?? null) : null,
+      slipped: status === 'complete' ? false : task.slipped,
+    });
+
+    try {
+      const result = await updateProtocolTask(engagementId, task.id, {
+        status,
+        reason,
+        override,
+      });
+      replaceTask(result.task);
+      setTaskState((prev) => ({ ...prev, [task.id]: { busy: false } }));
+      setBlockDraft(null);
+      setOverrideDraft(null);
+      fetchProtocolStatus(engagementId)
+        .then(setData)
+        .catch(() => undefined);
+      fetchProtocolVariance(engagementId)
+        .then(setVariance)
+        .catch(() => undefined);
+    } catch (err: unknown) {
+      replaceTask(task);
+      setTaskState((prev) => ({
+        ...prev,
+        [task.id]: {
+          busy: false,
+          message: formatTaskError(err instanceof ApiResponseError ? err.status : undefined),
+        },
+      }));
+    }
+  };
+
+  const handleCreateFeed = async () => {
+    if (!engagementId) return;
+    setFeedState({ busy: true });
+    try {
+      const result = await createProtocolCalendarFeed(engagementId);
+      setFeedUrl(new URL(result.feedUrl, window.location.origin).toString());
+      setFeedState({ busy: false });
+    } catch {
+      setFeedState({ busy: false, message: 'Calendar link not issued.' });
+    }
+  };
+
+  const handleRevokeFeed = async () => {
+    if (!engagementId) return;
+    if (!window.confirm('Revoke the calendar link? Subscribed calendars stop updating.')) return;
+    setFeedState({ busy: true });
+    try {
+      await revokeProtocolCalendarFeed(engagementId);
+      setFeedUrl(null);
+      setFeedState({ busy: false, message: 'Calendar link revoked.' });
+    } catch {
+      setFeedState({ busy: false, message: 'Calendar link not revoked.' });
+    }
+  };
+
+  const handleToggleHistory = async () => {
+    if (!engagementId) return;
+    if (history) {
+      setHistory(null);
+      return;
+    }
+    setHistoryState({ busy: true });
+    try {
+      const result = await fetchProtocolHistory(engagementId, HISTORY_LIMIT);
+      setHistory(result.items);
+      setHistoryState({ busy: false });
+    } catch {
+      setHistoryState({ busy: false, message: 'History unavailable.' });
+    }
+  };
+
+  const handleRecordSnapshot = async () => {
+    if (!engagementId) return;
+    setHistoryState({ busy: true });
+    try {
+      await recordProtocolSnapshot(engagementId);
+      const [nextVariance, nextHistory] = await Promise.all([
+        fetchProtocolVariance(engagementId),
+        history ? fetchProtocolHistory(engagementId, HISTORY_LIMIT) : Promise.resolve(null),
+      ]);
+      setVariance(nextVariance);
+      if (nextHistory) setHistory(nextHistory.items);
+      setHistoryState({ busy: false, message: 'Snapshot recorded.' });
+    } catch {
+      setHistoryState({ busy: false, message: 'Snapshot not recorded.' });
+    }
+  };
+
+  const handleSetBaseline = async (snapshot: ProtocolSnapshot) => {
+    if (!engagementId) return;
+    if (
+      !window.confirm(
+        `Use the snapshot from ${formatTimestamp(snapshot.createdAt)} as the baseline? Variance will be reported against it.`,
+      )
+    ) {
+      return;
+    }
+    setHistoryState({ busy: true });
+    try {
+      await setProtocolBaseline(engagementId, snapshot.id);
+      const [nextVariance, nextHistory] = await Promise.all([
+        fetchProtocolVariance(engagementId),
+        fetchProtocolHistory(engagementId, HISTORY_LIMIT),
+      ]);
+      setVariance(nextVariance);
+      setHistory(nextHistory.items);
+      setHistoryState({ busy: false, message: 'Baseline updated.' });
+    } catch {
+      setHistoryState({ busy: false, message: 'Baseline not updated.' });
+    }
+  };
+
+  const milestoneVariance = new Map(variance?.milestones.map((entry) => [entry.id, entry]));
+  const taskVariance = new Map(variance?.tasks.map((entry) => [entry.id, entry]));
+  const changedEntries = [...(variance?.milestones ?? []), ...(variance?.tasks ?? [])].filter(
+    (entry) => entry.change !== 'unchanged',
+  );
+
   if (!engagementId || moduleState === 'locked' || moduleState === 'not_wired') {
     return <ModulePlaceholder title="PROTOCOL" moduleKey="protocol" />;
   }
@@ -67,19 +323,80 @@ export default function ProtocolPage() {
           <div>
             <p className={label.micro}>DELIVERY</p>
             <h1 className="mt-2 text-2xl font-semibold uppercase tracking-[0.3em]">Protocol</h1>
+            {data?.phase ? (
+              <p className={`mt-2 text-[10px] uppercase tracking-widest ${text.muted}`}>
+                Phase · {data.phase}
+              </p>
+            ) : null}
           </div>
           <span className="text-[10px] uppercase tracking-widest text-gray-400">
             {loading ? '…' : statusLabel(data?.status)}
           </span>
         </div>
         <p className={`mt-3 text-xs uppercase tracking-widest ${text.muted}`}>
-          {data?.note ?? 'Live protocol telemetry coming soon.'}
+          {data?.note ?? 'Protocol on schedule.'}
         </p>
+        <div className="mt-6 flex flex-wrap items-center gap-3 border-t border-white/10 pt-4">
+          <p className={label.micro}>CALENDAR FEED</p>
+          {feedUrl ? (
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(event) => event.target.select()}
+              className={`${surface.input} min-w-0 flex-1 px-3 py-1.5 text-[11px] font-mono text-gray-200 focus:outline-none`}
+            />
+          ) : (
+            <span className={`text-[11px] ${text.muted}`}>
+              Subscribe to milestones and task due dates from any calendar app.
+            </span>
+          )}
+          <button
+            type="button"
+            disabled={feedState.busy}
+            onClick={handleCreateFeed}
+            className={`${taskAction} text-indigo-200 hover:text-indigo-100`}
+          >
+            {feedUrl ? 'Regenerate link' : 'Get calendar link'}
+          </button>
+          <button
+            type="button"
+            disabled={feedState.busy}
+            onClick={handleRevokeFeed}
+            className={`${taskAction} text-rose-300 hover:text-rose-200`}
+          >
+            Revoke
+          </button>
+          {feedState.message ? (
+            <span className={`text-[11px] font-mono ${text.muted}`}>{feedState.message}</span>
+          ) : null}
+        </div>
       </div>
 
       <div className={`${surface.panel} p-8`}>
-        <p className={label.micro}>TIMELINE</p>
-        <div className="mt-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className={label.micro}>TIMELINE</p>
+          <div className="flex items-center gap-3">
+            {(['list', 'gantt'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`${taskAction} ${
+                  view === option ? 'text-indigo-200' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {option === 'list' ? 'List' : 'Gantt'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {view === 'gantt' && data ? (
+          <div className="mt-8">
+            <ProtocolGantt timeline={data.timeline} tasks={data.tasks} />
+          </div>
+        ) : null}
+        <div className={`mt-4 space-y-3 ${view === 'gantt' ? 'hidden' : ''}`}>
           {data?.timeline.map((entry) => (
             <div
               key={entry.id}
@@ -88,12 +405,17 @@ export default function ProtocolPage() {
               <div>
                 <p className="text-xs uppercase tracking-widest text-gray-200">{entry.label}</p>
                 <p className={`text-[10px] uppercase tracking-widest ${text.muted}`}>
-                  Due {new Date(entry.dueDate).toLocaleDateString()} · {entry.owner.toUpperCase()}
+                  Due {formatDate(entry.dueDate)} · {entry.owner.toUpperCase()}
+                  {entry.completedAt ? ` · Completed ${formatDate(entry.completedAt)}` : ''}
                 </p>
               </div>
-              <span className="border px-3 py-1 text-[9px] uppercase tracking-widest text-indigo-200">
-                {entry.status.replace('_', ' ').toUpperCase()}
-              </span>
+              <div className="flex items-center gap-2">
+                {renderMoved(milestoneVariance.get(entry.id))}
+                {entry.slipped ? <span className={slippedBadge}>Slipped</span> : null}
+                <span className="border px-3 py-1 text-[9px] uppercase tracking-widest text-indigo-200">
+                  {entry.status.replace('_', ' ').toUpperCase()}
+                </span>
+              </div>
             </div>
           ))}
           {!data?.timeline.length && !loading ? (
@@ -105,6 +427,93 @@ export default function ProtocolPage() {
         {error ? <p className="mt-4 text-xs text-rose-300">{error}</p> : null}
       </div>
 
+      <div className={`${surface.panel} p-8`}>
+        <div className="flex items-center justify-between">
+          <p className={label.micro}>VARIANCE</p>
+          <div className="flex items-center gap-3">
+            {role === 'OPERATOR' ? (
+              <button
+                type="button"
+                disabled={historyState.busy}
+                onClick={handleRecordSnapshot}
+                className={`${taskAction} text-gray-400 hover:text-gray-200`}
+              >
+                Record snapshot
+              </button>
+            ) : null}
+            <button
+              type="button"
+              disabled={historyState.busy}
+              onClick={handleToggleHistory}
+              className={`${taskAction} text-indigo-200 hover:text-indigo-100`}
+            >
+              {history ? 'Hide history' : 'Show history'}
+            </button>
+          </div>
+        </div>
+        <p className={`mt-3 text-xs uppercase tracking-widest ${text.muted}`}>
+          {variance?.baseline
+            ? `Baseline ${formatTimestamp(variance.baseline.baselineSetAt ?? variance.baseline.createdAt)} · ${
+                variance.movedMilestones
+              } milestone${variance.movedMilestones === 1 ? '' : 's'} moved · Max slip ${
+                variance.maxSlipDays
+              }d`
+            : 'No baseline recorded yet.'}
+        </p>
+        {changedEntries.length ? (
+          <div className="mt-4 space-y-2">
+            {changedEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between border border-white/5 px-4 py-2"
+              >
+                <p className="text-[11px] uppercase tracking-widest text-gray-200">{entry.label}</p>
+                <p className={`text-[10px] font-mono uppercase tracking-widest ${text.muted}`}>
+                  {entry.change === 'moved'
+                    ? `${formatDate(entry.baselineDate)} → ${formatDate(entry.currentDate)}${
+                        entry.daysMoved ? ` · ${formatDays(entry.daysMoved)}` : ''
+                      }`
+                    : entry.change === 'added'
+                      ? `Added · ${formatDate(entry.currentDate)}`
+                      : `Removed · was ${formatDate(entry.baselineDate)}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : variance?.baseline ? (
+          <p className={`mt-4 text-[11px] ${text.muted}`}>Schedule matches the baseline.</p>
+        ) : null}
+        {history ? (
+          <div className="mt-6 space-y-2 border-t border-white/10 pt-4">
+            {history.map((snapshot) => (
+              <div key={snapshot.id} className="flex items-center justify-between px-1 py-1">
+                <span className={`text-[11px] font-mono ${text.muted}`}>
+                  {formatTimestamp(snapshot.createdAt)}
+                  {snapshot.id === variance?.currentSnapshotId ? ' · current' : ''}
+                </span>
+                {snapshot.baseline ? (
+                  <span className="text-[10px] font-mono uppercase tracking-widest text-indigo-200">
+                    Baseline
+                  </span>
+                ) : role === 'OPERATOR' ? (
+                  <button
+                    type="button"
+                    disabled={historyState.busy}
+                    onClick={() => handleSetBaseline(snapshot)}
+                    className={`${taskAction} text-gray-400 hover:text-gray-200`}
+                  >
+                    Set as baseline
+                  </button>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+        {historyState.message ? (
+          <p className={`mt-4 text-[11px] font-mono ${text.muted}`}>{historyState.message}</p>
+        ) : null}
+      </div>
+
       <div className={`${surface.panel} p-8`}>
         <p className={label.micro}>TASKS</p>
         <div className="mt-4 space-y-3">
@@ -116,12 +525,142 @@ export default function ProtocolPage() {
               <div>
                 <p className="text-xs uppercase tracking-widest text-gray-200">{task.label}</p>
                 <p className={`text-[10px] uppercase tracking-widest ${text.muted}`}>
-                  ETA {new Date(task.eta).toLocaleDateString()} · {task.owner.toUpperCase()}
+                  ETA {formatDate(task.eta)} · {task.owner.toUpperCase()}
                 </p>
+                {task.blockedReason ? (
+                  <p className="mt-1 text-xs text-rose-300">{task.blockedReason}</p>
+                ) : null}
+                {taskState[task.id]?.message ? (
+                  <p className="mt-1 text-[11px] font-mono text-rose-300">
+                    {taskState[task.id]?.message}
+                  </p>
+                ) : null}
+                {blockDraft?.taskId === task.id ? (
+                  <div className="mt-3 flex items-center gap-3">
+                    <input
+                      type="text"
+                      autoFocus
+                      maxLength={500}
+                      value={blockDraft.reason}
+                      placeholder="What is blocking this task?"
+                      onChange={(event) =>
+                        setBlockDraft({ taskId: task.id, reason: event.target.value })
+                      }
+                      className={`${surface.input} w-72 px-3 py-1.5 text-xs text-gray-200 focus:border-indigo-500 focus:outline-none`}
+                    />
+                    <button
+                      type="button"
+                      disabled={!blockDraft.reason.trim() || taskState[task.id]?.busy}
+                      onClick={() => handleTransition(task, 'blocked', blockDraft.reason.trim())}
+                      className={`${taskAction} text-rose-300 hover:text-rose-200`}
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setBlockDraft(null)}
+                      className={`${taskAction} text-gray-400 hover:text-gray-200`}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : null}
+                {overrideDraft?.taskId === task.id ? (
+                  <div className="mt-3 flex flex-wrap items-center gap-3">
+                    <input
+                      type="text"
+                      autoFocus
+                      maxLength={500}
+                      value={overrideDraft.reason}
+                      placeholder="Why are you acting for the client?"
+                      onChange={(event) =>
+                        setOverrideDraft({ taskId: task.id, reason: event.target.value })
+                      }
+                      className={`${surface.input} w-72 px-3 py-1.5 text-xs text-gray-200 focus:border-indigo-500 focus:outline-none`}
+                    />
+                    {OVERRIDE_TARGETS[task.status].map((status) => (
+                      <button
+                        key={status}
+                        type="button"
+                        disabled={!overrideDraft.reason.trim() || taskState[task.id]?.busy}
+                        onClick={() =>
+                          handleTransition(task, status, overrideDraft.reason.trim(), true)
+                        }
+                        className={`${taskAction} text-amber-200 hover:text-amber-100`}
+                      >
+                        {actionLabel(task, status)}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setOverrideDraft(null)}
+                      className={`${taskAction} text-gray-400 hover:text-gray-200`}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+              <div className="flex items-center gap-3">
+                {canOverride(task) && overrideDraft?.taskId !== task.id ? (
+                  <button
+                    type="button"
+                    disabled={taskState[task.id]?.busy}
+                    onClick={() => setOverrideDraft({ taskId: task.id, reason: '' })}
+                    className={`${taskAction} text-amber-200 hover:text-amber-100`}
+                    title="Act on a client task. The reason is recorded and audited."
+                  >
+                    Override
+                  </button>
+                ) : null}
+                {canAct(task) && task.status !== 'complete' ? (
+                  <>
+                    {task.status !== 'in_progress' ? (
+                      <button
+                        type="button"
+                        disabled={taskState[task.id]?.busy}
+                        onClick={() => handleTransition(task, 'in_progress')}
+                        className={`${taskAction} text-indigo-200 hover:text-indigo-100`}
+                      >
+                        {task.status === 'blocked' ? 'Unblock' : 'Start'}
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      disabled={taskState[task.id]?.busy}
+                      onClick={() =>
+                        setBlockDraft({ taskId: task.id, reason: task.blockedReason ?? '' })
+                      }
+                      className={`${taskAction} text-rose-300 hover:text-rose-200`}
+                    >
+                      Block
+                    </button>
+                    <button
+                      type="button"
+                      disabled={taskState[task.id]?.busy}
+                      onClick={() => handleTransition(task, 'complete')}
+                      className={`${taskAction} text-emerald-300 hover:text-emerald-200`}
+                    >
+                      Done
+                    </button>
+                  </>
+                ) : null}
+                {role === 'OPERATOR' && canAct(task) && task.status === 'complete' ? (
+                  <button
+                    type="button"
+                    disabled={taskState[task.id]?.busy}
+                    onClick={() => handleTransition(task, 'in_progress')}
+                    className={`${taskAction} text-indigo-200 hover:text-indigo-100`}
+                  >
+                    Reopen
+                  </button>
+                ) : null}
+                {renderMoved(taskVariance.get(task.id))}
+                {task.slipped ? <span className={slippedBadge}>Slipped</span> : null}
+                <span className="border px-3 py-1 text-[9px] uppercase tracking-widest text-amber-200">
+                  {task.status.replace('_', ' ').toUpperCase()}
+                </span>
               </div>
-              <span className="border px-3 py-1 text-[9px] uppercase tracking-widest text-amber-200">
-                {task.status.replace('_', ' ').toUpperCase()}
-              </span>
             </div>
           ))}
           {!data?.tasks.length && !loading ? (
@@ -0,0 +1,76 @@
+import type { IntelConditionValue, IntelField, IntelFieldCondition } from './contracts';
+
+export type IntelFieldState = {
+  visible: boolean;
+  required: boolean;
+};
+
+const isEmptyAnswer = (value: unknown) => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+const matchesValue = (answer: unknown, expected: IntelConditionValue): boolean => {
+  if (Array.isArray(answer)) return answer.some((entry) => matchesValue(entry, expected));
+  if (typeof expected === 'boolean') return answer === expected;
+  if (answer === undefined || answer === null || typeof answer === 'object') return false;
+  return String(answer).trim() === String(expected);
+};
+
+const toList = (value: IntelConditionValue | IntelConditionValue[] | undefined) => {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+export const evaluateIntelCondition = (
+  condition: IntelFieldCondition,
+  answers: Record<string, unknown>,
+): boolean => {
+  if ('all' in condition) {
+    return condition.all.every((entry) => evaluateIntelCondition(entry, answers));
+  }
+  if ('any' in condition) {
+    return condition.any.some((entry) => evaluateIntelCondition(entry, answers));
+  }
+
+  const answer = answers[condition.field];
+  const expected = toList(condition.value);
+
+  switch (condition.operator) {
+    case 'answered':
+      return !isEmptyAnswer(answer);
+    case 'equals':
+    case 'in':
+      return expected.some((entry) => matchesValue(answer, entry));
+    case 'not_equals':
+    case 'not_in':
+      return !expected.some((entry) => matchesValue(answer, entry));
+    default:
+      return false;
+  }
+};
+
+// Conditions may only reference earlier fields, so one pass in template order
+// resolves every field; answers of hidden fields never feed later conditions.
+export const resolveIntelFieldStates = (
+  fields: IntelField[],
+  answers: Record<string, unknown>,
+): Record<string, IntelFieldState> => {
+  const scope: Record<string, unknown> = {};
+
+  return fields.reduce<Record<string, IntelFieldState>>((acc, field) => {
+    const visible = !field.showIf || evaluateIntelCondition(field.showIf, scope);
+    const required =
+      visible &&
+      (field.required ||
+        (field.requiredIf ? evaluateIntelCondition(field.requiredIf, scope) : false));
+
+    if (visible && field.key in answers) {
+      scope[field.key] = answers[field.key];
+    }
+    acc[field.key] = { visible, required };
+    return acc;
+  }, {});
+};
@@ -1,6 +1,12 @@
 export type ISODateString = string;
 export type Id = string;
 
+export interface ApiError {
+  error: string;
+  code: string;
+  reason: string;
+}
+
 export type IntelFieldType =
   | 'text'
   | 'textarea'
@@ -11,7 +17,7 @@ export type IntelFieldType =
   | 'number'
   | 'email'
   | 'url'
-  | 'checkbox';
+  | 'boolean';
 
 export type IntelFieldVisibility = 'client_visible' | 'operator_only';
 
@@ -20,6 +26,21 @@ export interface IntelFieldOption {
   value: string;
 }
 
+export type IntelConditionOperator = 'equals' | 'not_equals' | 'in' | 'not_in' | 'answered';
+
+export type IntelConditionValue = string | number | boolean;
+
+export interface IntelConditionRule {
+  field: string;
+  operator: IntelConditionOperator;
+  value?: IntelConditionValue | IntelConditionValue[];
+}
+
+export type IntelFieldCondition =
+  | IntelConditionRule
+  | { all: IntelFieldCondition[] }
+  | { any: IntelFieldCondition[] };
+
 export interface IntelField {
   id: Id;
   key: string;
@@ -28,17 +49,27 @@ export interface IntelField {
   required: boolean;
   description?: string;
   options?: IntelFieldOption[];
+  accept?: string[];
   visibility?: IntelFieldVisibility;
+  showIf?: IntelFieldCondition;
+  requiredIf?: IntelFieldCondition;
 }
 
 export interface IntelTemplate {
-  id: Id;
+  key: string;
   name: string;
-  description?: string;
   version: number;
+  description?: string;
   fields: IntelField[];
+}
+
+export interface IntelTemplateVersionDTO extends IntelTemplate {
   createdAt: ISODateString;
-  updatedAt?: ISODateString;
+  createdBy: string | null;
+}
+
+export interface IntelTemplateListDTO {
+  items: IntelTemplateVersionDTO[];
 }
 
 export interface ProtocolItemDTO {
@@ -68,6 +99,15 @@ export interface DirectiveDTO {
 
 export type IntelRequestStatus = 'pending' | 'submitted' | 'needs_revision' | 'accepted';
 
+export type IntelAnswers = Record<string, unknown>;
+
+export interface IntelAttachmentDTO {
+  id: Id;
+  fileName: string;
+  fileUrl: string;
+  isPrivate: boolean;
+}
+
 export interface IntelRequestDTO {
   id: Id;
   status: IntelRequestStatus;
@@ -75,8 +115,52 @@ export interface IntelRequestDTO {
   description?: string | null;
   required: boolean;
   templateKey: string;
+  templateVersion?: number | null;
   visibility?: string | null;
+  dueDate?: string | null;
   fields: IntelField[];
+  answers?: IntelAnswers;
+  submittedAt?: ISODateString | null;
+  reviewComment?: string | null;
+  reviewedAt?: ISODateString | null;
+  attachments?: IntelAttachmentDTO[];
+  unreadComments?: number;
+}
+
+export type IntelReviewDecision = 'accept' | 'request_revision';
+
+export interface IntelReviewResponseDTO {
+  requestId: Id;
+  status: IntelRequestStatus;
+  decision: IntelReviewDecision;
+  comment: string | null;
+  reviewedAt: ISODateString;
+}
+
+export interface IntelAnswerErrorDTO {
+  field: string;
+  code:
+    | 'required'
+    | 'unknown_field'
+    | 'invalid_type'
+    | 'invalid_option'
+    | 'invalid_format'
+    | 'too_long';
+  reason: string;
+}
+
+export interface IntelSubmitResponseDTO {
+  requestId: Id;
+  status: 'submitted';
+  submittedAt: ISODateString;
+  templateVersion: number;
+  answers: IntelAnswers;
+}
+
+export interface IntelDraftDTO {
+  requestId: Id;
+  answers: IntelAnswers;
+  updatedAt: ISODateString | null;
 }
 
 export interface IntelUploadResponseDTO {
@@ -85,6 +169,42 @@ export interface IntelUploadResponseDTO {
   status: 'accepted' | 'failed';
   receivedAt: ISODateString;
   message?: string;
+  sha256?: string;
+  detectedType?: string;
+  attachment?: IntelAttachmentDTO;
+}
+
+export interface IntelAttachmentDeleteResponseDTO {
+  requestId: Id;
+  fileId: Id;
+  deletedAt: ISODateString;
+}
+
+export interface IntelCommentDTO {
+  id: Id;
+  requestId: Id;
+  fieldKey: string | null;
+  body: string;
+  authorId: string;
+  authorRole: 'CLIENT' | 'OPERATOR';
+  createdAt: ISODateString;
+}
+
+export interface IntelCommentListDTO {
+  requestId: Id;
+  items: IntelCommentDTO[];
+  lastReadAt: ISODateString | null;
+}
+
+export interface IntelUploadSessionDTO {
+  uploadId: Id;
+  requestId: Id;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  receivedBytes: number;
+  status: 'open' | 'finalized';
+  expiresAt: ISODateString;
 }
 
 export interface DeliverableDTO {
@@ -0,0 +1,28 @@
+import type { IntelRequestStatus } from './contracts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const INTEL_OPEN_STATUSES: readonly IntelRequestStatus[] = ['pending', 'needs_revision'];
+
+export const isIntelRequestOpen = (status: string) => {
+  return (INTEL_OPEN_STATUSES as readonly string[]).includes(status);
+};
+
+export const intelDaysPastDue = (dueDate: string, now: Date = new Date()): number | null => {
+  const due = dueDate.slice(0, 10);
+  if (!DATE_PATTERN.test(due)) return null;
+  const dueAt = Date.parse(`${due}T00:00:00Z`);
+  if (Number.isNaN(dueAt)) return null;
+  const today = Date.parse(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+  return Math.round((today - dueAt) / DAY_MS);
+};
+
+export const isIntelRequestOverdue = (
+  request: { status: string; dueDate?: string | null },
+  now: Date = new Date(),
+) => {
+  if (!request.dueDate || !isIntelRequestOpen(request.status)) return false;
+  const daysPastDue = intelDaysPastDue(request.dueDate, now);
+  return daysPastDue !== null && daysPastDue > 0;
+};
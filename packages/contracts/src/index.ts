@@ -1,19 +1,77 @@
 export type {
   ISODateString,
   Id,
+  ApiError,
   IntelFieldType,
   IntelFieldVisibility,
   IntelFieldOption,
+  IntelConditionOperator,
+  IntelConditionValue,
+  IntelConditionRule,
+  IntelFieldCondition,
   IntelField,
   IntelTemplate,
+  IntelTemplateVersionDTO,
+  IntelTemplateListDTO,
   IntelRequestStatus,
   DashboardDTO,
   ProtocolItemDTO,
   DirectiveDTO,
+  IntelAnswers,
+  IntelAttachmentDTO,
+  IntelAttachmentDeleteResponseDTO,
   IntelRequestDTO,
+  IntelAnswerErrorDTO,
+  IntelSubmitResponseDTO,
+  IntelDraftDTO,
+  IntelReviewDecision,
+  IntelReviewResponseDTO,
   IntelUploadResponseDTO,
+  IntelUploadSessionDTO,
+  IntelCommentDTO,
+  IntelCommentListDTO,
   DeliverableDTO,
   SettlementDTO,
   MessageDTO,
   LucienSession,
 } from './contracts';
+
+export type { IntelFieldState } from './conditions';
+export { evaluateIntelCondition, resolveIntelFieldStates } from './conditions.js';
+export {
+  INTEL_OPEN_STATUSES,
+  intelDaysPastDue,
+  isIntelRequestOpen,
+  isIntelRequestOverdue,
+} from './deadlines.js';
+
+export type { Guard } from './validators';
+export {
+  isArrayOf,
+  isApiError,
+  isIntelFieldOption,
+  isIntelFieldCondition,
+  isIntelField,
+  isIntelTemplate,
+  isIntelTemplateVersionDTO,
+  isIntelTemplateListDTO,
+  isProtocolItemDTO,
+  isDashboardDTO,
+  isDirectiveDTO,
+  isIntelAnswers,
+  isIntelAttachmentDTO,
+  isIntelAttachmentDeleteResponseDTO,
+  isIntelRequestDTO,
+  isIntelReviewResponseDTO,
+  isIntelAnswerErrorDTO,
+  isIntelSubmitResponseDTO,
+  isIntelDraftDTO,
+  isIntelUploadResponseDTO,
+  isIntelUploadSessionDTO,
+  isIntelCommentDTO,
+  isIntelCommentListDTO,
+  isDeliverableDTO,
+  isSettlementDTO,
+  isMessageDTO,
+  isLucienSession,
+} from './validators.js';
@@ -0,0 +1,328 @@
+import type {
+  ApiError,
+  DashboardDTO,
+  DeliverableDTO,
+  DirectiveDTO,
+  IntelAnswerErrorDTO,
+  IntelAnswers,
+  IntelAttachmentDTO,
+  IntelAttachmentDeleteResponseDTO,
+  IntelCommentDTO,
+  IntelCommentListDTO,
+  IntelConditionOperator,
+  IntelDraftDTO,
+  IntelField,
+  IntelFieldCondition,
+  IntelFieldOption,
+  IntelFieldType,
+  IntelFieldVisibility,
+  IntelRequestDTO,
+  IntelRequestStatus,
+  IntelReviewDecision,
+  IntelReviewResponseDTO,
+  IntelSubmitResponseDTO,
+  IntelTemplate,
+  IntelTemplateListDTO,
+  IntelTemplateVersionDTO,
+  IntelUploadResponseDTO,
+  IntelUploadSessionDTO,
+  LucienSession,
+  MessageDTO,
+  ProtocolItemDTO,
+  SettlementDTO,
+} from './contracts';
+
+export type Guard<T> = (value: unknown) => value is T;
+
+const INTEL_FIELD_TYPES: IntelFieldType[] = [
+  'text',
+  'textarea',
+  'select',
+  'multiselect',
+  'date',
+  'file',
+  'number',
+  'email',
+  'url',
+  'boolean',
+];
+const INTEL_FIELD_VISIBILITIES: IntelFieldVisibility[] = ['client_visible', 'operator_only'];
+const INTEL_CONDITION_OPERATORS: IntelConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'answered',
+];
+const INTEL_REQUEST_STATUSES: IntelRequestStatus[] = [
+  'pending',
+  'submitted',
+  'needs_revision',
+  'accepted',
+];
+const INTEL_REVIEW_DECISIONS: IntelReviewDecision[] = ['accept', 'request_revision'];
+const INTEL_ANSWER_ERROR_CODES: IntelAnswerErrorDTO['code'][] = [
+  'required',
+  'unknown_field',
+  'invalid_type',
+  'invalid_option',
+  'invalid_format',
+  'too_long',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isISODate = (value: unknown): value is string => {
+  return isString(value) && !Number.isNaN(Date.parse(value));
+};
+
+const isOneOf =
+  <T extends string>(values: readonly T[]): Guard<T> =>
+  (value: unknown): value is T =>
+    isString(value) && (values as readonly string[]).includes(value);
+
+const optional =
+  <T>(guard: Guard<T>): Guard<T | undefined> =>
+  (value: unknown): value is T | undefined =>
+    value === undefined || guard(value);
+
+const nullable =
+  <T>(guard: Guard<T>): Guard<T | null | undefined> =>
+  (value: unknown): value is T | null | undefined =>
+    value === undefined || value === null || guard(value);
+
+export const isArrayOf =
+  <T>(guard: Guard<T>): Guard<T[]> =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every((entry) => guard(entry));
+
+const hasShape = (value: unknown, shape: Record<string, Guard<unknown>>) => {
+  return isRecord(value) && Object.entries(shape).every(([key, guard]) => guard(value[key]));
+};
+
+export const isApiError = (value: unknown): value is ApiError =>
+  hasShape(value, { error: isString, code: isString, reason: isString });
+
+export const isIntelFieldOption = (value: unknown): value is IntelFieldOption =>
+  hasShape(value, { label: isString, value: isString });
+
+const isConditionValue = (value: unknown) => isString(value) || isNumber(value) || isBoolean(value);
+
+export const isIntelFieldCondition = (value: unknown): value is IntelFieldCondition => {
+  if (!isRecord(value)) return false;
+  if ('all' in value) return isArrayOf(isIntelFieldCondition)(value.all);
+  if ('any' in value) return isArrayOf(isIntelFieldCondition)(value.any);
+  return (
+    isString(value.field) &&
+    isOneOf(INTEL_CONDITION_OPERATORS)(value.operator) &&
+    (value.value === undefined ||
+      isConditionValue(value.value) ||
+      (Array.isArray(value.value) && value.value.every(isConditionValue)))
+  );
+};
+
+export const isIntelField = (value: unknown): value is IntelField =>
+  hasShape(value, {
+    id: isString,
+    key: isString,
+    label: isString,
+    type: isOneOf(INTEL_FIELD_TYPES),
+    required: isBoolean,
+    description: optional(isString),
+    options: optional(isArrayOf(isIntelFieldOption)),
+    accept: optional(isArrayOf(isString)),
+    visibility: optional(isOneOf(INTEL_FIELD_VISIBILITIES)),
+    showIf: optional(isIntelFieldCondition),
+    requiredIf: optional(isIntelFieldCondition),
+  });
+
+export const isIntelTemplate = (value: unknown): value is IntelTemplate =>
+  hasShape(value, {
+    key: isString,
+    name: isString,
+    version: isNumber,
+    description: optional(isString),
+    fields: isArrayOf(isIntelField),
+  });
+
+export const isIntelTemplateVersionDTO = (value: unknown): value is IntelTemplateVersionDTO =>
+  isIntelTemplate(value) &&
+  hasShape(value, { createdAt: isISODate, createdBy: nullable(isString) });
+
+export const isIntelTemplateListDTO = (value: unknown): value is IntelTemplateListDTO =>
+  hasShape(value, { items: isArrayOf(isIntelTemplateVersionDTO) });
+
+export const isProtocolItemDTO = (value: unknown): value is ProtocolItemDTO =>
+  hasShape(value, {
+    id: isString,
+    title: isString,
+    status: isOneOf(['draft', 'active', 'archived']),
+    priority: isOneOf(['low', 'medium', 'high', 'critical']),
+    updatedAt: isISODate,
+  });
+
+export const isDashboardDTO = (value: unknown): value is DashboardDTO =>
+  hasShape(value, {
+    sessionId: isString,
+    activeProtocols: isArrayOf(isProtocolItemDTO),
+    pendingDirectives: isNumber,
+    lastSyncAt: isISODate,
+  });
+
+export const isDirectiveDTO = (value: unknown): value is DirectiveDTO =>
+  hasShape(value, {
+    id: isString,
+    code: isString,
+    title: isString,
+    summary: optional(isString),
+    status: isOneOf(['open', 'in_progress', 'resolved', 'blocked']),
+    issuedAt: isISODate,
+    dueAt: optional(isISODate),
+  });
+
+export const isIntelAnswers = (value: unknown): value is IntelAnswers => isRecord(value);
+
+export const isIntelAttachmentDTO = (value: unknown): value is IntelAttachmentDTO =>
+  hasShape(value, { id: isString, fileName: isString, fileUrl: isString, isPrivate: isBoolean });
+
+export const isIntelRequestDTO = (value: unknown): value is IntelRequestDTO =>
+  hasShape(value, {
+    id: isString,
+    status: isOneOf(INTEL_REQUEST_STATUSES),
+    title: isString,
+    description: nullable(isString),
+    required: isBoolean,
+    templateKey: isString,
+    templateVersion: nullable(isNumber),
+    visibility: nullable(isString),
+    dueDate: nullable(isISODate),
+    fields: isArrayOf(isIntelField),
+    answers: optional(isIntelAnswers),
+    submittedAt: nullable(isISODate),
+    reviewComment: nullable(isString),
+    reviewedAt: nullable(isISODate),
+    attachments: optional(isArrayOf(isIntelAttachmentDTO)),
+    unreadComments: optional(isNumber),
+  });
+
+export const isIntelReviewResponseDTO = (value: unknown): value is IntelReviewResponseDTO =>
+  hasShape(value, {
+    requestId: isString,
+    status: isOneOf(INTEL_REQUEST_STATUSES),
+    decision: isOneOf(INTEL_REVIEW_DECISIONS),
+    comment: (entry: unknown): entry is string | null => entry === null || isString(entry),
+    reviewedAt: isISODate,
+  });
+
+export const isIntelAnswerErrorDTO = (value: unknown): value is IntelAnswerErrorDTO =>
+  hasShape(value, { field: isString, code: isOneOf(INTEL_ANSWER_ERROR_CODES), reason: isString });
+
+export const isIntelSubmitResponseDTO = (value: unknown): value is IntelSubmitResponseDTO =>
+  hasShape(value, {
+    requestId: isString,
+    status: isOneOf(['submitted']),
+    submittedAt: isISODate,
+    templateVersion: isNumber,
+    answers: isIntelAnswers,
+  });
+
+export const isIntelDraftDTO = (value: unknown): value is IntelDraftDTO =>
+  hasShape(value, {
+    requestId: isString,
+    answers: isIntelAnswers,
+    updatedAt: (entry: unknown): entry is string | null => entry === null || isISODate(entry),
+  });
+
+export const isIntelUploadResponseDTO = (value: unknown): value is IntelUploadResponseDTO =>
+  hasShape(value, {
+    requestId: isString,
+    uploadId: isString,
+    status: isOneOf(['accepted', 'failed']),
+    receivedAt: isISODate,
+    message: optional(isString),
+    sha256: optional(isString),
+    detectedType: optional(isString),
+    attachment: optional(isIntelAttachmentDTO),
+  });
+
+export const isIntelAttachmentDeleteResponseDTO = (
+  value: unknown,
+): value is IntelAttachmentDeleteResponseDTO =>
+  hasShape(value, { requestId: isString, fileId: isString, deletedAt: isISODate });
+
+export const isIntelCommentDTO = (value: unknown): value is IntelCommentDTO =>
+  hasShape(value, {
+    id: isString,
+    requestId: isString,
+    fieldKey: nullable(isString),
+    body: isString,
+    authorId: isString,
+    authorRole: isOneOf(['CLIENT', 'OPERATOR']),
+    createdAt: isISODate,
+  });
+
+export const isIntelCommentListDTO = (value: unknown): value is IntelCommentListDTO =>
+  hasShape(value, {
+    requestId: isString,
+    items: isArrayOf(isIntelCommentDTO),
+    lastReadAt: nullable(isISODate),
+  });
+
+export const isIntelUploadSessionDTO = (value: unknown): value is IntelUploadSessionDTO =>
+  hasShape(value, {
+    uploadId: isString,
+    requestId: isString,
+    fileName: isString,
+    size: isNumber,
+    chunkSize: isNumber,
+    receivedBytes: isNumber,
+    status: isOneOf(['open', 'finalized']),
+    expiresAt: isISODate,
+  });
+
+export const isDeliverableDTO = (value: unknown): value is DeliverableDTO =>
+  hasShape(value, {
+    id: isString,
+    title: isString,
+    status: isOneOf(['queued', 'in_review', 'delivered', 'rejected']),
+    submittedAt: isISODate,
+    deliveredAt: optional(isISODate),
+  });
+
+export const isSettlementDTO = (value: unknown): value is SettlementDTO =>
+  hasShape(value, {
+    id: isString,
+    deliverableId: isString,
+    amount: isNumber,
+    currency: isString,
+    status: isOneOf(['pending', 'settled', 'disputed']),
+    settledAt: optional(isISODate),
+  });
+
+export const isMessageDTO = (value: unknown): value is MessageDTO =>
+  hasShape(value, {
+    id: isString,
+    threadId: isString,
+    sender: isString,
+    body: isString,
+    createdAt: isISODate,
+  });
+
+export const isLucienSession = (value: unknown): value is LucienSession =>
+  hasShape(value, {
+    id: isString,
+    subject: isString,
+    role: isOneOf(['operator', 'analyst', 'viewer', 'admin']),
+    issuedAt: isISODate,
+    expiresAt: isISODate,
+  });